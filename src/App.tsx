@@ -1,7 +1,8 @@
 // src/App.tsx
 import React, { lazy, Suspense } from "react";
-import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from "react-router-dom";
+import { createBrowserRouter, RouterProvider, Routes, Route, Navigate, useLocation, useParams } from "react-router-dom";
 import { AuthProvider, useAuth } from "./contexts/AuthContext";
+import { TimerProvider } from "./contexts/TimerContext";
 import { DashboardNavbar } from "./components/Navbar";
 import 'bootstrap/dist/css/bootstrap.min.css';
 
@@ -13,6 +14,14 @@ import { SignUp } from "./pages/SignUp";
 const Dashboard = lazy(() => import("./pages/Dashboard").then(m => ({ default: m.Dashboard })));
 const TimeTrackerEditor = lazy(() => import("./components/Editor/TimeTrackerEditor").then(m => ({ default: m.TimeTrackerEditor })));
 const FileBank = lazy(() => import("./components/FileBank/FileBank").then(m => ({ default: m.FileBank })));
+const Approvals = lazy(() => import("./pages/Approvals").then(m => ({ default: m.Approvals })));
+const TemplateLibrary = lazy(() => import("./pages/TemplateLibrary").then(m => ({ default: m.TemplateLibrary })));
+const Projects = lazy(() => import("./pages/Projects").then(m => ({ default: m.Projects })));
+const Invoices = lazy(() => import("./pages/Invoices").then(m => ({ default: m.Invoices })));
+const Reports = lazy(() => import("./pages/Reports").then(m => ({ default: m.Reports })));
+const Calendar = lazy(() => import("./pages/Calendar").then(m => ({ default: m.Calendar })));
+const Leave = lazy(() => import("./pages/Leave").then(m => ({ default: m.Leave })));
+const Expenses = lazy(() => import("./pages/Expenses").then(m => ({ default: m.Expenses })));
 
 const LoadingFallback = () => (
   <div className="d-flex justify-content-center align-items-center" style={{ minHeight: '80vh' }}>
@@ -28,6 +37,12 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
   return <>{children}</>;
 };
 
+// Keyed by id so switching templates starts from a fresh editor state
+const TimeTrackerRoute: React.FC = () => {
+  const { templateId } = useParams();
+  return <TimeTrackerEditor key={templateId} templateId={templateId} />;
+};
+
 const AppContent: React.FC = () => {
   const location = useLocation();
   const hideNavbar = ['/login', '/signup'].includes(location.pathname);
@@ -49,6 +64,51 @@ const AppContent: React.FC = () => {
               <TimeTrackerEditor />
             </ProtectedRoute>
           } />
+          <Route path="/time-tracker/:templateId" element={
+            <ProtectedRoute>
+              <TimeTrackerRoute />
+            </ProtectedRoute>
+          } />
+          <Route path="/templates" element={
+            <ProtectedRoute>
+              <TemplateLibrary />
+            </ProtectedRoute>
+          } />
+          <Route path="/projects" element={
+            <ProtectedRoute>
+              <Projects />
+            </ProtectedRoute>
+          } />
+          <Route path="/invoices" element={
+            <ProtectedRoute>
+              <Invoices />
+            </ProtectedRoute>
+          } />
+          <Route path="/reports" element={
+            <ProtectedRoute>
+              <Reports />
+            </ProtectedRoute>
+          } />
+          <Route path="/calendar" element={
+            <ProtectedRoute>
+              <Calendar />
+            </ProtectedRoute>
+          } />
+          <Route path="/leave" element={
+            <ProtectedRoute>
+              <Leave />
+            </ProtectedRoute>
+          } />
+          <Route path="/expenses" element={
+            <ProtectedRoute>
+              <Expenses />
+            </ProtectedRoute>
+          } />
+          <Route path="/approvals" element={
+            <ProtectedRoute>
+              <Approvals />
+            </ProtectedRoute>
+          } />
           <Route path="/file-bank" element={
             <ProtectedRoute>
               <FileBank />
@@ -60,12 +120,15 @@ const AppContent: React.FC = () => {
   );
 };
 
+// A data router so editors can block navigation while they hold unsaved changes
+const router = createBrowserRouter([{ path: "*", element: <AppContent /> }]);
+
 export const App: React.FC = () => {
   return (
     <AuthProvider>
-      <Router>
-        <AppContent />
-      </Router>
+      <TimerProvider>
+        <RouterProvider router={router} />
+      </TimerProvider>
     </AuthProvider>
   );
 };
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { supabase } from './supabaseClient';
+import { FILE_BANK_BUCKET, fileBankPath } from './fileBank';
+import type { ExpenseCategory } from '../utils/expenses';
+
+// Shape of a row in the `expenses` table
+export interface ExpenseRecord {
+  id: string;
+  user_id: string;
+  date: string;
+  category: ExpenseCategory;
+  description: string;
+  amount: number;
+  currency: string;
+  project: string | null;
+  project_id: string | null;
+  // Receipt stored in the File Bank bucket, opened through a signed URL
+  receipt_path: string | null;
+  receipt_name: string | null;
+  // Time tracker template the claim is attached to
+  template_id: string | null;
+  created_at: string;
+}
+
+export type ExpenseInput = Omit<ExpenseRecord, 'id' | 'user_id' | 'created_at'>;
+
+export const toExpenseInput = (e: ExpenseRecord): ExpenseInput => ({
+  date: e.date,
+  category: e.category,
+  description: e.description,
+  amount: e.amount,
+  currency: e.currency,
+  project: e.project,
+  project_id: e.project_id,
+  receipt_path: e.receipt_path,
+  receipt_name: e.receipt_name,
+  template_id: e.template_id,
+});
+
+export async function loadExpenses(userId: string) {
+  const { data, error } = await supabase
+    .from('expenses')
+    .select('*')
+    .eq('user_id', userId)
+    .order('date', { ascending: false });
+  if (error) throw error;
+  return (data as ExpenseRecord[]) || [];
+}
+
+export async function loadTemplateExpenses(templateId: string) {
+  const { data, error } = await supabase.from('expenses').select('*').eq('template_id', templateId).order('date');
+  if (error) throw error;
+  return (data as ExpenseRecord[]) || [];
+}
+
+export async function saveExpense(userId: string, input: ExpenseInput, id?: string) {
+  const payload = { ...input, description: input.description.trim(), project: input.project?.trim() || null };
+  const query = id
+    ? supabase.from('expenses').update(payload).eq('id', id)
+    : supabase.from('expenses').insert({ ...payload, user_id: userId });
+  const { error } = await query;
+  if (error) throw error;
+}
+
+// The receipt stays in the File Bank; only the claim line is removed
+export async function deleteExpense(id: string) {
+  const { error } = await supabase.from('expenses').delete().eq('id', id);
+  if (error) throw error;
+}
+
+// Uploads a receipt the same way the File Bank page does, so it is listed there too
+export async function uploadReceipt(userId: string, file: File) {
+  const storagePath = fileBankPath(userId, file.name);
+
+  const { error: uploadError } = await supabase.storage.from(FILE_BANK_BUCKET).upload(storagePath, file);
+  if (uploadError) throw new Error(`Upload failed: ${uploadError.message}`);
+
+  const { error: insertError } = await supabase.from('file_bank').insert({
+    user_id: userId,
+    filename: file.name,
+    storage_path: storagePath,
+    content_type: file.type,
+    size: file.size,
+  });
+  if (insertError) throw new Error(`Database insert failed: ${insertError.message}`);
+
+  return { storagePath, filename: file.name };
+}
+
+// Links (or with null, unlinks) claim lines to a time tracker template
+export async function attachExpensesToTemplate(ids: string[], templateId: string | null) {
+  if (ids.length === 0) return;
+  const { error } = await supabase.from('expenses').update({ template_id: templateId }).in('id', ids);
+  if (error) throw error;
+}
@@ -0,0 +1,62 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from './supabaseClient';
+
+export const FILE_BANK_BUCKET = 'file-bank';
+
+// Storage key used by the File Bank page's own uploads: file-bank/<user>/<timestamp>-<name>
+export const fileBankPath = (userId: string, filename: string) => `file-bank/${userId}/${Date.now()}-${filename}`;
+
+// Uploads a file to storage and records it in the `file_bank` table so it shows up in the File Bank
+export async function uploadToFileBank(userId: string, file: File) {
+  const storagePath = `${userId}/${uuidv4()}-${file.name}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(FILE_BANK_BUCKET)
+    .upload(storagePath, file, { upsert: true, contentType: file.type });
+
+  if (uploadError) {
+    console.error('Upload error:', uploadError);
+    throw new Error(`Upload failed: ${uploadError.message}`);
+  }
+
+  const { data } = supabase.storage.from(FILE_BANK_BUCKET).getPublicUrl(storagePath);
+  const publicUrl = data?.publicUrl;
+
+  const { error: insertError } = await supabase.from('file_bank').insert({
+    user_id: userId,
+    filename: file.name,
+    storage_path: storagePath,
+    content_type: file.type,
+    size: file.size,
+  });
+
+  if (insertError) {
+    console.error('Database insert error:', insertError);
+    throw new Error(`Database insert failed: ${insertError.message}`);
+  }
+
+  return { storagePath, url: publicUrl ?? '' };
+}
+
+// pdf-lib and friends hand back Uint8Array<ArrayBufferLike>, which File's typings reject
+export function bytesToFile(bytes: Uint8Array, filename: string, type: string) {
+  return new File([bytes as BlobPart], filename, { type });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const href = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(href);
+}
+
+// Short-lived link for files that are read back by storage path rather than a public URL
+export async function signedFileBankUrl(storagePath: string, expiresIn = 60) {
+  const { data, error } = await supabase.storage.from(FILE_BANK_BUCKET).createSignedUrl(storagePath, expiresIn);
+  if (error) throw error;
+  return data.signedUrl;
+}
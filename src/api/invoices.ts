@@ -0,0 +1,96 @@
+import { supabase } from './supabaseClient';
+import { nextInvoiceNumber } from '../utils/invoices';
+import type { InvoiceLine, InvoiceStatus, InvoicedEntry } from '../utils/invoices';
+
+// Shape of a row in the `invoices` table
+export interface InvoiceRecord {
+  id: string;
+  user_id: string;
+  // Unique per user (see supabase/migrations)
+  number: string;
+  client_id: string;
+  issue_date: string;
+  due_date: string;
+  period_start: string;
+  period_end: string;
+  currency: string;
+  lines: InvoiceLine[];
+  // Grid rows billed on this invoice, so later invoices skip them
+  entries: InvoicedEntry[];
+  subtotal: number;
+  tax_rate: number;
+  tax: number;
+  total: number;
+  notes: string | null;
+  status: InvoiceStatus;
+  paid_at: string | null;
+  file_url: string | null;
+  storage_path: string | null;
+  created_at: string;
+}
+
+export type InvoiceInput = Omit<InvoiceRecord, 'id' | 'user_id' | 'status' | 'paid_at' | 'created_at'>;
+
+export const INVOICE_STATUS_VARIANTS: Record<InvoiceStatus, string> = {
+  unpaid: 'warning',
+  paid: 'success',
+};
+
+export async function loadInvoices(userId: string) {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data as InvoiceRecord[]) || [];
+}
+
+// Postgres unique_violation, raised by the (user_id, number) constraint
+const UNIQUE_VIOLATION = '23505';
+const MAX_NUMBER_ATTEMPTS = 5;
+
+async function loadInvoiceNumbers(userId: string) {
+  const { data, error } = await supabase.from('invoices').select('number').eq('user_id', userId);
+  if (error) throw error;
+  return ((data as { number: string }[]) || []).map(r => r.number);
+}
+
+/**
+ * Inserts the invoice under the next free number of its issue year. Numbers are read fresh from the
+ * table, and when another tab takes the same number first the unique constraint rejects the insert
+ * and the next number is tried.
+ */
+export async function createInvoice(userId: string, input: Omit<InvoiceInput, 'number'>) {
+  for (let attempt = 1; ; attempt++) {
+    const number = nextInvoiceNumber(await loadInvoiceNumbers(userId), input.issue_date);
+    const { data, error } = await supabase
+      .from('invoices')
+      .insert({ ...input, number, user_id: userId, status: 'unpaid' })
+      .select('*')
+      .single();
+
+    if (!error) return data as InvoiceRecord;
+    if (error.code !== UNIQUE_VIOLATION || attempt >= MAX_NUMBER_ATTEMPTS) throw error;
+  }
+}
+
+export async function attachInvoiceFile(id: string, file: Pick<InvoiceRecord, 'file_url' | 'storage_path'>) {
+  const { error } = await supabase.from('invoices').update(file).eq('id', id);
+  if (error) throw error;
+}
+
+export async function deleteInvoice(id: string) {
+  const { error } = await supabase.from('invoices').delete().eq('id', id);
+  if (error) throw error;
+}
+
+export async function setInvoiceStatus(id: string, status: InvoiceStatus) {
+  const { error } = await supabase
+    .from('invoices')
+    .update({ status, paid_at: status === 'paid' ? new Date().toISOString() : null })
+    .eq('id', id);
+
+  if (error) throw error;
+}
@@ -0,0 +1,153 @@
+import { supabase } from './supabaseClient';
+import { leaveDaysInPeriod } from '../utils/leave';
+import type { HolidayLike, LeaveBalanceSettings, LeaveStatus, LeaveType } from '../utils/leave';
+import type { Period } from '../utils/periods';
+
+// Shape of a row in the `leave_balances` table, one per user and leave type
+export interface LeaveBalanceRecord extends LeaveBalanceSettings {
+  id: string;
+  user_id: string;
+  updated_at: string | null;
+}
+
+// Shape of a row in the `leave_requests` table
+export interface LeaveRequestRecord {
+  id: string;
+  user_id: string;
+  user_email: string | null;
+  leave_type: LeaveType;
+  start_date: string;
+  end_date: string;
+  half_day: boolean;
+  // Working days charged to the balance, fixed when the request is made
+  days: number;
+  note: string | null;
+  status: LeaveStatus;
+  reviewed_by: string | null;
+  review_comment: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+export type LeaveRequestInput = Pick<LeaveRequestRecord, 'leave_type' | 'start_date' | 'end_date' | 'half_day' | 'days' | 'note'>;
+
+// Shape of a row in the `public_holidays` table
+export interface PublicHolidayRecord extends HolidayLike {
+  id: string;
+  user_id: string;
+  created_at: string;
+}
+
+export const LEAVE_STATUS_VARIANTS: Record<LeaveStatus, string> = {
+  pending: 'info',
+  approved: 'success',
+  rejected: 'danger',
+  cancelled: 'secondary',
+};
+
+/* --------------------------
+   Balances
+-------------------------- */
+export async function loadLeaveBalances(userId: string) {
+  const { data, error } = await supabase.from('leave_balances').select('*').eq('user_id', userId);
+  if (error) throw error;
+  return (data as LeaveBalanceRecord[]) || [];
+}
+
+export async function saveLeaveBalance(userId: string, settings: LeaveBalanceSettings) {
+  const { error } = await supabase
+    .from('leave_balances')
+    .upsert(
+      {
+        user_id: userId,
+        leave_type: settings.leave_type,
+        opening_days: settings.opening_days,
+        accrual_days: settings.accrual_days,
+        accrual_period: settings.accrual_period,
+        effective_from: settings.effective_from,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id,leave_type' }
+    );
+  if (error) throw error;
+}
+
+/* --------------------------
+   Requests
+-------------------------- */
+export async function loadLeaveRequests(userIds: string[], status?: LeaveStatus) {
+  if (userIds.length === 0) return [];
+  let query = supabase.from('leave_requests').select('*').in('user_id', userIds);
+  if (status) query = query.eq('status', status);
+  const { data, error } = await query.order('start_date', { ascending: false });
+  if (error) throw error;
+  return (data as LeaveRequestRecord[]) || [];
+}
+
+export async function createLeaveRequest(user: { id: string; email?: string | null }, input: LeaveRequestInput) {
+  if (input.end_date < input.start_date) throw new Error('The leave ends before it starts');
+  if (input.days <= 0) throw new Error('The selected dates contain no working days');
+
+  const { error } = await supabase.from('leave_requests').insert({
+    ...input,
+    note: input.note?.trim() || null,
+    user_id: user.id,
+    user_email: user.email ?? null,
+    status: 'pending',
+  });
+  if (error) throw error;
+}
+
+// Moves a pending request on; guarded on the status so a request is only decided once
+export async function changeLeaveStatus(
+  id: string,
+  to: Exclude<LeaveStatus, 'pending'>,
+  actor?: { id: string },
+  comment?: string
+) {
+  const { data, error } = await supabase
+    .from('leave_requests')
+    .update({
+      status: to,
+      reviewed_by: actor?.id ?? null,
+      review_comment: comment?.trim() || null,
+      reviewed_at: actor ? new Date().toISOString() : null,
+    })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) throw error;
+  if (!data || data.length === 0) throw new Error('The request was already decided, reload and try again');
+}
+
+/* --------------------------
+   Public holidays
+-------------------------- */
+export async function loadPublicHolidays(userId: string) {
+  const { data, error } = await supabase.from('public_holidays').select('*').eq('user_id', userId).order('date');
+  if (error) throw error;
+  return (data as PublicHolidayRecord[]) || [];
+}
+
+// Adds holidays whose date is not in the calendar yet and returns how many were added
+export async function importPublicHolidays(userId: string, holidays: HolidayLike[]) {
+  const existing = new Set((await loadPublicHolidays(userId)).map(h => h.date));
+  const fresh = holidays.filter(h => !existing.has(h.date));
+  if (fresh.length === 0) return 0;
+
+  const { error } = await supabase.from('public_holidays').insert(fresh.map(h => ({ ...h, user_id: userId })));
+  if (error) throw error;
+  return fresh.length;
+}
+
+export async function deletePublicHoliday(id: string) {
+  const { error } = await supabase.from('public_holidays').delete().eq('id', id);
+  if (error) throw error;
+}
+
+// Approved leave and public holidays in the period, ready to insert as timesheet rows
+export async function loadLeaveDays(userId: string, period: Period) {
+  const [requests, holidays] = await Promise.all([loadLeaveRequests([userId], 'approved'), loadPublicHolidays(userId)]);
+  return leaveDaysInPeriod(period, requests, holidays);
+}
@@ -0,0 +1,114 @@
+import { supabase } from './supabaseClient';
+import { cellRef, cellText } from '../utils/timeEntries';
+import type { Cell } from '../utils/timeEntries';
+import type { TemplateMeta } from '../utils/templateData';
+
+/* --------------------------
+   Clients & projects catalogue
+-------------------------- */
+export interface ClientRecord {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface ProjectRecord {
+  id: string;
+  user_id: string;
+  name: string;
+  code: string | null;
+  client_id: string | null;
+  default_rate: number | null;
+  currency: string;
+  // Archived projects stay resolvable on old templates but are no longer offered for new entries
+  active: boolean;
+  created_at: string;
+}
+
+export type ProjectInput = Pick<ProjectRecord, 'name' | 'code' | 'client_id' | 'default_rate' | 'currency' | 'active'>;
+
+export const toProjectInput = (p: ProjectRecord): ProjectInput => ({
+  name: p.name,
+  code: p.code,
+  client_id: p.client_id,
+  default_rate: p.default_rate,
+  currency: p.currency,
+  active: p.active,
+});
+
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'CHF', 'SEK', 'NOK', 'DKK', 'JPY', 'ZAR', 'INR'];
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const formatMoney = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
+
+// "CODE · Name" when a code is set, for pickers and reports
+export const projectLabel = (project: Pick<ProjectRecord, 'name' | 'code'>) =>
+  project.code ? `${project.code} · ${project.name}` : project.name;
+
+// Matches free text against the catalogue so rows typed before a project was picked still link up
+export const findProjectByName = (projects: ProjectRecord[], text: string) => {
+  const needle = text.trim().toLowerCase();
+  if (!needle) return undefined;
+  return (
+    projects.find(p => p.name.toLowerCase() === needle) ??
+    projects.find(p => !!p.code && p.code.toLowerCase() === needle) ??
+    projects.find(p => projectLabel(p).toLowerCase() === needle)
+  );
+};
+
+// A row's project: its linked id, else its text matched by name, else the template's own project
+export const resolveRowProject = (row: Cell[], meta: TemplateMeta | undefined, projects: ProjectRecord[]) => {
+  const ref = cellRef(row, 'project');
+  const text = cellText(row, 'project');
+  if (ref || text) return projects.find(p => p.id === ref) ?? findProjectByName(projects, text);
+  return projects.find(p => p.id === meta?.projectId) ?? findProjectByName(projects, meta?.project ?? '');
+};
+
+export async function loadClients(userId: string) {
+  const { data, error } = await supabase.from('clients').select('*').eq('user_id', userId).order('name');
+  if (error) throw error;
+  return (data as ClientRecord[]) || [];
+}
+
+export async function loadProjects(userId: string) {
+  const { data, error } = await supabase.from('projects').select('*').eq('user_id', userId).order('name');
+  if (error) throw error;
+  return (data as ProjectRecord[]) || [];
+}
+
+export async function saveClient(userId: string, name: string, id?: string) {
+  const query = id
+    ? supabase.from('clients').update({ name }).eq('id', id)
+    : supabase.from('clients').insert({ name, user_id: userId });
+  const { error } = await query;
+  if (error) throw error;
+}
+
+export async function deleteClient(id: string) {
+  const { count, error: countError } = await supabase
+    .from('projects')
+    .select('id', { count: 'exact', head: true })
+    .eq('client_id', id);
+  if (countError) throw countError;
+  if (count) throw new Error('Move or delete this client\'s projects first');
+
+  const { error } = await supabase.from('clients').delete().eq('id', id);
+  if (error) throw error;
+}
+
+export async function saveProject(userId: string, input: ProjectInput, id?: string) {
+  const payload = { ...input, name: input.name.trim(), code: input.code?.trim() || null };
+  const query = id
+    ? supabase.from('projects').update(payload).eq('id', id)
+    : supabase.from('projects').insert({ ...payload, user_id: userId });
+  const { error } = await query;
+  if (error) throw error;
+}
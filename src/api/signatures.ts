@@ -0,0 +1,77 @@
+import { supabase } from './supabaseClient';
+
+/* --------------------------
+   Saved signatures
+-------------------------- */
+export type SignatureKind = 'drawn' | 'typed' | 'uploaded';
+
+// Shape of a row in the `user_signatures` table, one per user
+export interface UserSignatureRecord {
+  user_id: string;
+  kind: SignatureKind;
+  // Trimmed PNG as a data URL, so stamping never depends on a storage link
+  image_data: string;
+  width: number;
+  height: number;
+  // Name as typed, kept for typed signatures so the pad can show it again
+  typed_name: string | null;
+  font_family: string | null;
+  updated_at: string;
+}
+
+export type SignatureInput = Omit<UserSignatureRecord, 'user_id' | 'updated_at'>;
+
+export async function loadUserSignature(userId: string) {
+  const { data, error } = await supabase.from('user_signatures').select('*').eq('user_id', userId).maybeSingle();
+  if (error) throw error;
+  return (data as UserSignatureRecord | null) ?? null;
+}
+
+export async function saveUserSignature(userId: string, signature: SignatureInput) {
+  const { data, error } = await supabase
+    .from('user_signatures')
+    .upsert({ ...signature, user_id: userId, updated_at: new Date().toISOString() }, { onConflict: 'user_id' })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return data as UserSignatureRecord;
+}
+
+/* --------------------------
+   Signature audit trail
+-------------------------- */
+// Shape of a row in the `signature_audit` table, written for every signature in an exported PDF
+export interface SignatureAuditRecord {
+  id: string;
+  template_id: string | null;
+  attachment_id: string;
+  annotation_id: string;
+  page_index: number;
+  signed_by: string;
+  signer_name: string;
+  signed_at: string;
+  exported_by: string;
+  exported_by_email: string | null;
+  // File Bank path of the exported PDF carrying the signature
+  exported_path: string;
+  created_at: string;
+}
+
+export type SignatureAuditInput = Omit<SignatureAuditRecord, 'id' | 'created_at'>;
+
+export async function recordSignatureAudit(entries: SignatureAuditInput[]) {
+  if (entries.length === 0) return;
+  const { error } = await supabase.from('signature_audit').insert(entries);
+  if (error) throw error;
+}
+
+export async function loadSignatureAudit(templateId: string) {
+  const { data, error } = await supabase
+    .from('signature_audit')
+    .select('*')
+    .eq('template_id', templateId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data as SignatureAuditRecord[]) || [];
+}
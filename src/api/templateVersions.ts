@@ -0,0 +1,93 @@
+import { supabase } from './supabaseClient';
+import { EDITABLE_STATUSES } from './templateWorkflow';
+import { normalizeTemplate } from '../utils/templateData';
+import type { TemplateData } from '../utils/templateData';
+import { diffTemplates, isEmptyDiff, summarizeDiff } from '../utils/templateDiff';
+
+// Shape of a row in the `template_versions` table, a full copy of the template after a save
+export interface TemplateVersionRecord {
+  id: string;
+  template_id: string;
+  name: string;
+  template_data: TemplateData;
+  // One-line description of what changed since the previous version
+  summary: string;
+  saved_by: string;
+  saved_by_email: string | null;
+  created_at: string;
+}
+
+// Autosaves version the copy they overwrite at most this often; explicit saves always do
+export const AUTOSAVE_VERSION_INTERVAL_MS = 10 * 60 * 1000;
+
+export async function loadTemplateVersions(templateId: string) {
+  const { data, error } = await supabase
+    .from('template_versions')
+    .select('*')
+    .eq('template_id', templateId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data as TemplateVersionRecord[]) || [];
+}
+
+/**
+ * Stores the template as a new version, summarised against the latest one. Nothing is stored
+ * when it matches the latest version, so recording the same state twice is harmless.
+ */
+export async function recordTemplateVersion(
+  templateId: string,
+  actor: { id: string; email?: string | null },
+  name: string,
+  templateData: TemplateData,
+  options: { summary?: string } = {}
+) {
+  const { data: latestRows, error: latestError } = await supabase
+    .from('template_versions')
+    .select('*')
+    .eq('template_id', templateId)
+    .order('created_at', { ascending: false })
+    .limit(1);
+  if (latestError) throw latestError;
+
+  const latest = (latestRows as TemplateVersionRecord[] | null)?.[0];
+
+  const diff = diffTemplates(latest ? { name: latest.name, data: normalizeTemplate(latest.template_data) } : null, {
+    name,
+    data: normalizeTemplate(templateData),
+  });
+  if (latest && isEmptyDiff(diff)) return null;
+
+  const { data, error } = await supabase
+    .from('template_versions')
+    .insert({
+      template_id: templateId,
+      name,
+      template_data: templateData,
+      summary: options.summary ?? (latest ? summarizeDiff(diff) : 'First saved version'),
+      saved_by: actor.id,
+      saved_by_email: actor.email ?? null,
+    })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return data as TemplateVersionRecord;
+}
+
+// Makes an old version current again; the restore itself is recorded as a new version once it went through
+export async function restoreTemplateVersion(version: TemplateVersionRecord, actor: { id: string; email?: string | null }) {
+  const savedAt = Date.now();
+  const { data, error } = await supabase
+    .from('templates')
+    .update({ name: version.name, template_data: version.template_data, updated_at: new Date(savedAt).toISOString() })
+    .eq('id', version.template_id)
+    .in('status', EDITABLE_STATUSES)
+    .select('id');
+  if (error) throw error;
+  if (!data || data.length === 0) throw new Error('The timesheet is locked for approval');
+
+  await recordTemplateVersion(version.template_id, actor, version.name, version.template_data, {
+    summary: `Restored the version from ${new Date(version.created_at).toLocaleString()}`,
+  });
+  return savedAt;
+}
@@ -0,0 +1,101 @@
+import { supabase } from './supabaseClient';
+
+/* --------------------------
+   Timesheet lifecycle
+-------------------------- */
+export type TemplateStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
+export const STATUS_LABELS: Record<TemplateStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Submitted',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+// react-bootstrap Badge `bg` per status
+export const STATUS_VARIANTS: Record<TemplateStatus, string> = {
+  draft: 'secondary',
+  submitted: 'info',
+  approved: 'success',
+  rejected: 'danger',
+};
+
+// Transitions a given status may move to; owners submit, reviewers approve or reject
+export const ALLOWED_TRANSITIONS: Record<TemplateStatus, TemplateStatus[]> = {
+  draft: ['submitted'],
+  submitted: ['approved', 'rejected'],
+  approved: [],
+  rejected: ['submitted'],
+};
+
+export const isLockedStatus = (status: TemplateStatus) => status === 'submitted' || status === 'approved';
+
+// Statuses whose template data may still be written; updates filter on these so a stale tab cannot touch a locked row
+export const EDITABLE_STATUSES: TemplateStatus[] = ['draft', 'rejected'];
+
+export interface StatusHistoryRecord {
+  id: string;
+  template_id: string;
+  from_status: TemplateStatus;
+  to_status: TemplateStatus;
+  comment: string | null;
+  changed_by: string;
+  changed_by_email: string | null;
+  created_at: string;
+}
+
+export async function changeTemplateStatus(
+  templateId: string,
+  from: TemplateStatus,
+  to: TemplateStatus,
+  actor: { id: string; email?: string | null },
+  comment?: string
+) {
+  if (!ALLOWED_TRANSITIONS[from].includes(to)) {
+    throw new Error(`Cannot move a ${STATUS_LABELS[from].toLowerCase()} timesheet to ${STATUS_LABELS[to].toLowerCase()}`);
+  }
+
+  // Guard on the current status so two reviewers cannot act on the same submission
+  const { data, error } = await supabase
+    .from('templates')
+    .update({ status: to, updated_at: new Date().toISOString() })
+    .eq('id', templateId)
+    .eq('status', from)
+    .select('id');
+
+  if (error) throw error;
+  if (!data || data.length === 0) throw new Error('The timesheet status changed in the meantime, reload and try again');
+
+  const { error: historyError } = await supabase.from('template_status_history').insert({
+    template_id: templateId,
+    from_status: from,
+    to_status: to,
+    comment: comment?.trim() || null,
+    changed_by: actor.id,
+    changed_by_email: actor.email ?? null,
+  });
+
+  if (historyError) throw historyError;
+}
+
+export async function loadStatusHistory(templateId: string) {
+  const { data, error } = await supabase
+    .from('template_status_history')
+    .select('*')
+    .eq('template_id', templateId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data as StatusHistoryRecord[]) || [];
+}
+
+// Members are linked to their reviewer in the `team_members` table
+export async function loadManagedMembers(managerId: string) {
+  const { data, error } = await supabase
+    .from('team_members')
+    .select('member_id, member_email')
+    .eq('manager_id', managerId);
+
+  if (error) throw error;
+  return (data as { member_id: string; member_email: string | null }[]) || [];
+}
@@ -0,0 +1,111 @@
+import { supabase } from './supabaseClient';
+import { EDITABLE_STATUSES, isLockedStatus } from './templateWorkflow';
+import { mergeImportedRows } from '../utils/importEntries';
+import type { ImportedEntry } from '../utils/importEntries';
+import type { LeaveDay } from '../utils/leave';
+import { applyEntryToRow } from '../utils/calendar';
+import { formatPeriod, rollForwardTemplate } from '../utils/periods';
+import type { Period } from '../utils/periods';
+import { makeEmptyRow, rowId } from '../utils/timeEntries';
+import type { Cell } from '../utils/timeEntries';
+import { createDefaultTemplate, normalizeTemplate } from '../utils/templateData';
+import type { RollForwardSettings, TemplateData } from '../utils/templateData';
+
+// Clones a template into a new `templates` row for the following period and returns the new id
+export async function createNextPeriodTemplate(
+  userId: string,
+  name: string,
+  template: TemplateData,
+  settings: RollForwardSettings,
+  leave: LeaveDay[] = []
+) {
+  const { period, previous, data } = rollForwardTemplate(template, settings, leave);
+  const previousLabel = formatPeriod(previous);
+  const nextLabel = formatPeriod(period);
+  const nextName = name.includes(previousLabel) ? name.replace(previousLabel, nextLabel) : `${name} (${nextLabel})`;
+
+  const { data: inserted, error } = await supabase
+    .from('templates')
+    .insert({
+      name: nextName,
+      template_data: data,
+      user_id: userId,
+      status: 'draft',
+      updated_at: new Date().toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return inserted.id as string;
+}
+
+type LoadedTemplate = { template: TemplateData; updatedAt: string | null };
+
+// Reads a stored template for a background edit, refusing ones that are locked for approval
+async function loadEditableTemplate(templateId: string): Promise<LoadedTemplate> {
+  const { data, error } = await supabase.from('templates').select('template_data, status, updated_at').eq('id', templateId).single();
+  if (error) throw error;
+  if (isLockedStatus(data.status ?? 'draft')) throw new Error('The timesheet is locked for approval');
+  return { template: normalizeTemplate(data.template_data), updatedAt: data.updated_at ?? null };
+}
+
+// The whole template is written back, so the write only goes through while the row is still editable
+// and unchanged since it was read; otherwise an editor save or another write in between would be lost
+async function saveTemplateRows(templateId: string, loaded: LoadedTemplate, rows: Cell[][]) {
+  const query = supabase
+    .from('templates')
+    .update({ template_data: { ...loaded.template, rows }, updated_at: new Date().toISOString() })
+    .eq('id', templateId)
+    .in('status', EDITABLE_STATUSES);
+  const { data, error } = await (loaded.updatedAt ? query.eq('updated_at', loaded.updatedAt) : query.is('updated_at', null)).select('id');
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new Error('The timesheet was changed or locked elsewhere in the meantime. Reload and try again');
+  }
+}
+
+// Appends entries to a stored template without opening it in the editor
+export async function appendEntriesToTemplate(templateId: string, entries: ImportedEntry[]) {
+  const loaded = await loadEditableTemplate(templateId);
+  await saveTemplateRows(templateId, loaded, mergeImportedRows(loaded.template.rows, entries));
+}
+
+// Rewrites one row in place (keeping its cell ids), or appends it when rowId is omitted
+export async function saveTemplateEntry(templateId: string, entry: ImportedEntry, projectId?: string, targetRowId?: string) {
+  const loaded = await loadEditableTemplate(templateId);
+  const { template } = loaded;
+  if (targetRowId && !template.rows.some(row => rowId(row) === targetRowId)) {
+    throw new Error('The entry no longer exists in this timesheet');
+  }
+  const rows = targetRowId
+    ? template.rows.map(row => (rowId(row) === targetRowId ? applyEntryToRow(row, entry, projectId) : row))
+    : [...template.rows.filter(row => row.some(cell => cell.text.trim())), applyEntryToRow(makeEmptyRow(), entry, projectId)];
+  await saveTemplateRows(templateId, loaded, rows);
+}
+
+export async function deleteTemplateEntry(templateId: string, targetRowId: string) {
+  const loaded = await loadEditableTemplate(templateId);
+  const rows = loaded.template.rows.filter(row => rowId(row) !== targetRowId);
+  await saveTemplateRows(templateId, loaded, rows.length ? rows : [makeEmptyRow()]);
+}
+
+// Creates an empty draft template for the period and returns its id
+export async function createPeriodTemplate(userId: string, period: Period) {
+  const label = formatPeriod(period);
+  const template = createDefaultTemplate();
+  const { data, error } = await supabase
+    .from('templates')
+    .insert({
+      name: `Timesheet ${label}`,
+      template_data: { ...template, meta: { ...template.meta, period: label } },
+      user_id: userId,
+      status: 'draft',
+      updated_at: new Date().toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id as string;
+}
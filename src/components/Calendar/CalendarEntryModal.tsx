@@ -0,0 +1,172 @@
+// src/components/Calendar/CalendarEntryModal.tsx
+import React, { useState } from "react";
+import { Button, Form, Modal, Spinner } from "react-bootstrap";
+import { ProjectPicker } from "../Editor/ProjectPicker";
+import type { ClientRecord, ProjectRecord } from "../../api/projects";
+import { isIsoDate, weekStart } from "../../utils/dates";
+import { NEW_TEMPLATE, templatesCovering } from "../../utils/calendar";
+import { parseTime } from "../../utils/timeEntries";
+import type { TemplateRecord } from "../../utils/templateData";
+
+// An entry being created (no rowId) or edited in place
+export type CalendarDraft = {
+  templateId?: string;
+  templateName?: string;
+  rowId?: string;
+  locked?: boolean;
+  date: string;
+  start: string;
+  end: string;
+  breakMinutes: number;
+  project: string;
+  projectId?: string;
+  task: string;
+  notes: string;
+};
+
+interface CalendarEntryModalProps {
+  draft: CalendarDraft;
+  templates: TemplateRecord[];
+  projects: ProjectRecord[];
+  clients: ClientRecord[];
+  saving: boolean;
+  onHide: () => void;
+  onSave: (draft: CalendarDraft, target: string) => void;
+  onDelete: (draft: CalendarDraft) => void;
+}
+
+const inputStyle: React.CSSProperties = { background: "#0b0b0b", color: "#fff", border: "1px solid #333" };
+
+export const CalendarEntryModal: React.FC<CalendarEntryModalProps> = ({
+  draft,
+  templates,
+  projects,
+  clients,
+  saving,
+  onHide,
+  onSave,
+  onDelete,
+}) => {
+  const [form, setForm] = useState<CalendarDraft>(draft);
+  const [chosenTarget, setChosenTarget] = useState("");
+  const editing = !!draft.rowId;
+  const readOnly = !!draft.locked;
+
+  const covering = isIsoDate(form.date) ? templatesCovering(templates, form.date) : [];
+  // Keeps the user's choice while it still covers the date, otherwise the best match
+  const target = chosenTarget === NEW_TEMPLATE || covering.some(t => t.id === chosenTarget)
+    ? chosenTarget
+    : covering[0]?.id ?? NEW_TEMPLATE;
+
+  const update = (patch: Partial<CalendarDraft>) => setForm(f => ({ ...f, ...patch }));
+
+  const submit = () => {
+    if (!isIsoDate(form.date)) return alert("Enter a valid date");
+    const start = parseTime(form.start);
+    const end = parseTime(form.end);
+    if (start === null || end === null) return alert("Enter start and end times as HH:MM");
+    if (start === end) return alert("The end time must differ from the start time");
+    onSave({ ...form, project: form.project.trim(), task: form.task.trim(), notes: form.notes.trim() }, editing ? draft.templateId! : target);
+  };
+
+  return (
+    <Modal show onHide={onHide} centered>
+      <Modal.Header closeButton style={{ background: "#1a1a1a", borderColor: "#333", color: "#fff" }}>
+        <Modal.Title>{editing ? "Edit Entry" : "New Entry"}</Modal.Title>
+      </Modal.Header>
+      <Modal.Body style={{ background: "#0f0f10", color: "#fff" }}>
+        {readOnly && (
+          <div style={{ color: "#ff9800", fontSize: 13, marginBottom: 12 }}>
+            🔒 {draft.templateName} is locked for approval, so this entry can't be changed here.
+          </div>
+        )}
+        <Form.Group className="mb-3">
+          <Form.Label>Timesheet</Form.Label>
+          {editing ? (
+            <Form.Control value={draft.templateName ?? ""} disabled style={inputStyle} />
+          ) : (
+            <Form.Select value={target} onChange={e => setChosenTarget(e.target.value)} style={inputStyle}>
+              {covering.map(t => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+              <option value={NEW_TEMPLATE}>
+                New timesheet for the week of {isIsoDate(form.date) ? weekStart(form.date) : "…"}
+              </option>
+            </Form.Select>
+          )}
+        </Form.Group>
+        <div className="d-flex gap-2 mb-3">
+          <Form.Group style={{ flex: 2 }}>
+            <Form.Label>Date</Form.Label>
+            <Form.Control type="date" value={form.date} onChange={e => update({ date: e.target.value })} disabled={readOnly} style={inputStyle} />
+          </Form.Group>
+          <Form.Group style={{ flex: 1 }}>
+            <Form.Label>Start</Form.Label>
+            <Form.Control type="time" value={form.start} onChange={e => update({ start: e.target.value })} disabled={readOnly} style={inputStyle} />
+          </Form.Group>
+          <Form.Group style={{ flex: 1 }}>
+            <Form.Label>End</Form.Label>
+            <Form.Control type="time" value={form.end} onChange={e => update({ end: e.target.value })} disabled={readOnly} style={inputStyle} />
+          </Form.Group>
+          <Form.Group style={{ flex: 1 }}>
+            <Form.Label>Break</Form.Label>
+            <Form.Control
+              type="number"
+              min={0}
+              value={form.breakMinutes || ""}
+              placeholder="min"
+              onChange={e => update({ breakMinutes: Math.max(0, Number(e.target.value) || 0) })}
+              disabled={readOnly}
+              style={inputStyle}
+            />
+          </Form.Group>
+        </div>
+        <Form.Group className="mb-3">
+          <Form.Label>Project</Form.Label>
+          <ProjectPicker
+            value={form.project}
+            projectId={form.projectId}
+            projects={projects}
+            clients={clients}
+            onChange={(project, projectId) => update({ project, projectId })}
+            disabled={readOnly}
+            style={inputStyle}
+          />
+        </Form.Group>
+        <Form.Group className="mb-3">
+          <Form.Label>Task</Form.Label>
+          <Form.Control value={form.task} onChange={e => update({ task: e.target.value })} disabled={readOnly} style={inputStyle} autoFocus />
+        </Form.Group>
+        <Form.Group>
+          <Form.Label>Notes</Form.Label>
+          <Form.Control
+            as="textarea"
+            rows={2}
+            value={form.notes}
+            onChange={e => update({ notes: e.target.value })}
+            disabled={readOnly}
+            style={inputStyle}
+          />
+        </Form.Group>
+      </Modal.Body>
+      <Modal.Footer style={{ background: "#1a1a1a", borderColor: "#333" }}>
+        {editing && !readOnly && (
+          <Button
+            variant="outline-danger"
+            className="me-auto"
+            disabled={saving}
+            onClick={() => window.confirm("Delete this entry from the timesheet?") && onDelete(draft)}
+          >
+            Delete
+          </Button>
+        )}
+        <Button variant="secondary" onClick={onHide}>Cancel</Button>
+        {!readOnly && (
+          <Button style={{ background: "#FFD700", border: "none", color: "#000", fontWeight: 600 }} onClick={submit} disabled={saving}>
+            {saving ? <Spinner animation="border" size="sm" /> : "Save"}
+          </Button>
+        )}
+      </Modal.Footer>
+    </Modal>
+  );
+};
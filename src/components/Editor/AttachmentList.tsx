@@ -0,0 +1,95 @@
+// src/components/Editor/AttachmentList.tsx
+import React from "react";
+import { Badge, Button, ListGroup } from "react-bootstrap";
+import { attachmentLabel } from "../../utils/templateData";
+import type { AttachmentType, TemplateAttachment } from "../../utils/templateData";
+
+interface AttachmentListProps {
+  attachments: TemplateAttachment[];
+  primaryId?: string;
+  activeId?: string;
+  readOnly?: boolean;
+  onSelect: (id: string) => void;
+  onMakePrimary: (id: string) => void;
+  onMove: (id: string, offset: -1 | 1) => void;
+  onRemove: (id: string) => void;
+}
+
+const TYPE_VARIANTS: Record<AttachmentType, string> = {
+  pdf: "danger",
+  word: "primary",
+  excel: "success",
+};
+
+const smallBtn: React.CSSProperties = { padding: "0 6px", lineHeight: 1.4 };
+
+export const AttachmentList: React.FC<AttachmentListProps> = ({
+  attachments,
+  primaryId,
+  activeId,
+  readOnly = false,
+  onSelect,
+  onMakePrimary,
+  onMove,
+  onRemove,
+}) => {
+  if (attachments.length === 0) return null;
+
+  return (
+    <ListGroup className="mb-2">
+      {attachments.map((a, index) => {
+        const active = a.id === activeId;
+        return (
+          <ListGroup.Item
+            key={a.id}
+            action
+            onClick={() => onSelect(a.id)}
+            style={{
+              background: active ? "#222" : "#0b0b0b",
+              color: "#e0e0e0",
+              border: `1px solid ${active ? "#FFD700" : "#222"}`,
+              marginBottom: 4,
+              borderRadius: 6,
+            }}
+          >
+            <div className="d-flex align-items-center gap-2" style={{ fontSize: 13 }}>
+              <Badge bg={TYPE_VARIANTS[a.type]}>{a.type.toUpperCase()}</Badge>
+              <span style={{ wordBreak: "break-all" }}>{attachmentLabel(a)}</span>
+              {a.id === primaryId && <Badge bg="warning" text="dark">Primary</Badge>}
+              {a.type === "pdf" && a.annotations.length > 0 && (
+                <span style={{ color: "#888" }}>
+                  {a.annotations.length} annotation{a.annotations.length === 1 ? "" : "s"}
+                </span>
+              )}
+              {!readOnly && (
+                // Buttons act on the row without also selecting it
+                <div className="ms-auto d-flex gap-1" onClick={e => e.stopPropagation()}>
+                  {a.id !== primaryId && (
+                    <Button size="sm" variant="outline-warning" style={smallBtn} title="Open this one first" onClick={() => onMakePrimary(a.id)}>
+                      ★
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline-light" style={smallBtn} disabled={index === 0} onClick={() => onMove(a.id, -1)}>
+                    ↑
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline-light"
+                    style={smallBtn}
+                    disabled={index === attachments.length - 1}
+                    onClick={() => onMove(a.id, 1)}
+                  >
+                    ↓
+                  </Button>
+                  <Button size="sm" variant="outline-danger" style={smallBtn} onClick={() => onRemove(a.id)}>
+                    ✕
+                  </Button>
+                </div>
+              )}
+            </div>
+          </ListGroup.Item>
+        );
+      })}
+    </ListGroup>
+  );
+};
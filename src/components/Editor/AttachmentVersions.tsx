@@ -0,0 +1,43 @@
+// src/components/Editor/AttachmentVersions.tsx
+import React from "react";
+import { Button } from "react-bootstrap";
+import type { TemplateAttachment } from "../../utils/templateData";
+
+interface AttachmentVersionsProps {
+  attachment: TemplateAttachment;
+  readOnly?: boolean;
+  onRestore: (index: number) => void;
+}
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString() + " " + date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+};
+
+export const AttachmentVersions: React.FC<AttachmentVersionsProps> = ({ attachment, readOnly = false, onRestore }) => {
+  const versions = attachment.previousVersions ?? [];
+  if (versions.length === 0) return null;
+
+  return (
+    <div style={{ marginTop: 12, fontSize: 13 }}>
+      <div style={{ color: "#FFD700", fontWeight: 600, marginBottom: 4 }}>Earlier versions</div>
+      {/* Newest first */}
+      {versions
+        .map((v, index) => ({ ...v, index }))
+        .reverse()
+        .map(v => (
+          <div key={v.storagePath} className="d-flex align-items-center gap-2" style={{ color: "#bbb", marginBottom: 4 }}>
+            <span>Replaced {formatDate(v.replacedAt)}</span>
+            <a href={v.url} target="_blank" rel="noreferrer" style={{ color: "#FFD700" }}>
+              Open
+            </a>
+            {!readOnly && (
+              <Button size="sm" variant="outline-light" style={{ padding: "0 6px" }} onClick={() => onRestore(v.index)}>
+                Use this version
+              </Button>
+            )}
+          </div>
+        ))}
+    </div>
+  );
+};
@@ -1,59 +1,157 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import * as XLSX from "xlsx";
-import { saveAs } from "file-saver";
-import { DataGrid } from "react-data-grid";
+import { Alert, Button, Form, Spinner } from "react-bootstrap";
+import { DataGrid, textEditor } from "react-data-grid";
 import type { Column } from "react-data-grid"; // type-only import
+import "react-data-grid/lib/styles.css";
 
 interface RowData {
   [key: string]: string | number | undefined;
 }
 
-export const ExcelEditor: React.FC<{ url: string; onSave: (data: Uint8Array) => void }> = ({ url, onSave }) => {
+interface ExcelEditorProps {
+  url: string;
+  onSave: (data: Uint8Array) => void | Promise<void>;
+  readOnly?: boolean;
+}
+
+type Cellish = string | number | boolean | null | undefined;
+
+// The grid edits text, so numeric input goes back into the sheet as numbers
+const toCellValue = (value: RowData[string]) =>
+  typeof value === "string" && value.trim() !== "" && !Number.isNaN(Number(value)) ? Number(value) : (value ?? "");
+
+// First row is the header; columns run as wide as the longest row
+const sheetToGrid = (sheet: XLSX.WorkSheet, readOnly: boolean) => {
+  const aoa = XLSX.utils.sheet_to_json<Cellish[]>(sheet, { header: 1, defval: "" });
+  const width = Math.max(1, ...aoa.map(row => row.length));
+  const header = aoa[0] ?? [];
+  const columns: Column<RowData>[] = Array.from({ length: width }, (_, i) => ({
+    key: `col${i}`,
+    name: String(header[i] ?? "") || XLSX.utils.encode_col(i),
+    renderEditCell: readOnly ? undefined : textEditor,
+    resizable: true,
+  }));
+  const rows: RowData[] = aoa
+    .slice(1)
+    .map(row => Object.fromEntries(columns.map((c, i) => [c.key, typeof row[i] === "boolean" ? String(row[i]) : (row[i] ?? "")])));
+  return { columns, rows };
+};
+
+const gridToSheet = (columns: Column<RowData>[], rows: RowData[]) =>
+  XLSX.utils.aoa_to_sheet([columns.map(c => String(c.name)), ...rows.map(r => columns.map(c => toCellValue(r[c.key])))]);
+
+export const ExcelEditor: React.FC<ExcelEditorProps> = ({ url, onSave, readOnly = false }) => {
+  const [workbook, setWorkbook] = useState<XLSX.WorkBook | null>(null);
+  const [sheetName, setSheetName] = useState("");
   const [rows, setRows] = useState<RowData[]>([]);
   const [columns, setColumns] = useState<Column<RowData>[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // `dirty`: the sheet in the grid was edited; `changed`: an earlier sheet was, and is already in `workbook`
+  const [dirty, setDirty] = useState(false);
+  const [changed, setChanged] = useState(false);
+  const [saving, setSaving] = useState(false);
 
-  const loadExcel = async () => {
-    const data = await fetch(url).then((res) => res.arrayBuffer());
-    const workbook = XLSX.read(data, { type: "array" });
-    const sheetName = workbook.SheetNames[0];
-    const sheet = workbook.Sheets[sheetName];
-    const json = XLSX.utils.sheet_to_json(sheet, { header: 1 }) as (string | number)[][];
-
-    setColumns(
-      json[0].map((col, i) => ({
-        key: `col${i}`,
-        name: String(col),
-        editable: true,
-      }))
-    );
-
-    setRows(
-      json.slice(1).map((row) =>
-        Object.fromEntries(row.map((val, i) => [`col${i}`, val]))
-      )
-    );
+  useEffect(() => {
+    let cancelled = false;
+    fetch(url)
+      .then(res => {
+        if (!res.ok) throw new Error(`Failed to fetch spreadsheet: ${res.status}`);
+        return res.arrayBuffer();
+      })
+      .then(data => {
+        if (cancelled) return;
+        const wb = XLSX.read(data, { type: "array" });
+        const first = wb.SheetNames[0];
+        const grid = sheetToGrid(wb.Sheets[first], readOnly);
+        setWorkbook(wb);
+        setSheetName(first);
+        setColumns(grid.columns);
+        setRows(grid.rows);
+      })
+      .catch(err => {
+        console.error(err);
+        if (!cancelled) setError(err instanceof Error ? err.message : "Unknown error");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [url, readOnly]);
+
+  // Edits live in the grid until the sheet is switched or saved; other sheets are kept as loaded
+  const withCurrentSheet = (wb: XLSX.WorkBook): XLSX.WorkBook =>
+    dirty ? { ...wb, Sheets: { ...wb.Sheets, [sheetName]: gridToSheet(columns, rows) } } : wb;
+
+  const switchSheet = (name: string) => {
+    if (!workbook) return;
+    const wb = withCurrentSheet(workbook);
+    const grid = sheetToGrid(wb.Sheets[name], readOnly);
+    setWorkbook(wb);
+    setChanged(c => c || dirty);
+    setDirty(false);
+    setSheetName(name);
+    setColumns(grid.columns);
+    setRows(grid.rows);
+  };
+
+  const addRow = () => {
+    setRows(prev => [...prev, Object.fromEntries(columns.map(c => [c.key, ""]))]);
+    setDirty(true);
   };
 
-  const saveExcel = () => {
-    const ws = XLSX.utils.json_to_sheet(
-      rows.map((r) => columns.map((c) => r[c.key] ?? ""))
-    );
-    const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, ws, "Sheet1");
-    const wbout = XLSX.write(wb, { bookType: "xlsx", type: "array" });
-    onSave(new Uint8Array(wbout));
-    const blob = new Blob([wbout], { type: "application/octet-stream" });
-    saveAs(blob, "edited.xlsx");
+  const saveExcel = async () => {
+    if (!workbook) return;
+    setSaving(true);
+    try {
+      const wb = withCurrentSheet(workbook);
+      const wbout = XLSX.write(wb, { bookType: "xlsx", type: "array" });
+      await onSave(new Uint8Array(wbout));
+      setWorkbook(wb);
+      setDirty(false);
+      setChanged(false);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to save spreadsheet: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setSaving(false);
+    }
   };
 
+  if (error) return <Alert variant="danger">Could not open the spreadsheet: {error}</Alert>;
+  if (!workbook) return <div className="text-center p-4"><Spinner animation="border" variant="warning" /></div>;
+
   return (
     <div>
-      <button onClick={loadExcel}>Load Excel</button>
-      {rows.length > 0 && (
-        <>
-          <DataGrid columns={columns} rows={rows} onRowsChange={setRows} />
-          <button onClick={saveExcel}>Save Excel</button>
-        </>
+      {workbook.SheetNames.length > 1 && (
+        <Form.Select
+          size="sm"
+          value={sheetName}
+          onChange={e => switchSheet(e.target.value)}
+          style={{ maxWidth: 240, marginBottom: 8, background: "#0b0b0b", color: "#fff", border: "1px solid #333" }}
+        >
+          {workbook.SheetNames.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </Form.Select>
+      )}
+      <DataGrid
+        className="rdg-dark"
+        columns={columns}
+        rows={rows}
+        onRowsChange={next => {
+          setRows(next);
+          setDirty(true);
+        }}
+        style={{ height: 360 }}
+      />
+      {!readOnly && (
+        <div className="d-flex align-items-center gap-2 mt-2">
+          <Button size="sm" variant="outline-light" onClick={addRow}>+ Row</Button>
+          <Button size="sm" variant="warning" onClick={saveExcel} disabled={!(dirty || changed) || saving}>
+            {saving ? <Spinner animation="border" size="sm" /> : "Save Spreadsheet"}
+          </Button>
+          <span style={{ fontSize: 12, color: "#888" }}>Edited sheets are saved as values; their formulas and styling are not kept</span>
+        </div>
       )}
     </div>
   );
@@ -0,0 +1,123 @@
+// src/components/Editor/ExportModal.tsx
+import React, { useState } from "react";
+import { Button, ButtonGroup, Col, Form, Modal, Row, Spinner, ToggleButton } from "react-bootstrap";
+import { saveAs } from "file-saver";
+import { DEFAULT_PDF_EXPORT, exportToPdf } from "../../utils/exportPdf";
+import { buildTimesheetCsv, exportToXlsx } from "../../utils/exportSpreadsheet";
+import { exportToDocx } from "../../utils/exportDocx";
+import type { PdfOrientation, PdfPageFormat } from "../../utils/exportPdf";
+import type { TemplateData } from "../../utils/templateData";
+
+interface ExportModalProps {
+  show: boolean;
+  onHide: () => void;
+  template: TemplateData;
+  name: string;
+}
+
+type ExportFormat = "pdf" | "xlsx" | "csv" | "docx";
+
+const FORMATS: { value: ExportFormat; label: string; hint: string }[] = [
+  { value: "pdf", label: "PDF", hint: "Printable report with totals and signature lines" },
+  { value: "xlsx", label: "XLSX", hint: "One sheet per week with live totals, plus a summary sheet" },
+  { value: "csv", label: "CSV", hint: "Flat rows for payroll import" },
+  { value: "docx", label: "DOCX", hint: "Word report with the header image and entry table" },
+];
+
+const inputStyle: React.CSSProperties = { background: "#0b0b0b", color: "#fff", border: "1px solid #333" };
+
+export const ExportModal: React.FC<ExportModalProps> = ({ show, onHide, template, name }) => {
+  const [format, setFormat] = useState<ExportFormat>("pdf");
+  const [pageFormat, setPageFormat] = useState<PdfPageFormat>(DEFAULT_PDF_EXPORT.format);
+  const [orientation, setOrientation] = useState<PdfOrientation>(DEFAULT_PDF_EXPORT.orientation);
+  const [signatures, setSignatures] = useState(DEFAULT_PDF_EXPORT.signatures);
+  const [exporting, setExporting] = useState(false);
+
+  const baseName = name.replace(/\s+/g, "_") || "time-tracker";
+
+  const runExport = async () => {
+    setExporting(true);
+    try {
+      if (format === "pdf") {
+        await exportToPdf(template, name, { format: pageFormat, orientation, signatures }, `${baseName}.pdf`);
+      } else if (format === "xlsx") {
+        exportToXlsx(template, name, `${baseName}.xlsx`);
+      } else if (format === "csv") {
+        saveAs(new Blob([buildTimesheetCsv(template)], { type: "text/csv;charset=utf-8" }), `${baseName}.csv`);
+      } else {
+        saveAs(await exportToDocx(template, name), `${baseName}.docx`);
+      }
+      onHide();
+    } catch (err) {
+      console.error(err);
+      alert(`Export failed: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Modal show={show} onHide={onHide} centered>
+      <Modal.Header closeButton style={{ background: "#1a1a1a", borderColor: "#333", color: "#fff" }}>
+        <Modal.Title>Export Report</Modal.Title>
+      </Modal.Header>
+      <Modal.Body style={{ background: "#0f0f10", color: "#fff" }}>
+        <ButtonGroup className="mb-2 w-100">
+          {FORMATS.map(f => (
+            <ToggleButton
+              key={f.value}
+              id={`export-format-${f.value}`}
+              type="radio"
+              variant={format === f.value ? "warning" : "outline-secondary"}
+              name="export-format"
+              value={f.value}
+              checked={format === f.value}
+              onChange={() => setFormat(f.value)}
+            >
+              {f.label}
+            </ToggleButton>
+          ))}
+        </ButtonGroup>
+        <div style={{ color: "#aaa", fontSize: 13, marginBottom: 16 }}>{FORMATS.find(f => f.value === format)?.hint}</div>
+        {format === "pdf" && (
+          <>
+            <Row>
+              <Col xs={12} md={6}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Page Size</Form.Label>
+                  <Form.Select value={pageFormat} onChange={e => setPageFormat(e.target.value as PdfPageFormat)} style={inputStyle}>
+                    <option value="a4">A4</option>
+                    <option value="letter">Letter</option>
+                    <option value="legal">Legal</option>
+                  </Form.Select>
+                </Form.Group>
+              </Col>
+              <Col xs={12} md={6}>
+                <Form.Group className="mb-3">
+                  <Form.Label>Orientation</Form.Label>
+                  <Form.Select value={orientation} onChange={e => setOrientation(e.target.value as PdfOrientation)} style={inputStyle}>
+                    <option value="portrait">Portrait</option>
+                    <option value="landscape">Landscape</option>
+                  </Form.Select>
+                </Form.Group>
+              </Col>
+            </Row>
+            <Form.Check
+              type="switch"
+              id="export-signatures"
+              label="Include signature lines"
+              checked={signatures}
+              onChange={e => setSignatures(e.target.checked)}
+            />
+          </>
+        )}
+      </Modal.Body>
+      <Modal.Footer style={{ background: "#1a1a1a", borderColor: "#333" }}>
+        <Button variant="secondary" onClick={onHide}>Cancel</Button>
+        <Button style={{ background: "#FFD700", border: "none", color: "#000", fontWeight: 600 }} onClick={runExport} disabled={exporting}>
+          {exporting ? <Spinner animation="border" size="sm" /> : "Export"}
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
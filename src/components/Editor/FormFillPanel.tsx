@@ -0,0 +1,153 @@
+// src/components/Editor/FormFillPanel.tsx
+import React, { useEffect, useState } from "react";
+import { Button, Card, Form, Spinner, Table } from "react-bootstrap";
+import { fetchBytes } from "../../utils/flattenPdf";
+import {
+  FORM_FIELD_SOURCES,
+  fillFormFields,
+  listFormFields,
+  resolveFieldSource,
+  resolveMappedValues,
+  suggestMapping,
+} from "../../utils/pdfForms";
+import type { FormFieldInfo, FormFieldMapping } from "../../utils/pdfForms";
+import type { TemplateData } from "../../utils/templateData";
+
+interface FormFillPanelProps {
+  url: string;
+  // The attachment's saved mapping; set (even to {}) once the user has edited or used it
+  mapping?: FormFieldMapping;
+  template: TemplateData;
+  templateName: string;
+  onMappingChange: (mapping: FormFieldMapping) => void;
+  onFilled: (bytes: Uint8Array, flattened: boolean) => Promise<void>;
+  disabled?: boolean;
+}
+
+const selectStyle: React.CSSProperties = {
+  background: "#0b0b0b",
+  color: "#fff",
+  border: "1px solid #333",
+  fontSize: 13,
+};
+
+export const FormFillPanel: React.FC<FormFillPanelProps> = ({ url, mapping: savedMapping, template, templateName, onMappingChange, onFilled, disabled = false }) => {
+  const [fields, setFields] = useState<FormFieldInfo[]>([]);
+  const [detecting, setDetecting] = useState(false);
+  const [filling, setFilling] = useState(false);
+  const [flatten, setFlatten] = useState(false);
+  const hasSavedMapping = savedMapping !== undefined;
+  // Fresh forms start from name-based guesses; they are persisted once edited or used, so clearing
+  // every field afterwards does not bring the guesses back
+  const mapping = savedMapping ?? suggestMapping(fields);
+
+  useEffect(() => {
+    let cancelled = false;
+    const run = async () => {
+      setDetecting(true);
+      try {
+        const detected = await listFormFields(await fetchBytes(url));
+        if (!cancelled) setFields(detected);
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) setFields([]);
+      } finally {
+        if (!cancelled) setDetecting(false);
+      }
+    };
+    run();
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  const setFieldSource = (name: string, source: string) => {
+    const next = { ...mapping };
+    if (source) next[name] = source;
+    else delete next[name];
+    onMappingChange(next);
+  };
+
+  const fill = async () => {
+    setFilling(true);
+    try {
+      if (!hasSavedMapping) onMappingChange(mapping);
+      const values = resolveMappedValues(mapping, template, templateName);
+      const filled = await fillFormFields(await fetchBytes(url), values, flatten);
+      await onFilled(filled, flatten);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to fill form: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setFilling(false);
+    }
+  };
+
+  if (detecting) {
+    return <div style={{ color: "#aaa", fontSize: 13 }}><Spinner animation="border" size="sm" /> Detecting form fields…</div>;
+  }
+  if (fields.length === 0) return null;
+
+  return (
+    <Card className="mb-3" style={{ background: "#171717", border: "1px solid #222", borderRadius: 8, color: "#fff" }}>
+      <Card.Body style={{ padding: "12px" }}>
+        <h5 style={{ color: "#FFD700", fontWeight: 600, marginBottom: 4 }}>📝 Form Fields ({fields.length})</h5>
+        <p style={{ color: "#aaa", fontSize: 13 }}>
+          Map each field to a template value. The mapping is saved with the template and reused for every period.
+        </p>
+        <div style={{ overflowX: "auto", maxHeight: 320, overflowY: "auto" }}>
+          <Table variant="dark" size="sm" bordered style={{ fontSize: 13, marginBottom: 8 }}>
+            <thead>
+              <tr>
+                <th>Field</th>
+                <th style={{ width: 80 }}>Type</th>
+                <th style={{ width: 220 }}>Fill with</th>
+                <th>Value</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields.map(f => (
+                <tr key={f.name}>
+                  <td style={{ wordBreak: "break-all" }}>{f.name}</td>
+                  <td style={{ color: "#888" }}>{f.type}</td>
+                  <td>
+                    <Form.Select
+                      size="sm"
+                      value={mapping[f.name] ?? ""}
+                      disabled={disabled || f.type === "other"}
+                      onChange={e => setFieldSource(f.name, e.target.value)}
+                      style={selectStyle}
+                    >
+                      <option value="">— Leave empty —</option>
+                      {FORM_FIELD_SOURCES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                    </Form.Select>
+                  </td>
+                  <td style={{ color: "#ddd" }}>
+                    {mapping[f.name] ? resolveFieldSource(mapping[f.name], template, templateName) : ""}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        </div>
+        <div className="d-flex align-items-center gap-3 flex-wrap">
+          <Form.Check
+            type="switch"
+            id="flatten-form"
+            label="Flatten (make fields read-only)"
+            checked={flatten}
+            onChange={e => setFlatten(e.target.checked)}
+          />
+          <Button
+            size="sm"
+            onClick={fill}
+            disabled={disabled || filling || Object.keys(mapping).length === 0}
+            style={{ background: "#FFD700", border: "none", color: "#000", fontWeight: 600 }}
+          >
+            {filling ? <Spinner animation="border" size="sm" /> : "🖊️ Fill Form"}
+          </Button>
+        </div>
+      </Card.Body>
+    </Card>
+  );
+};
@@ -0,0 +1,183 @@
+// src/components/Editor/HoursBreakdown.tsx
+import React, { useMemo, useState } from "react";
+import { Button, Card, Col, Form, Row, Table } from "react-bootstrap";
+import { ROUNDING_OPTIONS, computeHours, hasActiveRules, normalizeHoursRules } from "../../utils/hoursRules";
+import type { HoursRules, RoundingMode } from "../../utils/hoursRules";
+import { formatHours } from "../../utils/timeEntries";
+import type { Cell } from "../../utils/timeEntries";
+
+interface HoursBreakdownProps {
+  rows: Cell[][];
+  rules?: HoursRules;
+  onRulesChange: (rules: HoursRules) => void;
+  readOnly?: boolean;
+}
+
+const inputStyle: React.CSSProperties = { background: "#0b0b0b", color: "#fff", border: "1px solid #333", fontSize: 13 };
+
+const labelStyle: React.CSSProperties = { fontSize: 12, color: "#bbb", marginBottom: 2 };
+
+// Blank input = rule off
+const parseOptionalHours = (value: string) => {
+  const n = Number(value);
+  return value.trim() === "" || !Number.isFinite(n) || n <= 0 ? null : n;
+};
+
+export const HoursBreakdown: React.FC<HoursBreakdownProps> = ({ rows, rules: storedRules, onRulesChange, readOnly }) => {
+  const rules = normalizeHoursRules(storedRules);
+  const [showRules, setShowRules] = useState(false);
+  const breakdown = useMemo(() => computeHours(rows, storedRules), [rows, storedRules]);
+  const { totals } = breakdown;
+
+  const update = (patch: Partial<HoursRules>) => onRulesChange({ ...rules, ...patch });
+
+  const summary: [string, number, string?][] = [
+    ["Worked", totals.worked],
+    ["Rounding", totals.rounding],
+    ["Unpaid break", -totals.breakDeducted],
+    ["Regular", totals.regular],
+    ["Overtime", totals.overtime, totals.overtime > 0 ? "#ff9800" : undefined],
+    ["Paid total", totals.paid, "#FFD700"],
+  ];
+
+  return (
+    <Card className="mb-3" style={{ background: "#171717", border: "1px solid #222", borderRadius: 8, color: "#fff" }}>
+      <Card.Body style={{ padding: "12px" }}>
+        <div className="d-flex justify-content-between align-items-center" style={{ marginBottom: 12 }}>
+          <h5 style={{ color: "#FFD700", fontWeight: 600, margin: 0 }}>🧮 Hours Breakdown</h5>
+          <Button size="sm" variant="outline-light" onClick={() => setShowRules(s => !s)}>
+            ⚙️ {showRules ? "Hide rules" : "Rules"}
+          </Button>
+        </div>
+
+        {showRules && (
+          <Row className="g-2 mb-3">
+            <Col xs={6} md={2}>
+              <Form.Label style={labelStyle}>Round to</Form.Label>
+              <Form.Select
+                size="sm"
+                value={rules.roundingMinutes}
+                disabled={readOnly}
+                onChange={e => update({ roundingMinutes: Number(e.target.value) })}
+                style={inputStyle}
+              >
+                {ROUNDING_OPTIONS.map(m => (
+                  <option key={m} value={m}>{m === 0 ? "No rounding" : `${m} min`}</option>
+                ))}
+              </Form.Select>
+            </Col>
+            <Col xs={6} md={2}>
+              <Form.Label style={labelStyle}>Rounding</Form.Label>
+              <Form.Select
+                size="sm"
+                value={rules.roundingMode}
+                disabled={readOnly || rules.roundingMinutes === 0}
+                onChange={e => update({ roundingMode: e.target.value as RoundingMode })}
+                style={inputStyle}
+              >
+                <option value="nearest">Nearest</option>
+                <option value="up">Up</option>
+                <option value="down">Down</option>
+              </Form.Select>
+            </Col>
+            <Col xs={6} md={2}>
+              <Form.Label style={labelStyle}>Unpaid break after (h)</Form.Label>
+              <Form.Control
+                size="sm"
+                type="number"
+                min={0}
+                step={0.5}
+                value={rules.breakAfterHours ?? ""}
+                placeholder="Off"
+                disabled={readOnly}
+                onChange={e => update({ breakAfterHours: parseOptionalHours(e.target.value) })}
+                style={inputStyle}
+              />
+            </Col>
+            <Col xs={6} md={2}>
+              <Form.Label style={labelStyle}>Break length (min)</Form.Label>
+              <Form.Control
+                size="sm"
+                type="number"
+                min={0}
+                step={5}
+                value={rules.breakMinutes}
+                disabled={readOnly || rules.breakAfterHours === null}
+                onChange={e => update({ breakMinutes: Math.max(0, Number(e.target.value) || 0) })}
+                style={inputStyle}
+              />
+            </Col>
+            <Col xs={6} md={2}>
+              <Form.Label style={labelStyle}>Overtime after (h/day)</Form.Label>
+              <Form.Control
+                size="sm"
+                type="number"
+                min={0}
+                step={0.5}
+                value={rules.dailyOvertimeHours ?? ""}
+                placeholder="Off"
+                disabled={readOnly}
+                onChange={e => update({ dailyOvertimeHours: parseOptionalHours(e.target.value) })}
+                style={inputStyle}
+              />
+            </Col>
+            <Col xs={6} md={2}>
+              <Form.Label style={labelStyle}>Overtime after (h/week)</Form.Label>
+              <Form.Control
+                size="sm"
+                type="number"
+                min={0}
+                step={1}
+                value={rules.weeklyOvertimeHours ?? ""}
+                placeholder="Off"
+                disabled={readOnly}
+                onChange={e => update({ weeklyOvertimeHours: parseOptionalHours(e.target.value) })}
+                style={inputStyle}
+              />
+            </Col>
+          </Row>
+        )}
+
+        <div className="d-flex flex-wrap gap-4 mb-2">
+          {summary.map(([label, minutes, color]) => (
+            <div key={label}>
+              <div style={{ fontSize: 12, color: "#888" }}>{label}</div>
+              <div style={{ fontSize: 18, fontWeight: 700, color: color ?? "#fff" }}>{formatHours(minutes)}</div>
+            </div>
+          ))}
+        </div>
+
+        {!hasActiveRules(rules) && (
+          <div style={{ fontSize: 12, color: "#888" }}>No rules set — all worked time counts as regular.</div>
+        )}
+
+        {breakdown.weeks.length > 0 && hasActiveRules(rules) && (
+          <Table size="sm" variant="dark" bordered className="mt-2 mb-0" style={{ fontSize: 13 }}>
+            <thead>
+              <tr>
+                <th>Week of</th>
+                <th>Worked</th>
+                <th>Unpaid break</th>
+                <th>Regular</th>
+                <th>Overtime</th>
+                <th>Paid</th>
+              </tr>
+            </thead>
+            <tbody>
+              {breakdown.weeks.map(w => (
+                <tr key={w.week}>
+                  <td>{w.week}</td>
+                  <td>{formatHours(w.worked)}</td>
+                  <td>{formatHours(w.breakDeducted)}</td>
+                  <td>{formatHours(w.regular)}</td>
+                  <td style={{ color: w.overtime > 0 ? "#ff9800" : undefined }}>{formatHours(w.overtime)}</td>
+                  <td>{formatHours(w.paid)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+        )}
+      </Card.Body>
+    </Card>
+  );
+};
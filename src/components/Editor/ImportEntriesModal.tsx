@@ -0,0 +1,207 @@
+// src/components/Editor/ImportEntriesModal.tsx
+import React, { useState } from "react";
+import { Badge, Button, Col, Form, Modal, Row, Table } from "react-bootstrap";
+import { parseCsv } from "../../utils/csv";
+import {
+  CSV_SOURCE_LABELS,
+  IMPORT_FIELDS,
+  classifyEntries,
+  csvToEntries,
+  detectCsvSource,
+  icsToEntries,
+  suggestCsvMapping,
+} from "../../utils/importEntries";
+import type { CsvColumnMapping, CsvSource, ImportField, ImportStatus, ImportedEntry } from "../../utils/importEntries";
+import { formatPeriod, parsePeriod } from "../../utils/periods";
+import type { TemplateData } from "../../utils/templateData";
+
+interface ImportEntriesModalProps {
+  show: boolean;
+  onHide: () => void;
+  template: TemplateData;
+  onImport: (entries: ImportedEntry[]) => void;
+}
+
+type LoadedFile =
+  | { kind: "csv"; name: string; headers: string[]; rows: string[][]; source: CsvSource }
+  | { kind: "ics"; name: string; entries: ImportedEntry[]; skipped: number };
+
+const STATUS_BADGES: Record<ImportStatus, { label: string; bg: string }> = {
+  new: { label: "New", bg: "success" },
+  duplicate: { label: "Duplicate", bg: "secondary" },
+  outside: { label: "Outside period", bg: "warning" },
+};
+
+const PREVIEW_LIMIT = 50;
+
+const inputStyle: React.CSSProperties = { background: "#0b0b0b", color: "#fff", border: "1px solid #333" };
+
+export const ImportEntriesModal: React.FC<ImportEntriesModalProps> = ({ show, onHide, template, onImport }) => {
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [limitToPeriod, setLimitToPeriod] = useState(true);
+
+  // Only an explicit period limits the import; the span of existing rows would reject new days
+  const period = parsePeriod(template.meta?.period);
+
+  const readFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    try {
+      const text = await selected.text();
+      if (selected.name.toLowerCase().endsWith(".ics") || text.trimStart().startsWith("BEGIN:VCALENDAR")) {
+        const { entries, skipped } = icsToEntries(text);
+        setFile({ kind: "ics", name: selected.name, entries, skipped });
+        return;
+      }
+      const [headers, ...rows] = parseCsv(text);
+      if (!headers) throw new Error("The file is empty");
+      setFile({ kind: "csv", name: selected.name, headers, rows, source: detectCsvSource(headers) });
+      setMapping(suggestCsvMapping(headers));
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to read file: ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+  };
+
+  const updateMapping = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === "") delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const parsed = file?.kind === "csv" ? csvToEntries(file.rows, mapping) : null;
+  const entries = file?.kind === "csv" ? (parsed?.entries ?? []) : (file?.entries ?? []);
+  const classified = classifyEntries(entries, template.rows, limitToPeriod ? period : null);
+  const toImport = classified.filter(c => c.status === "new").map(c => c.entry);
+
+  const close = () => {
+    setFile(null);
+    setMapping({});
+    onHide();
+  };
+
+  return (
+    <Modal show={show} onHide={close} centered size="xl">
+      <Modal.Header closeButton style={{ background: "#1a1a1a", borderColor: "#333", color: "#fff" }}>
+        <Modal.Title>Import Time Entries</Modal.Title>
+      </Modal.Header>
+      <Modal.Body style={{ background: "#0f0f10", color: "#fff" }}>
+        <Form.Group className="mb-3">
+          <Form.Label>CSV, Toggl / Clockify detailed export, or calendar (.ics)</Form.Label>
+          <Form.Control
+            type="file"
+            accept=".csv,.txt,.ics,text/csv,text/calendar"
+            onChange={e => readFile((e.target as HTMLInputElement).files?.[0])}
+            style={inputStyle}
+          />
+        </Form.Group>
+
+        {file && (
+          <div style={{ color: "#aaa", fontSize: 13, marginBottom: 12 }}>
+            {file.name} — {file.kind === "csv" ? CSV_SOURCE_LABELS[file.source] : "Calendar"}
+            {file.kind === "ics" && file.skipped > 0 && ` (${file.skipped} all-day or unreadable events skipped)`}
+          </div>
+        )}
+
+        {file?.kind === "csv" && (
+          <>
+            <h6 style={{ color: "#FFD700" }}>Column Mapping</h6>
+            <Row className="g-2 mb-3">
+              {IMPORT_FIELDS.map(field => (
+                <Col xs={6} md={3} key={field.key}>
+                  <Form.Label style={{ fontSize: 12, color: "#bbb", marginBottom: 2 }}>{field.label}</Form.Label>
+                  <Form.Select
+                    size="sm"
+                    value={mapping[field.key] ?? ""}
+                    onChange={e => updateMapping(field.key, e.target.value)}
+                    style={inputStyle}
+                  >
+                    <option value="">— not mapped —</option>
+                    {file.headers.map((h, i) => (
+                      <option key={i} value={i}>{h || `Column ${i + 1}`}</option>
+                    ))}
+                  </Form.Select>
+                </Col>
+              ))}
+            </Row>
+            <div style={{ color: "#888", fontSize: 12, marginBottom: 12 }}>
+              End time is calculated from Start + Duration when no End column is mapped.
+            </div>
+          </>
+        )}
+
+        {file && (
+          <>
+            <Form.Check
+              type="switch"
+              id="import-limit-period"
+              className="mb-2"
+              label={period ? `Only import entries within ${formatPeriod(period)}` : "No period set — all dates are imported"}
+              checked={limitToPeriod && !!period}
+              disabled={!period}
+              onChange={e => setLimitToPeriod(e.target.checked)}
+            />
+            <div style={{ fontSize: 13, marginBottom: 8 }}>
+              {toImport.length} new · {classified.filter(c => c.status === "duplicate").length} duplicate ·{" "}
+              {classified.filter(c => c.status === "outside").length} outside period
+              {parsed && parsed.errors.length > 0 && ` · ${parsed.errors.length} unreadable`}
+            </div>
+            <div style={{ maxHeight: 320, overflow: "auto" }}>
+              <Table size="sm" variant="dark" bordered style={{ fontSize: 13 }}>
+                <thead>
+                  <tr>
+                    <th>Status</th>
+                    <th>Date</th>
+                    <th>Start</th>
+                    <th>End</th>
+                    <th>Project</th>
+                    <th>Task</th>
+                    <th>Notes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {classified.slice(0, PREVIEW_LIMIT).map(({ entry, status }, i) => (
+                    <tr key={i} style={{ opacity: status === "new" ? 1 : 0.6 }}>
+                      <td><Badge bg={STATUS_BADGES[status].bg}>{STATUS_BADGES[status].label}</Badge></td>
+                      <td>{entry.date}</td>
+                      <td>{entry.start}</td>
+                      <td>{entry.end}</td>
+                      <td>{entry.project}</td>
+                      <td>{entry.task}</td>
+                      <td>{entry.notes}</td>
+                    </tr>
+                  ))}
+                  {parsed?.errors.slice(0, PREVIEW_LIMIT).map(err => (
+                    <tr key={`err-${err.line}`}>
+                      <td><Badge bg="danger">Line {err.line}</Badge></td>
+                      <td colSpan={6} style={{ color: "#ff8080" }}>{err.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </Table>
+            </div>
+            {classified.length > PREVIEW_LIMIT && (
+              <div style={{ color: "#888", fontSize: 12 }}>Showing the first {PREVIEW_LIMIT} of {classified.length} entries</div>
+            )}
+          </>
+        )}
+      </Modal.Body>
+      <Modal.Footer style={{ background: "#1a1a1a", borderColor: "#333" }}>
+        <Button variant="secondary" onClick={close}>Cancel</Button>
+        <Button
+          style={{ background: "#FFD700", border: "none", color: "#000", fontWeight: 600 }}
+          disabled={toImport.length === 0}
+          onClick={() => {
+            onImport(toImport);
+            close();
+          }}
+        >
+          Import {toImport.length} {toImport.length === 1 ? "entry" : "entries"}
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
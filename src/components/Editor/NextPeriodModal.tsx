@@ -0,0 +1,127 @@
+// src/components/Editor/NextPeriodModal.tsx
+import React, { useEffect, useState } from "react";
+import { Button, Form, Modal, Spinner } from "react-bootstrap";
+import { useAuth } from "../../contexts/AuthContext";
+import { createNextPeriodTemplate } from "../../api/templates";
+import { loadLeaveDays } from "../../api/leave";
+import type { LeaveDay } from "../../utils/leave";
+import { isIsoDate } from "../../utils/dates";
+import { DEFAULT_ROLL_FORWARD, formatPeriod, nextPeriod, templatePeriod, workingDays } from "../../utils/periods";
+import type { TemplateData } from "../../utils/templateData";
+
+interface NextPeriodModalProps {
+  show: boolean;
+  onHide: () => void;
+  template: TemplateData;
+  name: string;
+  onGenerated: (templateId: string) => void;
+}
+
+const inputStyle: React.CSSProperties = { background: "#0b0b0b", color: "#fff", border: "1px solid #333" };
+
+export const NextPeriodModal: React.FC<NextPeriodModalProps> = ({ show, onHide, template, name, onGenerated }) => {
+  const { user } = useAuth();
+  const initial = template.rollForward ?? DEFAULT_ROLL_FORWARD;
+  const [skipWeekends, setSkipWeekends] = useState(initial.skipWeekends);
+  const [holidayText, setHolidayText] = useState(initial.holidays.join("\n"));
+  const [saving, setSaving] = useState(false);
+  const [includeLeave, setIncludeLeave] = useState(true);
+  const [leaveDays, setLeaveDays] = useState<LeaveDay[]>([]);
+
+  const holidays = holidayText.split(/[\s,]+/).filter(isIsoDate);
+  const current = templatePeriod(template);
+  const next = current ? nextPeriod(current) : null;
+  const dayCount = next ? workingDays(next, { skipWeekends, holidays }).length : 0;
+  const nextStart = next?.start;
+  const nextEnd = next?.end;
+
+  // Approved leave and imported public holidays become leave rows in the new period
+  useEffect(() => {
+    if (!show || !user || !nextStart || !nextEnd) return;
+    let cancelled = false;
+    loadLeaveDays(user.id, { start: nextStart, end: nextEnd })
+      .then(days => {
+        if (!cancelled) setLeaveDays(days);
+      })
+      .catch(err => console.error(err));
+    return () => {
+      cancelled = true;
+    };
+  }, [show, user, nextStart, nextEnd]);
+
+  const generate = async () => {
+    if (!user) return alert("Sign in first");
+    setSaving(true);
+    try {
+      const id = await createNextPeriodTemplate(user.id, name, template, { skipWeekends, holidays }, includeLeave ? leaveDays : []);
+      onGenerated(id);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to generate next period: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal show={show} onHide={onHide} centered>
+      <Modal.Header closeButton style={{ background: "#1a1a1a", borderColor: "#333", color: "#fff" }}>
+        <Modal.Title>Generate Next Period</Modal.Title>
+      </Modal.Header>
+      <Modal.Body style={{ background: "#0f0f10", color: "#fff" }}>
+        {current && next ? (
+          <div style={{ marginBottom: 16, fontSize: 14 }}>
+            <div style={{ color: "#aaa" }}>Current: {formatPeriod(current)}</div>
+            <div>
+              Next: <strong style={{ color: "#FFD700" }}>{formatPeriod(next)}</strong> • {dayCount} working day{dayCount === 1 ? "" : "s"}
+            </div>
+          </div>
+        ) : (
+          <div style={{ color: "#dc3545", marginBottom: 16, fontSize: 14 }}>
+            This template has no period. Set one like "2026-01-05 - 2026-01-18" or add dated rows first.
+          </div>
+        )}
+        <Form.Check
+          type="switch"
+          id="skip-weekends"
+          label="Skip weekends"
+          checked={skipWeekends}
+          onChange={e => setSkipWeekends(e.target.checked)}
+          className="mb-3"
+        />
+        <Form.Check
+          type="switch"
+          id="include-leave"
+          label={`Add leave rows for approved leave and public holidays (${leaveDays.length} day${leaveDays.length === 1 ? "" : "s"})`}
+          checked={includeLeave}
+          onChange={e => setIncludeLeave(e.target.checked)}
+          disabled={leaveDays.length === 0}
+          className="mb-3"
+        />
+        <Form.Group>
+          <Form.Label>Holidays to skip (one YYYY-MM-DD per line)</Form.Label>
+          <Form.Control
+            as="textarea"
+            rows={4}
+            value={holidayText}
+            onChange={e => setHolidayText(e.target.value)}
+            style={inputStyle}
+          />
+        </Form.Group>
+        <div style={{ color: "#888", fontSize: 12, marginTop: 12 }}>
+          Hours, notes and placed signatures are cleared; projects, tasks, attachments with their other annotations, the header image and form mapping carry over.
+        </div>
+      </Modal.Body>
+      <Modal.Footer style={{ background: "#1a1a1a", borderColor: "#333" }}>
+        <Button variant="secondary" onClick={onHide}>Cancel</Button>
+        <Button
+          style={{ background: "#FFD700", border: "none", color: "#000", fontWeight: 600 }}
+          onClick={generate}
+          disabled={!next || saving}
+        >
+          {saving ? <Spinner animation="border" size="sm" /> : "Generate"}
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
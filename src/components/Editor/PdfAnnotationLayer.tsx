@@ -0,0 +1,287 @@
+// src/components/Editor/PdfAnnotationLayer.tsx
+import React, { useEffect, useRef, useState } from "react";
+import { Button, Form, Spinner } from "react-bootstrap";
+import { v4 as uuidv4 } from "uuid";
+import { LINE_HEIGHT, PX_PER_POINT } from "../../utils/flattenPdf";
+import { loadPdfDocument, queuePdfPageRender } from "../../utils/pdfRender";
+import type { PDFDocumentProxy } from "../../utils/pdfRender";
+import { signatureDateLine } from "../../utils/signature";
+import type { PdfAnnotation } from "../../utils/templateData";
+
+interface PdfAnnotationLayerProps {
+  url: string;
+  annotations: PdfAnnotation[];
+  onChange: (annotations: PdfAnnotation[]) => void;
+  onEdit: (annotation: PdfAnnotation) => void;
+  readOnly?: boolean;
+  // While set, the next click on the page places this signature instead of a new text box
+  pendingStamp?: Omit<PdfAnnotation, "id" | "pageIndex" | "x" | "y"> | null;
+  onStampPlaced?: () => void;
+}
+
+type DragState = {
+  id: string;
+  mode: "move" | "resize";
+  startX: number;
+  startY: number;
+  origin: PdfAnnotation;
+  moved: boolean;
+};
+
+const MIN_BOX_WIDTH = 40;
+const ZOOM_OPTIONS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+const navBtn: React.CSSProperties = {
+  background: "transparent",
+  border: "1px solid #444",
+  color: "#ddd",
+};
+
+export const PdfAnnotationLayer: React.FC<PdfAnnotationLayerProps> = ({
+  url,
+  annotations,
+  onChange,
+  onEdit,
+  readOnly = false,
+  pendingStamp,
+  onStampPlaced,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const overlayRef = useRef<HTMLDivElement | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [doc, setDoc] = useState<PDFDocumentProxy | null>(null);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [zoom, setZoom] = useState(1);
+  const [pageSize, setPageSize] = useState<{ width: number; height: number } | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /* --------------------------
+     Load document & render current page
+  -------------------------- */
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    loadPdfDocument(url)
+      .then(d => {
+        loaded = d;
+        if (cancelled) return d.destroy();
+        setDoc(d);
+        setPageIndex(0);
+        setError(null);
+      })
+      .catch(err => {
+        console.error(err);
+        if (!cancelled) setError("Failed to load PDF");
+      });
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [url]);
+
+  useEffect(() => {
+    if (!doc || !canvasRef.current) return;
+    const render = queuePdfPageRender(doc, pageIndex, canvasRef.current, zoom);
+    render.promise
+      .then(size => {
+        if (size) setPageSize(size);
+      })
+      .catch(err => {
+        if (err?.name !== "RenderingCancelledException") console.error(err);
+      });
+    return render.cancel;
+  }, [doc, pageIndex, zoom]);
+
+  /* --------------------------
+     Pointer handling
+  -------------------------- */
+  // Overlay coordinates are stored unzoomed so they stay valid at any zoom level
+  const pointerToPage = (e: React.PointerEvent | React.MouseEvent) => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / zoom, y: (e.clientY - rect.top) / zoom };
+  };
+
+  const onOverlayClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (readOnly || e.target !== overlayRef.current) return;
+    const { x, y } = pointerToPage(e);
+    if (pendingStamp) {
+      const stamp: PdfAnnotation = { ...pendingStamp, id: uuidv4(), pageIndex, x, y };
+      onChange([...annotations, stamp]);
+      setSelectedId(stamp.id);
+      onStampPlaced?.();
+      return;
+    }
+    const annotation: PdfAnnotation = {
+      id: uuidv4(),
+      pageIndex,
+      x,
+      y,
+      text: "Text",
+      fontSize: 12,
+      fontFamily: "Tahoma",
+      fontColor: "#000000",
+    };
+    onChange([...annotations, annotation]);
+    setSelectedId(annotation.id);
+  };
+
+  const startDrag = (e: React.PointerEvent, annotation: PdfAnnotation, mode: DragState["mode"]) => {
+    if (readOnly) return;
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    const { x, y } = pointerToPage(e);
+    dragRef.current = { id: annotation.id, mode, startX: x, startY: y, origin: annotation, moved: false };
+    setSelectedId(annotation.id);
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { x, y } = pointerToPage(e);
+    const dx = x - drag.startX;
+    const dy = y - drag.startY;
+    if (!drag.moved && Math.abs(dx) + Math.abs(dy) < 2) return;
+    drag.moved = true;
+
+    const boxEl = overlayRef.current?.querySelector<HTMLElement>(`[data-annotation-id="${drag.id}"]`);
+    const startWidth = drag.origin.width ?? (boxEl ? boxEl.offsetWidth / zoom : MIN_BOX_WIDTH);
+    const width = Math.max(MIN_BOX_WIDTH, startWidth + dx);
+    const { signature } = drag.origin;
+    const updated: PdfAnnotation =
+      drag.mode === "move"
+        ? {
+            ...drag.origin,
+            x: Math.max(0, drag.origin.x + dx),
+            y: Math.max(0, drag.origin.y + dy),
+          }
+        : signature
+          ? // Signatures scale with their box instead of rewrapping
+            { ...drag.origin, width, signature: { ...signature, height: (signature.height * width) / startWidth } }
+          : { ...drag.origin, width };
+    onChange(annotations.map(a => (a.id === drag.id ? updated : a)));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const numPages = doc?.numPages ?? 0;
+  const pageAnnotations = annotations.filter(a => a.pageIndex === pageIndex);
+
+  /* --------------------------
+     Render
+  -------------------------- */
+  return (
+    <div>
+      {/* Toolbar */}
+      <div className="d-flex align-items-center gap-2 mb-2 flex-wrap">
+        <Button size="sm" style={navBtn} disabled={pageIndex === 0} onClick={() => setPageIndex(p => p - 1)}>◀</Button>
+        <span style={{ color: "#ddd", fontSize: 13 }}>
+          Page {numPages ? pageIndex + 1 : 0} / {numPages}
+        </span>
+        <Button size="sm" style={navBtn} disabled={pageIndex >= numPages - 1} onClick={() => setPageIndex(p => p + 1)}>▶</Button>
+        <Form.Select
+          size="sm"
+          value={zoom}
+          onChange={e => setZoom(Number(e.target.value))}
+          style={{ width: 100, background: "#0b0b0b", color: "#fff", border: "1px solid #333" }}
+        >
+          {ZOOM_OPTIONS.map(z => <option key={z} value={z}>{Math.round(z * 100)}%</option>)}
+        </Form.Select>
+        <span style={{ color: "#888", fontSize: 12 }}>
+          {pageAnnotations.length} annotation{pageAnnotations.length === 1 ? "" : "s"} on this page
+        </span>
+      </div>
+
+      {/* Page + Overlay */}
+      <div
+        style={{
+          border: "1px solid #333",
+          minHeight: 300,
+          height: "70vh",
+          overflow: "auto",
+          background: "#1a1a1a",
+          borderRadius: 8,
+          padding: 12,
+        }}
+      >
+        {error && <div style={{ color: "#dc3545" }}>{error}</div>}
+        {!doc && !error && <div className="text-center p-4"><Spinner animation="border" variant="warning" /></div>}
+        <div style={{ position: "relative", width: pageSize?.width, height: pageSize?.height, margin: "0 auto", boxShadow: "0 2px 12px rgba(0,0,0,0.6)" }}>
+          <canvas ref={canvasRef} style={{ display: "block", background: "#fff" }} />
+          <div
+            ref={overlayRef}
+            onClick={onOverlayClick}
+            onPointerMove={onPointerMove}
+            onPointerUp={endDrag}
+            onPointerCancel={endDrag}
+            style={{ position: "absolute", inset: 0, cursor: readOnly ? "default" : pendingStamp ? "copy" : "crosshair" }}
+          >
+            {pageAnnotations.map(a => {
+              const selected = a.id === selectedId;
+              return (
+                <div
+                  key={a.id}
+                  data-annotation-id={a.id}
+                  onPointerDown={e => startDrag(e, a, "move")}
+                  onDoubleClick={e => {
+                    e.stopPropagation();
+                    if (!readOnly) onEdit(a);
+                  }}
+                  title={readOnly ? undefined : "Drag to move, double-click to edit"}
+                  style={{
+                    position: "absolute",
+                    left: a.x * zoom,
+                    top: a.y * zoom,
+                    width: a.width ? a.width * zoom : undefined,
+                    fontSize: a.fontSize * PX_PER_POINT * zoom,
+                    fontFamily: a.fontFamily || "Tahoma",
+                    color: a.fontColor || "#000",
+                    lineHeight: LINE_HEIGHT,
+                    whiteSpace: a.width ? "pre-wrap" : "pre",
+                    wordBreak: "break-word",
+                    cursor: readOnly ? "default" : "move",
+                    outline: selected ? "1px dashed #FFD700" : "1px dashed rgba(0,0,0,0.25)",
+                    userSelect: "none",
+                    touchAction: "none",
+                  }}
+                >
+                  {a.signature ? (
+                    <>
+                      <img
+                        src={a.signature.imageData}
+                        alt={`Signature of ${a.signature.signerName}`}
+                        draggable={false}
+                        style={{ display: "block", width: "100%", height: a.signature.height * zoom }}
+                      />
+                      {signatureDateLine(a.signature.signerName, new Date(a.signature.signedAt))}
+                    </>
+                  ) : (
+                    a.text || " "
+                  )}
+                  {!readOnly && selected && (
+                    <span
+                      onPointerDown={e => startDrag(e, a, "resize")}
+                      title="Drag to resize"
+                      style={{
+                        position: "absolute",
+                        right: -5,
+                        bottom: -5,
+                        width: 10,
+                        height: 10,
+                        background: "#FFD700",
+                        border: "1px solid #000",
+                        cursor: "ew-resize",
+                      }}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
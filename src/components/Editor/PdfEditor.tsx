@@ -1,6 +1,10 @@
 // src/components/Editor/PdfEditor.tsx
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import { Button, Form, Alert } from "react-bootstrap";
+import { useUndoShortcuts, useUndoableState } from "../../hooks/useUndoableState";
+import { useAuth } from "../../contexts/AuthContext";
+import { PdfOrganizer } from "../FileBank/PdfOrganizer";
+import type { OrganizerResult } from "../FileBank/PdfOrganizer";
 
 type TextAnnotation = {
   id: string;
@@ -23,13 +27,22 @@ type ImageAnnotation = {
 interface PdfEditorProps {
   url: string;
   onSave: (annotations: { texts: TextAnnotation[]; images: ImageAnnotation[] }) => void;
+  // Called with the File Bank copy after the pages were reorganized
+  onPagesSaved?: (result: OrganizerResult) => void;
 }
 
-export const PdfEditor: React.FC<PdfEditorProps> = ({ url, onSave }) => {
-  const [textAnnotations, setTextAnnotations] = useState<TextAnnotation[]>([]);
-  const [imageAnnotations, setImageAnnotations] = useState<ImageAnnotation[]>([]);
+export const PdfEditor: React.FC<PdfEditorProps> = ({ url, onSave, onPagesSaved }) => {
+  const { user } = useAuth();
+  const history = useUndoableState<{ texts: TextAnnotation[]; images: ImageAnnotation[] }>({ texts: [], images: [] });
+  const { texts: textAnnotations, images: imageAnnotations } = history.value;
   const [newText, setNewText] = useState("");
   const [currentPage, setCurrentPage] = useState(1);
+  const [showOrganizer, setShowOrganizer] = useState(false);
+  // Stable so the organizer does not reload the file on every render
+  const organizerSources = useMemo(
+    () => [{ name: decodeURIComponent(url.split("?")[0].split("/").pop() || "document.pdf"), url }],
+    [url]
+  );
 
   const addTextAnnotation = () => {
     if (!newText.trim()) return;
@@ -42,7 +55,7 @@ export const PdfEditor: React.FC<PdfEditorProps> = ({ url, onSave }) => {
       page: currentPage,
     };
 
-    setTextAnnotations(prev => [...prev, annotation]);
+    history.set(prev => ({ ...prev, texts: [...prev.texts, annotation] }));
     setNewText("");
   };
 
@@ -62,15 +75,21 @@ export const PdfEditor: React.FC<PdfEditorProps> = ({ url, onSave }) => {
         page: currentPage,
       };
 
-      setImageAnnotations(prev => [...prev, annotation]);
+      history.set(prev => ({ ...prev, images: [...prev.images, annotation] }));
     };
     reader.readAsDataURL(file);
   };
 
   const removeTextAnnotation = (id: string) => {
-    setTextAnnotations(prev => prev.filter(a => a.id !== id));
+    history.set(prev => ({ ...prev, texts: prev.texts.filter(a => a.id !== id) }));
+  };
+
+  const removeImageAnnotation = (id: string) => {
+    history.set(prev => ({ ...prev, images: prev.images.filter(a => a.id !== id) }));
   };
 
+  useUndoShortcuts(history.undo, history.redo);
+
   const handleSave = () => {
     onSave({ texts: textAnnotations, images: imageAnnotations });
     alert("Annotations saved!");
@@ -123,6 +142,13 @@ export const PdfEditor: React.FC<PdfEditorProps> = ({ url, onSave }) => {
           </label>
         </div>
 
+        <Button size="sm" variant="outline-secondary" onClick={history.undo} disabled={!history.canUndo} title="Undo (Ctrl+Z)">
+          Undo
+        </Button>
+        <Button size="sm" variant="outline-secondary" onClick={history.redo} disabled={!history.canRedo} title="Redo (Ctrl+Shift+Z)">
+          Redo
+        </Button>
+
         <Button size="sm" variant="success" onClick={handleSave}>
           Save Annotations
         </Button>
@@ -130,8 +156,24 @@ export const PdfEditor: React.FC<PdfEditorProps> = ({ url, onSave }) => {
         <Button size="sm" variant="primary" onClick={handleDownload}>
           Download PDF
         </Button>
+
+        {user && (
+          <Button size="sm" variant="outline-warning" onClick={() => setShowOrganizer(true)}>
+            Organize Pages
+          </Button>
+        )}
       </div>
 
+      {showOrganizer && user && (
+        <PdfOrganizer
+          show
+          onHide={() => setShowOrganizer(false)}
+          userId={user.id}
+          sources={organizerSources}
+          onSaved={result => onPagesSaved?.(result)}
+        />
+      )}
+
       {/* PDF Preview using iframe or object */}
       <div 
         style={{ 
@@ -185,7 +227,7 @@ export const PdfEditor: React.FC<PdfEditorProps> = ({ url, onSave }) => {
                   size="sm" 
                   variant="link" 
                   className="text-danger"
-                  onClick={() => setImageAnnotations(prev => prev.filter(img => img.id !== a.id))}
+                  onClick={() => removeImageAnnotation(a.id)}
                 >
                   Remove
                 </Button>
@@ -0,0 +1,66 @@
+// src/components/Editor/ProjectPicker.tsx
+import React, { useId } from "react";
+import { Badge, Form } from "react-bootstrap";
+import { findProjectByName, projectLabel } from "../../api/projects";
+import type { ClientRecord, ProjectRecord } from "../../api/projects";
+
+interface ProjectPickerProps {
+  value: string;
+  projectId?: string;
+  projects: ProjectRecord[];
+  clients?: ClientRecord[];
+  onChange: (text: string, projectId?: string) => void;
+  disabled?: boolean;
+  placeholder?: string;
+  style?: React.CSSProperties;
+}
+
+/**
+ * Free-text input with catalogue autocomplete. Only active projects are suggested and
+ * linked, but a value already linked to an archived project keeps its link and badge.
+ */
+export const ProjectPicker: React.FC<ProjectPickerProps> = ({
+  value,
+  projectId,
+  projects,
+  clients = [],
+  onChange,
+  disabled,
+  placeholder,
+  style,
+}) => {
+  const listId = useId();
+  const linked = projects.find(p => p.id === projectId);
+  const active = projects.filter(p => p.active);
+
+  const handleChange = (text: string) => {
+    if (linked && text.trim().toLowerCase() === linked.name.toLowerCase()) return onChange(text, linked.id);
+    onChange(text, findProjectByName(active, text)?.id);
+  };
+
+  return (
+    <div style={{ position: "relative" }}>
+      <Form.Control
+        value={value}
+        list={listId}
+        disabled={disabled}
+        placeholder={placeholder}
+        title={linked ? projectLabel(linked) : value ? "Not in the projects catalogue" : undefined}
+        onChange={e => handleChange(e.target.value)}
+        style={{ ...style, ...(value && !linked && projects.length > 0 ? { borderColor: "#8a6d1c" } : {}) }}
+      />
+      <datalist id={listId}>
+        {active.map(p => (
+          <option key={p.id} value={p.name}>
+            {[p.code, clients.find(c => c.id === p.client_id)?.name].filter(Boolean).join(" · ")}
+          </option>
+        ))}
+      </datalist>
+      {linked && !linked.active && (
+        <Badge bg="secondary" style={{ position: "absolute", right: 6, top: "50%", transform: "translateY(-50%)", fontSize: 10 }}>
+          Archived
+        </Badge>
+      )}
+    </div>
+  );
+};
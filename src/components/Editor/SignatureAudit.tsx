@@ -0,0 +1,54 @@
+// src/components/Editor/SignatureAudit.tsx
+import React, { useEffect, useState } from "react";
+import { Card, ListGroup } from "react-bootstrap";
+import { loadSignatureAudit } from "../../api/signatures";
+import type { SignatureAuditRecord } from "../../api/signatures";
+
+interface SignatureAuditProps {
+  templateId: string;
+  // Bumped by the parent after an export so the list reloads
+  refreshKey?: number;
+}
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString() + " " + date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+};
+
+export const SignatureAudit: React.FC<SignatureAuditProps> = ({ templateId, refreshKey = 0 }) => {
+  const [entries, setEntries] = useState<SignatureAuditRecord[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSignatureAudit(templateId)
+      .then(records => {
+        if (!cancelled) setEntries(records);
+      })
+      .catch(err => console.error(err));
+    return () => {
+      cancelled = true;
+    };
+  }, [templateId, refreshKey]);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <Card className="mt-3" style={{ background: "#171717", border: "1px solid #222", borderRadius: 8, color: "#fff" }}>
+      <Card.Body style={{ padding: "12px" }}>
+        <h5 style={{ color: "#FFD700", fontWeight: 600, marginBottom: 12 }}>✍️ Signatures</h5>
+        <ListGroup variant="flush">
+          {entries.map(e => (
+            <ListGroup.Item key={e.id} style={{ background: "#0b0b0b", color: "#e0e0e0", border: "1px solid #222", marginBottom: 6, borderRadius: 6 }}>
+              <div style={{ fontSize: 13 }}>
+                {e.signer_name} signed page {e.page_index + 1} on {formatDate(e.signed_at)}
+              </div>
+              <div style={{ fontSize: 12, color: "#888" }}>
+                Exported by {e.exported_by_email ?? "unknown"} • {formatDate(e.created_at)} • {e.exported_path.split("/").pop()}
+              </div>
+            </ListGroup.Item>
+          ))}
+        </ListGroup>
+      </Card.Body>
+    </Card>
+  );
+};
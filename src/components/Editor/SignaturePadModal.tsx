@@ -0,0 +1,213 @@
+// src/components/Editor/SignaturePadModal.tsx
+import React, { useRef, useState } from "react";
+import { Button, ButtonGroup, Form, Modal, Spinner, ToggleButton } from "react-bootstrap";
+import { saveUserSignature } from "../../api/signatures";
+import type { SignatureKind, UserSignatureRecord } from "../../api/signatures";
+import { SCRIPT_FONTS, SIGNATURE_INK, loadSignatureFile, renderTypedSignature, trimCanvas } from "../../utils/signature";
+import type { SignatureImage } from "../../utils/signature";
+
+interface SignaturePadModalProps {
+  show: boolean;
+  onHide: () => void;
+  userId: string;
+  current: UserSignatureRecord | null;
+  onSaved: (signature: UserSignatureRecord) => void;
+}
+
+const KINDS: { value: SignatureKind; label: string }[] = [
+  { value: "drawn", label: "Draw" },
+  { value: "typed", label: "Type" },
+  { value: "uploaded", label: "Upload" },
+];
+
+const PAD_WIDTH = 460;
+const PAD_HEIGHT = 160;
+
+const inputStyle: React.CSSProperties = { background: "#0b0b0b", color: "#fff", border: "1px solid #333" };
+
+export const SignaturePadModal: React.FC<SignaturePadModalProps> = ({ show, onHide, userId, current, onSaved }) => {
+  const padRef = useRef<HTMLCanvasElement | null>(null);
+  const drawingRef = useRef(false);
+  const [kind, setKind] = useState<SignatureKind>(current?.kind ?? "drawn");
+  const [hasInk, setHasInk] = useState(false);
+  const [typedName, setTypedName] = useState(current?.typed_name ?? "");
+  const [fontFamily, setFontFamily] = useState(current?.font_family ?? SCRIPT_FONTS[0]);
+  const [uploaded, setUploaded] = useState<SignatureImage | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  /* --------------------------
+     Drawing pad
+  -------------------------- */
+  const padPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: ((e.clientX - rect.left) * PAD_WIDTH) / rect.width, y: ((e.clientY - rect.top) * PAD_HEIGHT) / rect.height };
+  };
+
+  const startStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const { x, y } = padPoint(e);
+    ctx.strokeStyle = SIGNATURE_INK;
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const continueStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    const { x, y } = padPoint(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    setHasInk(true);
+  };
+
+  const endStroke = () => {
+    drawingRef.current = false;
+  };
+
+  const clearPad = () => {
+    const canvas = padRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasInk(false);
+  };
+
+  const onUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const image = await loadSignatureFile(file);
+      if (!image) return alert("No signature found in that image");
+      setUploaded(image);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to read image: ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+  };
+
+  /* --------------------------
+     Save
+  -------------------------- */
+  const buildImage = () => {
+    if (kind === "drawn") return padRef.current ? trimCanvas(padRef.current) : null;
+    if (kind === "typed") return typedName.trim() ? renderTypedSignature(typedName.trim(), fontFamily) : null;
+    return uploaded;
+  };
+
+  const canSave = kind === "drawn" ? hasInk : kind === "typed" ? !!typedName.trim() : !!uploaded;
+
+  const save = async () => {
+    const image = buildImage();
+    if (!image) return;
+    setSaving(true);
+    try {
+      const saved = await saveUserSignature(userId, {
+        kind,
+        image_data: image.dataUrl,
+        width: image.width,
+        height: image.height,
+        typed_name: kind === "typed" ? typedName.trim() : null,
+        font_family: kind === "typed" ? fontFamily : null,
+      });
+      onSaved(saved);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to save signature: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal show={show} onHide={onHide} centered>
+      <Modal.Header closeButton style={{ background: "#1a1a1a", borderColor: "#333", color: "#fff" }}>
+        <Modal.Title>My Signature</Modal.Title>
+      </Modal.Header>
+      <Modal.Body style={{ background: "#0f0f10", color: "#fff" }}>
+        {current && (
+          <div className="mb-3">
+            <div style={{ fontSize: 12, color: "#999", marginBottom: 4 }}>Current signature</div>
+            <img src={current.image_data} alt="Current signature" style={{ maxWidth: "100%", maxHeight: 80, background: "#fff", padding: 6, borderRadius: 4 }} />
+          </div>
+        )}
+
+        <ButtonGroup className="mb-3 w-100">
+          {KINDS.map(k => (
+            <ToggleButton
+              key={k.value}
+              id={`signature-kind-${k.value}`}
+              type="radio"
+              variant={kind === k.value ? "warning" : "outline-secondary"}
+              name="signature-kind"
+              value={k.value}
+              checked={kind === k.value}
+              onChange={() => setKind(k.value)}
+            >
+              {k.label}
+            </ToggleButton>
+          ))}
+        </ButtonGroup>
+
+        {kind === "drawn" && (
+          <>
+            <canvas
+              ref={padRef}
+              width={PAD_WIDTH}
+              height={PAD_HEIGHT}
+              onPointerDown={startStroke}
+              onPointerMove={continueStroke}
+              onPointerUp={endStroke}
+              onPointerCancel={endStroke}
+              style={{ width: "100%", background: "#fff", borderRadius: 4, cursor: "crosshair", touchAction: "none" }}
+            />
+            <div className="d-flex justify-content-between align-items-center mt-1">
+              <span style={{ fontSize: 12, color: "#888" }}>Sign with your mouse, pen or finger</span>
+              <Button size="sm" variant="outline-light" onClick={clearPad} disabled={!hasInk}>Clear</Button>
+            </div>
+          </>
+        )}
+
+        {kind === "typed" && (
+          <>
+            <Form.Group className="mb-2">
+              <Form.Label>Name</Form.Label>
+              <Form.Control value={typedName} onChange={e => setTypedName(e.target.value)} placeholder="Your full name" style={inputStyle} />
+            </Form.Group>
+            <Form.Group className="mb-2">
+              <Form.Label>Style</Form.Label>
+              <Form.Select value={fontFamily} onChange={e => setFontFamily(e.target.value)} style={inputStyle}>
+                {SCRIPT_FONTS.map(f => (
+                  <option key={f} value={f}>{f.split(",")[0].replace(/"/g, "")}</option>
+                ))}
+              </Form.Select>
+            </Form.Group>
+            <div style={{ background: "#fff", color: SIGNATURE_INK, fontFamily, fontSize: 36, padding: "4px 12px", borderRadius: 4, minHeight: 60 }}>
+              {typedName || "Your name"}
+            </div>
+          </>
+        )}
+
+        {kind === "uploaded" && (
+          <>
+            <Form.Control type="file" accept="image/png,image/jpeg" onChange={onUpload} style={inputStyle} />
+            <div style={{ fontSize: 12, color: "#888", marginTop: 4 }}>A scan or photo on white paper; the background is removed</div>
+            {uploaded && (
+              <img src={uploaded.dataUrl} alt="Uploaded signature" style={{ maxWidth: "100%", maxHeight: 100, background: "#fff", padding: 6, borderRadius: 4, marginTop: 8 }} />
+            )}
+          </>
+        )}
+      </Modal.Body>
+      <Modal.Footer style={{ background: "#1a1a1a", borderColor: "#333" }}>
+        <Button variant="secondary" onClick={onHide}>Cancel</Button>
+        <Button variant="warning" onClick={save} disabled={!canSave || saving}>
+          {saving ? <Spinner animation="border" size="sm" /> : "Save Signature"}
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
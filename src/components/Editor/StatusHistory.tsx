@@ -0,0 +1,57 @@
+// src/components/Editor/StatusHistory.tsx
+import React, { useEffect, useState } from "react";
+import { Badge, Card, ListGroup } from "react-bootstrap";
+import { STATUS_LABELS, STATUS_VARIANTS, loadStatusHistory } from "../../api/templateWorkflow";
+import type { StatusHistoryRecord } from "../../api/templateWorkflow";
+
+interface StatusHistoryProps {
+  templateId: string;
+  // Bumped by the parent after a transition so the list reloads
+  refreshKey?: number;
+}
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString() + " " + date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+};
+
+export const StatusHistory: React.FC<StatusHistoryProps> = ({ templateId, refreshKey = 0 }) => {
+  const [history, setHistory] = useState<StatusHistoryRecord[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadStatusHistory(templateId)
+      .then(records => {
+        if (!cancelled) setHistory(records);
+      })
+      .catch(err => console.error(err));
+    return () => {
+      cancelled = true;
+    };
+  }, [templateId, refreshKey]);
+
+  if (history.length === 0) return null;
+
+  return (
+    <Card className="mt-3" style={{ background: "#171717", border: "1px solid #222", borderRadius: 8, color: "#fff" }}>
+      <Card.Body style={{ padding: "12px" }}>
+        <h5 style={{ color: "#FFD700", fontWeight: 600, marginBottom: 12 }}>📜 Status History</h5>
+        <ListGroup variant="flush">
+          {history.map(h => (
+            <ListGroup.Item key={h.id} style={{ background: "#0b0b0b", color: "#e0e0e0", border: "1px solid #222", marginBottom: 6, borderRadius: 6 }}>
+              <div className="d-flex align-items-center gap-2 flex-wrap" style={{ fontSize: 13 }}>
+                <Badge bg={STATUS_VARIANTS[h.from_status]}>{STATUS_LABELS[h.from_status]}</Badge>
+                <span>→</span>
+                <Badge bg={STATUS_VARIANTS[h.to_status]}>{STATUS_LABELS[h.to_status]}</Badge>
+                <span style={{ color: "#888" }}>
+                  by {h.changed_by_email ?? "unknown"} • {formatDate(h.created_at)}
+                </span>
+              </div>
+              {h.comment && <div style={{ fontSize: 13, marginTop: 6, whiteSpace: "pre-wrap" }}>{h.comment}</div>}
+            </ListGroup.Item>
+          ))}
+        </ListGroup>
+      </Card.Body>
+    </Card>
+  );
+};
@@ -0,0 +1,70 @@
+// src/components/Editor/TemplateExpenses.tsx
+import React, { useEffect, useState } from "react";
+import { Button, Card, Table } from "react-bootstrap";
+import { Link } from "react-router-dom";
+import { downloadBlob } from "../../api/fileBank";
+import { formatMoney } from "../../api/projects";
+import { loadTemplateExpenses } from "../../api/expenses";
+import type { ExpenseRecord } from "../../api/expenses";
+import { EXPENSE_CATEGORY_LABELS, totalsByCurrency } from "../../utils/expenses";
+import { buildExpenseReportPdf } from "../../utils/exportExpenses";
+
+interface TemplateExpensesProps {
+  templateId: string;
+  templateName: string;
+}
+
+export const TemplateExpenses: React.FC<TemplateExpensesProps> = ({ templateId, templateName }) => {
+  const [expenses, setExpenses] = useState<ExpenseRecord[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadTemplateExpenses(templateId)
+      .then(records => {
+        if (!cancelled) setExpenses(records);
+      })
+      .catch(err => console.error(err));
+    return () => {
+      cancelled = true;
+    };
+  }, [templateId]);
+
+  if (expenses.length === 0) return null;
+
+  const exportPdf = () => {
+    const period = `${expenses[0].date} - ${expenses[expenses.length - 1].date}`;
+    const pdf = buildExpenseReportPdf(expenses, { title: `Expenses: ${templateName}`, period });
+    downloadBlob(pdf.output("blob"), `${templateName || "timesheet"}-expenses.pdf`);
+  };
+
+  return (
+    <Card className="mt-3" style={{ background: "#171717", border: "1px solid #222", borderRadius: 8, color: "#fff" }}>
+      <Card.Body style={{ padding: "12px" }}>
+        <div className="d-flex justify-content-between align-items-center" style={{ marginBottom: 12 }}>
+          <h5 style={{ color: "#FFD700", fontWeight: 600, margin: 0 }}>🧾 Expenses</h5>
+          <div className="d-flex gap-2">
+            <Button size="sm" style={{ background: "transparent", border: "1px solid #444", color: "#ddd" }} onClick={exportPdf}>
+              Export PDF
+            </Button>
+            <Link to="/expenses" className="btn btn-sm btn-outline-warning">Manage</Link>
+          </div>
+        </div>
+        <Table size="sm" variant="dark" bordered style={{ fontSize: 13, marginBottom: 8 }}>
+          <tbody>
+            {expenses.map(e => (
+              <tr key={e.id}>
+                <td>{e.date}</td>
+                <td>{EXPENSE_CATEGORY_LABELS[e.category]}</td>
+                <td>{e.description}</td>
+                <td style={{ textAlign: "right" }}>{formatMoney(e.amount, e.currency)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+        <div style={{ fontSize: 13, color: "#ddd", textAlign: "right" }}>
+          Total: {Object.entries(totalsByCurrency(expenses)).map(([currency, amount]) => formatMoney(amount, currency)).join(" · ")}
+        </div>
+      </Card.Body>
+    </Card>
+  );
+};
@@ -0,0 +1,180 @@
+// src/components/Editor/TimeEntryGrid.tsx
+import React, { useMemo } from "react";
+import { Button, Form, Table } from "react-bootstrap";
+import { ProjectPicker } from "./ProjectPicker";
+import type { ClientRecord, ProjectRecord } from "../../api/projects";
+import {
+  TIME_ENTRY_COLUMNS,
+  cellRef,
+  cellText,
+  entryMinutes,
+  formatHours,
+  makeEmptyRow,
+  rowId,
+  setCellText,
+  setCellValue,
+  totalMinutes,
+  validateRows,
+  withComputedHours,
+} from "../../utils/timeEntries";
+import type { Cell, TimeEntryColumnKey } from "../../utils/timeEntries";
+
+interface TimeEntryGridProps {
+  rows: Cell[][];
+  onChange: (rows: Cell[][]) => void;
+  readOnly?: boolean;
+  // Projects catalogue for the project column's autocomplete
+  projects?: ProjectRecord[];
+  clients?: ClientRecord[];
+}
+
+const inputStyle: React.CSSProperties = {
+  background: "#0b0b0b",
+  color: "#fff",
+  border: "1px solid #333",
+  fontSize: 13,
+  padding: "4px 6px",
+};
+
+const iconBtn: React.CSSProperties = {
+  background: "transparent",
+  border: "1px solid #333",
+  color: "#ddd",
+  padding: "0 6px",
+  lineHeight: "22px",
+};
+
+export const TimeEntryGrid: React.FC<TimeEntryGridProps> = ({ rows, onChange, readOnly = false, projects = [], clients = [] }) => {
+  const errors = useMemo(() => validateRows(rows), [rows]);
+  const total = useMemo(() => totalMinutes(rows), [rows]);
+
+  const updateCell = (rowIdx: number, key: TimeEntryColumnKey, text: string) => {
+    onChange(rows.map((row, i) => (i === rowIdx ? withComputedHours(setCellText(row, key, text)) : row)));
+  };
+
+  const updateProject = (rowIdx: number, text: string, projectId?: string) => {
+    onChange(rows.map((row, i) => (i === rowIdx ? setCellValue(row, "project", text, projectId) : row)));
+  };
+
+  // New rows continue from the last one so a day's entries can be logged quickly
+  const addRow = () => {
+    const last = rows[rows.length - 1];
+    let row = makeEmptyRow();
+    row = setCellText(row, "date", last ? cellText(last, "date") : new Date().toISOString().slice(0, 10));
+    if (last) {
+      row = setCellValue(row, "project", cellText(last, "project"), cellRef(last, "project"));
+      row = setCellText(row, "task", cellText(last, "task"));
+      row = setCellText(row, "start", cellText(last, "end"));
+    }
+    onChange([...rows, row]);
+  };
+
+  const removeRow = (rowIdx: number) => {
+    const next = rows.filter((_, i) => i !== rowIdx);
+    onChange(next.length > 0 ? next : [makeEmptyRow()]);
+  };
+
+  const moveRow = (rowIdx: number, delta: number) => {
+    const target = rowIdx + delta;
+    if (target < 0 || target >= rows.length) return;
+    const next = [...rows];
+    [next[rowIdx], next[target]] = [next[target], next[rowIdx]];
+    onChange(next);
+  };
+
+  return (
+    <div data-undo-history>
+      <div style={{ overflowX: "auto" }}>
+        <Table variant="dark" size="sm" bordered style={{ marginBottom: 8, minWidth: 900 }}>
+          <thead>
+            <tr>
+              <th style={{ width: 36 }}>#</th>
+              {TIME_ENTRY_COLUMNS.map(col => (
+                <th key={col.key} style={{ width: col.width, color: "#FFD700", fontWeight: 600, fontSize: 13 }}>
+                  {col.label}
+                </th>
+              ))}
+              {!readOnly && <th style={{ width: 100 }} />}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, rowIdx) => {
+              const id = rowId(row);
+              const rowErrors = errors[id];
+              const minutes = entryMinutes(row);
+              return (
+                <React.Fragment key={id}>
+                  <tr style={rowErrors ? { outline: "1px solid #dc3545" } : undefined}>
+                    <td style={{ color: "#888", fontSize: 12, verticalAlign: "middle" }}>{rowIdx + 1}</td>
+                    {TIME_ENTRY_COLUMNS.map(col => (
+                      <td key={col.key} style={{ verticalAlign: "middle" }}>
+                        {col.input === "computed" ? (
+                          <span style={{ color: minutes !== null && minutes < 0 ? "#dc3545" : "#fff", fontSize: 13 }}>
+                            {minutes === null ? "—" : formatHours(minutes)}
+                          </span>
+                        ) : col.key === "project" ? (
+                          <ProjectPicker
+                            value={cellText(row, "project")}
+                            projectId={cellRef(row, "project")}
+                            projects={projects}
+                            clients={clients}
+                            disabled={readOnly}
+                            onChange={(text, projectId) => updateProject(rowIdx, text, projectId)}
+                            style={inputStyle}
+                          />
+                        ) : (
+                          <Form.Control
+                            type={col.input}
+                            value={cellText(row, col.key)}
+                            min={col.input === "number" ? 0 : undefined}
+                            step={col.input === "number" ? 5 : undefined}
+                            disabled={readOnly}
+                            onChange={e => updateCell(rowIdx, col.key, e.target.value)}
+                            style={inputStyle}
+                          />
+                        )}
+                      </td>
+                    ))}
+                    {!readOnly && (
+                      <td style={{ whiteSpace: "nowrap", verticalAlign: "middle" }}>
+                        <Button size="sm" style={iconBtn} title="Move up" disabled={rowIdx === 0} onClick={() => moveRow(rowIdx, -1)}>↑</Button>{" "}
+                        <Button size="sm" style={iconBtn} title="Move down" disabled={rowIdx === rows.length - 1} onClick={() => moveRow(rowIdx, 1)}>↓</Button>{" "}
+                        <Button size="sm" style={{ ...iconBtn, color: "#dc3545" }} title="Remove row" onClick={() => removeRow(rowIdx)}>✕</Button>
+                      </td>
+                    )}
+                  </tr>
+                  {rowErrors && (
+                    <tr>
+                      <td />
+                      <td colSpan={TIME_ENTRY_COLUMNS.length + (readOnly ? 0 : 1)} style={{ color: "#dc3545", fontSize: 12 }}>
+                        {rowErrors.join(" • ")}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td colSpan={TIME_ENTRY_COLUMNS.findIndex(c => c.key === "hours") + 1} style={{ textAlign: "right", fontWeight: 600 }}>
+                Total
+              </td>
+              <td style={{ fontWeight: 700, color: "#FFD700" }}>{formatHours(total)}</td>
+              <td colSpan={TIME_ENTRY_COLUMNS.length - TIME_ENTRY_COLUMNS.findIndex(c => c.key === "hours") - 1 + (readOnly ? 0 : 1)} />
+            </tr>
+          </tfoot>
+        </Table>
+      </div>
+      {!readOnly && (
+        <Button
+          size="sm"
+          onClick={addRow}
+          style={{ background: "#FFD700", border: "none", color: "#000", fontWeight: 600 }}
+        >
+          + Add Row
+        </Button>
+      )}
+    </div>
+  );
+};
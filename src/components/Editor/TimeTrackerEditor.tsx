@@ -1,61 +1,105 @@
 // src/components/Editor/TimeTrackerEditor.tsx
-import React, { useCallback, useEffect, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { supabase } from "../../api/supabaseClient";
 import { useAuth } from "../../contexts/AuthContext";
-import { Button, Form, Row, Col, Card, Spinner, Modal, Container } from "react-bootstrap";
+import { useTimer } from "../../contexts/TimerContext";
+import { Badge, Button, Form, Row, Col, Card, Spinner, Modal, Container } from "react-bootstrap";
 import Dropzone from "react-dropzone";
 import { v4 as uuidv4 } from "uuid";
+import { useBlocker, useNavigate } from "react-router-dom";
+import type { BlockerFunction } from "react-router-dom";
+import { bytesToFile, downloadBlob, uploadToFileBank } from "../../api/fileBank";
+import { EDITABLE_STATUSES, STATUS_LABELS, STATUS_VARIANTS, changeTemplateStatus, isLockedStatus } from "../../api/templateWorkflow";
+import { loadClients, loadProjects } from "../../api/projects";
+import { AUTOSAVE_VERSION_INTERVAL_MS, recordTemplateVersion, restoreTemplateVersion } from "../../api/templateVersions";
+import type { TemplateVersionRecord } from "../../api/templateVersions";
+import { loadUserSignature, recordSignatureAudit } from "../../api/signatures";
+import type { UserSignatureRecord } from "../../api/signatures";
+import type { ClientRecord, ProjectRecord } from "../../api/projects";
+import type { TemplateStatus } from "../../api/templateWorkflow";
+import { fetchBytes, flattenAnnotations, pdfPageViewSizes } from "../../utils/flattenPdf";
+import { fillFormFields, resolveMappedValues } from "../../utils/pdfForms";
+import { mergeImportedRows } from "../../utils/importEntries";
+import { TimeEntryGrid } from "./TimeEntryGrid";
+import { PdfAnnotationLayer } from "./PdfAnnotationLayer";
+import { FormFillPanel } from "./FormFillPanel";
+import { NextPeriodModal } from "./NextPeriodModal";
+import { StatusHistory } from "./StatusHistory";
+import { VersionHistory } from "./VersionHistory";
+import { TemplateExpenses } from "./TemplateExpenses";
+import { ExportModal } from "./ExportModal";
+import { ImportEntriesModal } from "./ImportEntriesModal";
+import { HoursBreakdown } from "./HoursBreakdown";
+import { ProjectPicker } from "./ProjectPicker";
+import { AttachmentList } from "./AttachmentList";
+import { AttachmentVersions } from "./AttachmentVersions";
+import { SignaturePadModal } from "./SignaturePadModal";
+import { SignatureAudit } from "./SignatureAudit";
+import { PdfOrganizer } from "../FileBank/PdfOrganizer";
+import type { OrganizerResult } from "../FileBank/PdfOrganizer";
+import { ExcelEditor } from "./ExcelEditor";
+import { WordEditor } from "./WordEditor";
+import { TimerWidget } from "../TimerWidget";
+import { cellText } from "../../utils/timeEntries";
+import { DOCX_MIME } from "../../utils/docxText";
+import { DEFAULT_STAMP_WIDTH, signatureDateLine } from "../../utils/signature";
+import { rotateAnnotation } from "../../utils/pdfPages";
+import type { PageRef } from "../../utils/pdfPages";
+import { attachmentLabel, createDefaultTemplate, normalizeTemplate, primaryAttachment } from "../../utils/templateData";
+import { AUTOSAVE_DELAY_MS, clearDraft, formatSavedAgo, isDraftNewer, readDraft, templateSnapshot, writeDraft } from "../../utils/drafts";
+import type { TemplateDraft } from "../../utils/drafts";
+import { useUndoShortcuts, useUndoableState } from "../../hooks/useUndoableState";
+import type { AttachmentType, PdfAnnotation, TemplateAttachment, TemplateData, TemplateMeta } from "../../utils/templateData";
 
-/* --------------------------
-   Types & helpers
--------------------------- */
-type Cell = { id: string; text: string };
-
-type TemplateData = {
-  headerImage?: { url?: string; storagePath?: string };
-  rows: Cell[][];
-  attachment?: { url: string; type: "pdf" | "word" | "excel"; storagePath: string };
-  meta?: { project?: string; period?: string; employeeName?: string };
-  annotations?: PdfAnnotation[];
-};
-
-const makeEmptyCell = (): Cell => ({ id: uuidv4(), text: "" });
-
-const defaultTemplate: TemplateData = {
-  rows: [[makeEmptyCell(), makeEmptyCell(), makeEmptyCell()]],
-  meta: {},
-  annotations: [],
-};
-
-/* --------------------------
-   PDF Annotation types - using absolute pixel coordinates
--------------------------- */
-type PdfAnnotation = {
-  id: string;
-  pageIndex: number;
-  x: number;
-  y: number;
-  text: string;
-  fontSize: number;
-  fontFamily: string;
-  fontColor: string;
-};
+const XLSX_MIME = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
 
 /* --------------------------
    Main Component
 -------------------------- */
 export const TimeTrackerEditor: React.FC<{ templateId?: string }> = ({ templateId }) => {
   const { user } = useAuth();
+  const navigate = useNavigate();
+  const { registerEntrySink } = useTimer();
   const [loading, setLoading] = useState(false);
-  const [template, setTemplate] = useState<TemplateData>(defaultTemplate);
+  // Grid, meta, header image, attachment and annotation edits share one undo history; the name does not
+  const history = useUndoableState<TemplateData>(createDefaultTemplate);
+  const { value: template, set: setTemplate, reset: resetTemplate } = history;
   const [name, setName] = useState("My Time Tracker");
+  const [status, setStatus] = useState<TemplateStatus>("draft");
+  const [ownerId, setOwnerId] = useState<string | null>(null);
+  const [historyKey, setHistoryKey] = useState(0);
+  const [versionsKey, setVersionsKey] = useState(0);
+  const [signaturesKey, setSignaturesKey] = useState(0);
+  const [projects, setProjects] = useState<ProjectRecord[]>([]);
+  const [clients, setClients] = useState<ClientRecord[]>([]);
+
+  // Attachment shown below; defaults to the primary one
+  const [activeAttachmentId, setActiveAttachmentId] = useState<string | null>(null);
 
   // PDF editor state
-  const [annotations, setAnnotations] = useState<PdfAnnotation[]>([]);
-  const pdfContainerRef = useRef<HTMLDivElement | null>(null);
-  const iframeRef = useRef<HTMLIFrameElement | null>(null);
   const [showAnnotModal, setShowAnnotModal] = useState(false);
   const [editingAnnotation, setEditingAnnotation] = useState<PdfAnnotation | null>(null);
+  const [showNextPeriod, setShowNextPeriod] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+
+  // Signature stamping: the user's saved signature and the stamp waiting for a click on the page
+  const [signature, setSignature] = useState<UserSignatureRecord | null>(null);
+  // "stamp" arms a stamp once the new signature is saved
+  const [signaturePad, setSignaturePad] = useState<"edit" | "stamp" | null>(null);
+  const [pendingStamp, setPendingStamp] = useState<Omit<PdfAnnotation, "id" | "pageIndex" | "x" | "y"> | null>(null);
+  const [showOrganizer, setShowOrganizer] = useState(false);
+
+  // Autosave state: what the server (or explicit save) last saw, and a newer local draft to offer
+  const [savedSnapshot, setSavedSnapshot] = useState(() => templateSnapshot(name, template));
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(0);
+  const [autosaving, setAutosaving] = useState(false);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [recovery, setRecovery] = useState<TemplateDraft | null>(() => (!templateId && user ? readDraft(user.id) : null));
+  // Snapshot last stored as a version, and when an autosave last versioned the copy it overwrote
+  const versionedSnapshotRef = useRef<string | null>(null);
+  const autosaveVersionedAtRef = useRef(0);
 
   /* --------------------------
      Load template (if editing)
@@ -67,10 +111,25 @@ export const TimeTrackerEditor: React.FC<{ templateId?: string }> = ({ templateI
       try {
         const { data, error } = await supabase.from("templates").select("*").eq("id", id).single();
         if (error) throw error;
-        const loadedTemplate: TemplateData = data.template_data ?? defaultTemplate;
-        setTemplate(loadedTemplate);
-        setName(data.name ?? "My Time Tracker");
-        setAnnotations(loadedTemplate.annotations ?? []);
+        const loadedTemplate = normalizeTemplate(data.template_data);
+        const loadedName = data.name ?? "My Time Tracker";
+        resetTemplate(loadedTemplate);
+        setName(loadedName);
+        setStatus(data.status ?? "draft");
+        setOwnerId(data.user_id ?? null);
+        setSavedSnapshot(templateSnapshot(loadedName, loadedTemplate));
+        versionedSnapshotRef.current = null;
+        autosaveVersionedAtRef.current = 0;
+        if (data.updated_at) {
+          setLastSavedAt(Date.parse(data.updated_at));
+          setNow(Date.now());
+        }
+
+        // Offer a local draft left by a crash or offline edits, unless the server copy is newer
+        const draft = readDraft(user.id, id);
+        const editable = !isLockedStatus(data.status ?? "draft") && data.user_id === user.id;
+        if (draft && editable && isDraftNewer(draft, data.updated_at)) setRecovery(draft);
+        else if (draft) clearDraft(user.id, id);
       } catch (err) {
         console.error(err);
         alert("Failed to load template");
@@ -78,67 +137,245 @@ export const TimeTrackerEditor: React.FC<{ templateId?: string }> = ({ templateI
         setLoading(false);
       }
     },
-    [user]
+    [user, resetTemplate]
   );
 
   useEffect(() => {
     if (templateId) loadTemplate(templateId);
   }, [templateId, loadTemplate]);
 
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    loadUserSignature(user.id)
+      .then(saved => {
+        if (!cancelled) setSignature(saved);
+      })
+      .catch(err => console.error(err));
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  // Catalogue for project autocomplete; archived projects are kept so old links still resolve
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    Promise.all([loadProjects(user.id), loadClients(user.id)])
+      .then(([p, c]) => {
+        if (cancelled) return;
+        setProjects(p);
+        setClients(c);
+      })
+      .catch(err => console.error(err));
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  // Submitted/approved timesheets are frozen, and reviewers only ever get a read-only view
+  const isOwner = !ownerId || ownerId === user?.id;
+  const readOnly = isLockedStatus(status) || !isOwner;
+
+  const attachments = template.attachments ?? [];
+  const activeAttachment = attachments.find(a => a.id === activeAttachmentId) ?? primaryAttachment(template);
+
+  // Stable so the page organizer does not reload the file on every edit
+  const organizerUrl = activeAttachment?.type === "pdf" ? activeAttachment.url : null;
+  const organizerName = activeAttachment ? attachmentLabel(activeAttachment) : "";
+  const organizerSources = useMemo(
+    () => (organizerUrl ? [{ name: organizerName, url: organizerUrl }] : []),
+    [organizerUrl, organizerName]
+  );
+
+  // A timer stopped while this template is open lands in the grid like any other unsaved edit
+  useEffect(() => {
+    if (!templateId || readOnly) return;
+    return registerEntrySink(templateId, entries =>
+      setTemplate(prev => ({ ...prev, rows: mergeImportedRows(prev.rows, entries) }))
+    );
+  }, [templateId, readOnly, registerEntrySink, setTemplate]);
+
+  useUndoShortcuts(history.undo, history.redo, !readOnly);
+
   /* --------------------------
-     Upload helper
+     Autosave & drafts
   -------------------------- */
-  const uploadFile = async (file: File, folder: string) => {
-    if (!user) throw new Error("Sign in first");
+  const snapshot = useMemo(() => templateSnapshot(name, template), [name, template]);
+  const dirty = !readOnly && snapshot !== savedSnapshot;
+
+  const markSaved = useCallback(
+    (saved: string, at: number) => {
+      setSavedSnapshot(saved);
+      setLastSavedAt(at);
+      setNow(at);
+      if (user) clearDraft(user.id, templateId, at);
+    },
+    [user, templateId]
+  );
 
-    const storagePath = `${user.id}/${uuidv4()}-${file.name}`;
+  // Versions are a side record of a save, so a failure here is logged rather than failing the save
+  const snapshotVersion = useCallback(
+    (id: string, savedName: string, data: TemplateData) => {
+      if (!user) return;
+      recordTemplateVersion(id, user, savedName, data)
+        .then(version => {
+          versionedSnapshotRef.current = templateSnapshot(savedName, data);
+          if (version) setVersionsKey(k => k + 1);
+        })
+        .catch(err => console.error(err));
+    },
+    [user]
+  );
 
-    const { error: uploadError } = await supabase.storage
-      .from(folder)
-      .upload(storagePath, file, { upsert: true, contentType: file.type });
+  // The server copy about to be overwritten is versioned first (skipped when it already is), so an
+  // autosaved state is not lost to the next write. Unlike snapshotVersion this must succeed first.
+  const versionServerCopy = useCallback(
+    async (id: string) => {
+      if (!user || versionedSnapshotRef.current === savedSnapshot) return;
+      const saved = JSON.parse(savedSnapshot) as { name: string; template: TemplateData };
+      const version = await recordTemplateVersion(id, user, saved.name, saved.template);
+      versionedSnapshotRef.current = savedSnapshot;
+      if (version) setVersionsKey(k => k + 1);
+    },
+    [user, savedSnapshot]
+  );
 
-    if (uploadError) {
-      console.error("Upload error:", uploadError);
-      throw new Error(`Upload failed: ${uploadError.message}`);
-    }
+  useEffect(() => {
+    const onOnline = () => setOnline(true);
+    const onOffline = () => setOnline(false);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    return () => {
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+    };
+  }, []);
 
-    const { data } = supabase.storage.from(folder).getPublicUrl(storagePath);
-    const publicUrl = data?.publicUrl;
+  // Every pause in editing writes a local draft; saved timesheets also go to their row when online
+  useEffect(() => {
+    if (!user || !dirty) return;
+    const timeout = window.setTimeout(async () => {
+      const draft: TemplateDraft = { name, template, savedAt: Date.now() };
+      writeDraft(user.id, templateId, draft);
+      if (!templateId || !online) return;
+      setAutosaving(true);
+      try {
+        // Once per interval, so the history holds editing sessions rather than every pause in typing
+        if (Date.now() - autosaveVersionedAtRef.current >= AUTOSAVE_VERSION_INTERVAL_MS) {
+          await versionServerCopy(templateId);
+          autosaveVersionedAtRef.current = Date.now();
+        }
+        const { data, error } = await supabase
+          .from("templates")
+          .update({ name, template_data: draft.template, updated_at: new Date(draft.savedAt).toISOString() })
+          .eq("id", templateId)
+          .in("status", EDITABLE_STATUSES)
+          .select("id");
+        if (error) throw error;
+        if (!data || data.length === 0) {
+          // Submitted or approved in another tab or by a reviewer: stop writing and show the locked copy
+          alert("This timesheet was submitted or approved elsewhere and is now locked. Your latest edits were not saved.");
+          loadTemplate(templateId);
+          return;
+        }
+        markSaved(snapshot, draft.savedAt);
+      } catch (err) {
+        // The local draft still holds the edits and the next change retries
+        console.error(err);
+      } finally {
+        setAutosaving(false);
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timeout);
+  }, [user, dirty, snapshot, name, template, templateId, online, markSaved, versionServerCopy, loadTemplate]);
 
-    const { error: insertError } = await supabase.from("file_bank").insert({
-      user_id: user.id,
-      filename: file.name,
-      storage_path: storagePath,
-      content_type: file.type,
-      size: file.size,
-    });
+  useEffect(() => {
+    if (!lastSavedAt) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 5000);
+    return () => window.clearInterval(interval);
+  }, [lastSavedAt]);
 
-    if (insertError) {
-      console.error("Database insert error:", insertError);
-      throw new Error(`Database insert failed: ${insertError.message}`);
-    }
+  // A refresh or closed tab gets the browser's own prompt, with the draft written first
+  useEffect(() => {
+    if (!user || !dirty) return;
+    const onBeforeUnload = (e: BeforeUnloadEvent) => {
+      writeDraft(user.id, templateId, { name, template, savedAt: Date.now() });
+      e.preventDefault();
+    };
+    window.addEventListener("beforeunload", onBeforeUnload);
+    return () => window.removeEventListener("beforeunload", onBeforeUnload);
+  }, [user, dirty, templateId, name, template]);
+
+  // Read through a ref so a save that navigates right away is not blocked by the stale flag
+  const guardRef = useRef(false);
+  useEffect(() => {
+    guardRef.current = dirty;
+  }, [dirty]);
+  const shouldBlock = useCallback<BlockerFunction>(
+    ({ currentLocation, nextLocation }) => guardRef.current && currentLocation.pathname !== nextLocation.pathname,
+    []
+  );
+  const blocker = useBlocker(shouldBlock);
 
-    return { storagePath, url: publicUrl ?? "" };
+  const leaveWithDraft = () => {
+    if (user) writeDraft(user.id, templateId, { name, template, savedAt: Date.now() });
+    blocker.proceed?.();
   };
 
+  const restoreDraft = () => {
+    if (!recovery) return;
+    setName(recovery.name);
+    // Drafts written before attachments were a list still get migrated
+    setTemplate(normalizeTemplate(recovery.template));
+    setRecovery(null);
+  };
+
+  const discardDraft = () => {
+    if (user) clearDraft(user.id, templateId);
+    setRecovery(null);
+  };
+
+  const saveState = readOnly
+    ? null
+    : autosaving
+      ? "Saving…"
+      : dirty
+        ? !templateId
+          ? "Not saved yet · draft kept on this device"
+          : online
+            ? "Unsaved changes"
+            : "Offline · draft kept on this device"
+        : lastSavedAt
+          ? `Saved ${formatSavedAgo(now - lastSavedAt)}`
+          : null;
+
   /* --------------------------
      Drag & drop handlers
   -------------------------- */
   const onDropFile = async (acceptedFiles: File[]) => {
     if (!user) return alert("Sign in first");
-    const file = acceptedFiles[0];
-    if (!file) return;
+    if (acceptedFiles.length === 0) return;
     setLoading(true);
     try {
-      let type: "pdf" | "word" | "excel";
-      if (file.type === "application/pdf") type = "pdf";
-      else if (file.type.includes("word") || file.name.endsWith(".docx")) type = "word";
-      else if (file.type.includes("spreadsheet") || file.name.endsWith(".xlsx")) type = "excel";
-      else throw new Error("Unsupported file type");
-
-      const { storagePath, url } = await uploadFile(file, "file-bank");
-      setTemplate(prev => ({ ...prev, attachment: { storagePath, url, type } }));
-      setAnnotations([]);
+      const added: TemplateAttachment[] = [];
+      for (const file of acceptedFiles) {
+        let type: AttachmentType;
+        if (file.type === "application/pdf") type = "pdf";
+        else if (file.type.includes("word") || file.name.endsWith(".docx")) type = "word";
+        else if (file.type.includes("spreadsheet") || file.name.endsWith(".xlsx")) type = "excel";
+        else throw new Error(`Unsupported file type: ${file.name}`);
+
+        const { storagePath, url } = await uploadToFileBank(user.id, file);
+        added.push({ id: uuidv4(), storagePath, url, type, filename: file.name, annotations: [] });
+      }
+      // The first attachment of a template becomes its primary document
+      setTemplate(prev => ({
+        ...prev,
+        attachments: [...(prev.attachments ?? []), ...added],
+        primaryAttachmentId: prev.primaryAttachmentId ?? added[0].id,
+      }));
+      setActiveAttachmentId(added[0].id);
     } catch (err) {
       console.error(err);
       alert(`Failed to upload file: ${err instanceof Error ? err.message : "Unknown error"}`);
@@ -153,7 +390,7 @@ export const TimeTrackerEditor: React.FC<{ templateId?: string }> = ({ templateI
     if (!file) return;
     setLoading(true);
     try {
-      const { storagePath, url } = await uploadFile(file, "file-bank");
+      const { storagePath, url } = await uploadToFileBank(user.id, file);
       setTemplate(prev => ({ ...prev, headerImage: { storagePath, url } }));
     } catch (err) {
       console.error(err);
@@ -163,22 +400,106 @@ export const TimeTrackerEditor: React.FC<{ templateId?: string }> = ({ templateI
     }
   };
 
+  /* --------------------------
+     Export annotated PDF
+  -------------------------- */
+  const exportAnnotatedPdf = async () => {
+    if (!user) return alert("Sign in first");
+    if (activeAttachment?.type !== "pdf") return;
+    setLoading(true);
+    try {
+      let source: Uint8Array = await fetchBytes(activeAttachment.url);
+      // A remembered field mapping fills the form before annotations go on top
+      const { formFieldMapping } = activeAttachment;
+      if (formFieldMapping && Object.keys(formFieldMapping).length > 0) {
+        source = await fillFormFields(source, resolveMappedValues(formFieldMapping, template, name));
+      }
+      const flattened = await flattenAnnotations(source, activeAttachment.annotations, template.headerImage?.url);
+      const docName = attachmentLabel(activeAttachment).replace(/\.pdf$/i, "").replace(/\s+/g, "_");
+      const filename = `${name.replace(/\s+/g, "_") || "time-tracker"}-${docName}-annotated.pdf`;
+      const file = bytesToFile(flattened, filename, "application/pdf");
+      const { storagePath } = await uploadToFileBank(user.id, file);
+      await recordSignatureAudit(
+        activeAttachment.annotations.flatMap(a =>
+          a.signature
+            ? [
+                {
+                  template_id: templateId ?? null,
+                  attachment_id: activeAttachment.id,
+                  annotation_id: a.id,
+                  page_index: a.pageIndex,
+                  signed_by: a.signature.signedBy,
+                  signer_name: a.signature.signerName,
+                  signed_at: a.signature.signedAt,
+                  exported_by: user.id,
+                  exported_by_email: user.email ?? null,
+                  exported_path: storagePath,
+                },
+              ]
+            : []
+        )
+      );
+      setSignaturesKey(k => k + 1);
+      downloadBlob(file, filename);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to export PDF: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveFilledForm = async (bytes: Uint8Array, flattened: boolean) => {
+    if (!user) return alert("Sign in first");
+    const filename = `${name.replace(/\s+/g, "_") || "time-tracker"}-${flattened ? "filled-flat" : "filled"}.pdf`;
+    const file = bytesToFile(bytes, filename, "application/pdf");
+    await uploadToFileBank(user.id, file);
+    downloadBlob(file, filename);
+  };
+
   /* --------------------------
      Save template
   -------------------------- */
   const saveTemplate = async () => {
     if (!user) return alert("Sign in first");
+    if (readOnly) return alert("This timesheet is locked");
     setLoading(true);
     try {
-      const templateWithAnnotations = { ...template, annotations };
-      const payload = { name, template_data: templateWithAnnotations, user_id: user.id };
+      const savedAt = Date.now();
+      const payload = {
+        name,
+        template_data: template,
+        user_id: user.id,
+        updated_at: new Date(savedAt).toISOString(),
+      };
       if (!templateId) {
-        const { error } = await supabase.from("templates").insert(payload);
+        const { data, error } = await supabase
+          .from("templates")
+          .insert({ ...payload, status: "draft" })
+          .select("id")
+          .single();
         if (error) throw error;
+        clearDraft(user.id);
+        snapshotVersion(data.id, name, template);
+        guardRef.current = false;
         alert("Template saved");
+        // Reopen under its own route so later saves update this row instead of inserting again
+        navigate(`/time-tracker/${data.id}`, { replace: true });
       } else {
-        const { error } = await supabase.from("templates").update(payload).eq("id", templateId);
+        await versionServerCopy(templateId);
+        const { data, error } = await supabase
+          .from("templates")
+          .update(payload)
+          .eq("id", templateId)
+          .in("status", EDITABLE_STATUSES)
+          .select("id");
         if (error) throw error;
+        if (!data || data.length === 0) {
+          loadTemplate(templateId);
+          throw new Error("the timesheet was submitted or approved elsewhere and is now locked");
+        }
+        markSaved(snapshot, savedAt);
+        snapshotVersion(templateId, name, template);
         alert("Template updated");
       }
     } catch (err) {
@@ -189,9 +510,215 @@ export const TimeTrackerEditor: React.FC<{ templateId?: string }> = ({ templateI
     }
   };
 
+  /* --------------------------
+     Submit for approval
+  -------------------------- */
+  const submitTemplate = async () => {
+    if (!user || !templateId) return;
+    if (!window.confirm("Submit this timesheet for approval? It will be locked until a reviewer rejects it.")) return;
+    setLoading(true);
+    try {
+      const savedAt = Date.now();
+      await versionServerCopy(templateId);
+      const { data, error } = await supabase
+        .from("templates")
+        .update({ name, template_data: template, updated_at: new Date(savedAt).toISOString() })
+        .eq("id", templateId)
+        .in("status", EDITABLE_STATUSES)
+        .select("id");
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        loadTemplate(templateId);
+        throw new Error("the timesheet was submitted or approved elsewhere and is now locked");
+      }
+      markSaved(snapshot, savedAt);
+      snapshotVersion(templateId, name, template);
+      await changeTemplateStatus(templateId, status, "submitted", user);
+      setStatus("submitted");
+      setHistoryKey(k => k + 1);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to submit: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /* --------------------------
+     Restore a version
+  -------------------------- */
+  const restoreVersion = async (version: TemplateVersionRecord) => {
+    if (!user || !templateId || readOnly) return;
+    if (!window.confirm(`Restore the version from ${new Date(version.created_at).toLocaleString()}? The current state is kept in the history.`)) return;
+    setLoading(true);
+    try {
+      // Keep the saved copy and what is open now, even unsaved, so the restore can itself be undone
+      await versionServerCopy(templateId);
+      await recordTemplateVersion(templateId, user, name, template);
+      const savedAt = await restoreTemplateVersion(version, user);
+      const restored = normalizeTemplate(version.template_data);
+      const restoredSnapshot = templateSnapshot(version.name, restored);
+      setTemplate(restored);
+      setName(version.name);
+      markSaved(restoredSnapshot, savedAt);
+      versionedSnapshotRef.current = restoredSnapshot;
+      setVersionsKey(k => k + 1);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to restore version: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateMeta = (key: keyof TemplateMeta, value: string) => {
+    setTemplate(prev => ({ ...prev, meta: { ...prev.meta, [key]: value } }), `meta:${key}`);
+  };
+
+  /* --------------------------
+     Attachments
+  -------------------------- */
+  const updateAttachments = (update: (list: TemplateAttachment[]) => TemplateAttachment[], mergeKey?: string) =>
+    setTemplate(prev => {
+      const next = update(prev.attachments ?? []);
+      // Removing the primary document hands the role to the first one left
+      const primaryAttachmentId = next.some(a => a.id === prev.primaryAttachmentId) ? prev.primaryAttachmentId : next[0]?.id;
+      return { ...prev, attachments: next, primaryAttachmentId };
+    }, mergeKey);
+
+  const setAnnotations = (update: (annotations: PdfAnnotation[]) => PdfAnnotation[], mergeKey?: string) => {
+    if (!activeAttachment) return;
+    const id = activeAttachment.id;
+    updateAttachments(list => list.map(a => (a.id === id ? { ...a, annotations: update(a.annotations) } : a)), mergeKey);
+  };
+
+  const setFormFieldMapping = (id: string, formFieldMapping: Record<string, string>) =>
+    updateAttachments(list => list.map(a => (a.id === id ? { ...a, formFieldMapping } : a)), `formFieldMapping:${id}`);
+
+  const moveAttachment = (id: string, offset: -1 | 1) =>
+    updateAttachments(list => {
+      const from = list.findIndex(a => a.id === id);
+      const to = from + offset;
+      if (from < 0 || to < 0 || to >= list.length) return list;
+      const next = [...list];
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+    });
+
+  const removeAttachment = (id: string) => {
+    const attachment = attachments.find(a => a.id === id);
+    if (!attachment) return;
+    const lost = attachment.annotations.length > 0 ? ` and its ${attachment.annotations.length} annotation(s)` : "";
+    if (!window.confirm(`Remove ${attachmentLabel(attachment)}${lost} from this template? The file stays in the File Bank.`)) return;
+    updateAttachments(list => list.filter(a => a.id !== id));
+  };
+
+  // Points an attachment at a new File Bank file; the old one is kept as an earlier version
+  const replaceAttachmentFile = (
+    id: string,
+    file: { url: string; storagePath: string },
+    update?: (attachment: TemplateAttachment) => Partial<TemplateAttachment>
+  ) => {
+    const replacedAt = new Date().toISOString();
+    updateAttachments(list =>
+      list.map(a =>
+        a.id === id
+          ? {
+              ...a,
+              ...update?.(a),
+              ...file,
+              previousVersions: [
+                ...(a.previousVersions ?? []),
+                { url: a.url, storagePath: a.storagePath, replacedAt, annotations: a.annotations },
+              ],
+            }
+          : a
+      )
+    );
+  };
+
+  const saveAttachmentEdit = async (attachment: TemplateAttachment, bytes: Uint8Array) => {
+    if (!user) throw new Error("Not signed in");
+    const mime = attachment.type === "word" ? DOCX_MIME : XLSX_MIME;
+    const { storagePath, url } = await uploadToFileBank(user.id, bytesToFile(bytes, attachmentLabel(attachment), mime));
+    replaceAttachmentFile(attachment.id, { url, storagePath });
+  };
+
+  // Annotations follow their pages into the new order and rotation; those on deleted pages are dropped
+  const applyOrganizedPages = async (attachment: TemplateAttachment, result: OrganizerResult, pages: PageRef[]) => {
+    try {
+      // Page sizes are only needed to turn annotations with their pages
+      const sizes = pages.some(p => p.rotation) ? await pdfPageViewSizes(await fetchBytes(attachment.url)) : [];
+      const moves = new Map(pages.map((p, i) => [p.pageIndex, { pageIndex: i, rotation: p.rotation }]));
+      replaceAttachmentFile(attachment.id, { url: result.url, storagePath: result.storagePath }, a => ({
+        annotations: a.annotations.flatMap(an => {
+          const move = moves.get(an.pageIndex);
+          if (!move) return [];
+          const turned = move.rotation && sizes[an.pageIndex] ? rotateAnnotation(an, sizes[an.pageIndex], move.rotation) : an;
+          return [{ ...turned, pageIndex: move.pageIndex }];
+        }),
+      }));
+      setShowOrganizer(false);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to update attachment: ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+  };
+
+  // Swaps an earlier file and its annotations back in; the current ones join the earlier versions so nothing is lost.
+  // Versions saved before annotations were kept with them leave the current annotations in place.
+  const restoreAttachmentFile = (attachment: TemplateAttachment, index: number) => {
+    const chosen = attachment.previousVersions?.[index];
+    if (!chosen) return;
+    const replacedAt = new Date().toISOString();
+    updateAttachments(list =>
+      list.map(a =>
+        a.id === attachment.id
+          ? {
+              ...a,
+              url: chosen.url,
+              storagePath: chosen.storagePath,
+              annotations: chosen.annotations ?? a.annotations,
+              previousVersions: [
+                ...(a.previousVersions ?? []).filter((_, i) => i !== index),
+                { url: a.url, storagePath: a.storagePath, replacedAt, annotations: a.annotations },
+              ],
+            }
+          : a
+      )
+    );
+  };
+
   /* --------------------------
      PDF Editor logic
   -------------------------- */
+  // Arms a stamp of the saved signature; the next click on the page places it
+  const startStamp = (saved: UserSignatureRecord) => {
+    if (!user) return;
+    const signedAt = new Date();
+    const signerName = template.meta?.employeeName?.trim() || user.email || "Unknown";
+    const width = Math.min(DEFAULT_STAMP_WIDTH, saved.width);
+    setPendingStamp({
+      text: signatureDateLine(signerName, signedAt),
+      fontSize: 8,
+      fontFamily: "Arial",
+      fontColor: "#333333",
+      width,
+      signature: {
+        imageData: saved.image_data,
+        height: (saved.height * width) / saved.width,
+        signedBy: user.id,
+        signerName,
+        signedAt: signedAt.toISOString(),
+      },
+    });
+  };
+
+  const openAnnotationEditor = (annotation: PdfAnnotation) => {
+    setEditingAnnotation(annotation);
+    setShowAnnotModal(true);
+  };
+
   const saveAnnotationEdit = (updated: PdfAnnotation) => {
     setAnnotations(prev => prev.map(a => (a.id === updated.id ? updated : a)));
     setEditingAnnotation(null);
@@ -231,25 +758,156 @@ export const TimeTrackerEditor: React.FC<{ templateId?: string }> = ({ templateI
             <Card.Body style={{ padding: "12px" }}>
               {/* Template Name & Save Button */}
               <Row className="align-items-center mb-3 g-2">
-                <Col xs={12} md={6}>
+                <Col xs={12} md={6} className="d-flex align-items-center gap-2">
                   <Form.Control
                     value={name}
                     onChange={e => setName(e.target.value)}
                     placeholder="Template Name"
+                    disabled={readOnly}
                     style={{ background: "#0b0b0b", color: "#fff", border: "1px solid #222" }}
                   />
+                  {templateId && <Badge bg={STATUS_VARIANTS[status]}>{STATUS_LABELS[status]}</Badge>}
+                  {saveState && (
+                    <span style={{ fontSize: 12, color: dirty ? "#ff9800" : "#888", whiteSpace: "nowrap" }}>{saveState}</span>
+                  )}
                 </Col>
-                <Col xs={12} md={6} className="text-md-end">
-                  <Button style={{ ...yellowBtn, width: "100%", maxWidth: "200px" }} onClick={saveTemplate} disabled={loading}>
+                <Col xs={12} md={6} className="text-md-end d-flex gap-2 justify-content-md-end">
+                  {!readOnly && (
+                    <>
+                      <Button variant="outline-light" onClick={history.undo} disabled={!history.canUndo} title="Undo (Ctrl+Z)">
+                        ↶
+                      </Button>
+                      <Button variant="outline-light" onClick={history.redo} disabled={!history.canRedo} title="Redo (Ctrl+Shift+Z)">
+                        ↷
+                      </Button>
+                    </>
+                  )}
+                  {templateId && isOwner && (
+                    <Button
+                      variant="outline-light"
+                      style={{ width: "100%", maxWidth: "200px" }}
+                      onClick={() => setShowNextPeriod(true)}
+                      disabled={loading}
+                    >
+                      ⏭️ Next Period
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline-light"
+                    style={{ width: "100%", maxWidth: "200px" }}
+                    onClick={() => setShowExport(true)}
+                  >
+                    📊 Export
+                  </Button>
+                  {templateId && !readOnly && (
+                    <Button
+                      variant="outline-info"
+                      style={{ width: "100%", maxWidth: "200px" }}
+                      onClick={submitTemplate}
+                      disabled={loading}
+                    >
+                      📤 Submit
+                    </Button>
+                  )}
+                  <Button style={{ ...yellowBtn, width: "100%", maxWidth: "200px" }} onClick={saveTemplate} disabled={loading || readOnly}>
                     {loading ? <Spinner animation="border" size="sm" /> : "Save Template"}
                   </Button>
                 </Col>
               </Row>
 
+              {/* Template Details */}
+              <Row className="mb-3 g-2" data-undo-history>
+                <Col xs={12} md={4}>
+                  <ProjectPicker
+                    value={template.meta?.project ?? ""}
+                    projectId={template.meta?.projectId}
+                    projects={projects}
+                    clients={clients}
+                    onChange={(project, projectId) =>
+                      setTemplate(prev => ({ ...prev, meta: { ...prev.meta, project, projectId } }), "meta:project")
+                    }
+                    disabled={readOnly}
+                    placeholder="Project"
+                    style={{ background: "#0b0b0b", color: "#fff", border: "1px solid #222" }}
+                  />
+                </Col>
+                <Col xs={12} md={4}>
+                  <Form.Control
+                    value={template.meta?.period ?? ""}
+                    onChange={e => updateMeta("period", e.target.value)}
+                    disabled={readOnly}
+                    placeholder="Period (e.g. 2026-01-05 - 2026-01-18)"
+                    style={{ background: "#0b0b0b", color: "#fff", border: "1px solid #222" }}
+                  />
+                </Col>
+                <Col xs={12} md={4}>
+                  <Form.Control
+                    value={template.meta?.employeeName ?? ""}
+                    onChange={e => updateMeta("employeeName", e.target.value)}
+                    disabled={readOnly}
+                    placeholder="Employee Name"
+                    style={{ background: "#0b0b0b", color: "#fff", border: "1px solid #222" }}
+                  />
+                </Col>
+              </Row>
+
+              {/* Time Entries */}
+              <Card className="mb-3" style={{ background: "#171717", border: "1px solid #222", borderRadius: 8 }}>
+                <Card.Body style={{ padding: "12px" }}>
+                  <div className="d-flex justify-content-between align-items-center" style={{ marginBottom: 12 }}>
+                    <h5 style={{ color: "#FFD700", fontWeight: 600, margin: 0 }}>⏱️ Time Entries</h5>
+                    {!readOnly && (
+                      <div className="d-flex align-items-center gap-2">
+                        {templateId ? (
+                          <TimerWidget
+                            target={{
+                              templateId,
+                              templateName: name,
+                              project: template.meta?.project,
+                              tasks: Array.from(new Set(template.rows.map(row => cellText(row, "task")).filter(Boolean))),
+                            }}
+                          />
+                        ) : (
+                          <span style={{ fontSize: 12, color: "#888" }}>Save to use the timer</span>
+                        )}
+                        <Button size="sm" variant="outline-light" onClick={() => setShowImport(true)}>
+                          📥 Import
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  {/* Typing in the grid merges into one undo step; adding or removing rows does not */}
+                  <TimeEntryGrid
+                    rows={template.rows}
+                    onChange={rows => setTemplate(prev => ({ ...prev, rows }), `rows:${rows.length}`)}
+                    readOnly={readOnly}
+                    projects={projects}
+                    clients={clients}
+                  />
+                </Card.Body>
+              </Card>
+
+              <HoursBreakdown
+                rows={template.rows}
+                rules={template.hoursRules}
+                onRulesChange={hoursRules => setTemplate(prev => ({ ...prev, hoursRules }), "hoursRules")}
+                readOnly={readOnly}
+              />
+
               {/* File Upload & Header Image */}
               <Row className="mb-3 g-2">
                 <Col xs={12} lg={8}>
-                  <Dropzone onDrop={onDropFile} multiple={false} accept={{ "application/pdf": [], "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [], "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [] }}>
+                  <AttachmentList
+                    attachments={attachments}
+                    primaryId={template.primaryAttachmentId}
+                    activeId={activeAttachment?.id}
+                    readOnly={readOnly}
+                    onSelect={setActiveAttachmentId}
+                    onMakePrimary={id => setTemplate(prev => ({ ...prev, primaryAttachmentId: id }))}
+                    onMove={moveAttachment}
+                    onRemove={removeAttachment}
+                  />
+                  <Dropzone onDrop={onDropFile} multiple disabled={readOnly} accept={{ "application/pdf": [], [DOCX_MIME]: [], [XLSX_MIME]: [] }}>
                     {({ getRootProps, getInputProps }) => (
                       <div {...getRootProps()} style={{ 
                         background: "#171717", 
@@ -264,18 +922,9 @@ export const TimeTrackerEditor: React.FC<{ templateId?: string }> = ({ templateI
                       }}>
                         <input {...getInputProps()} />
                         <div style={{ textAlign: "center" }}>
-                          {template.attachment ? (
-                            <div>
-                              <div style={{ fontWeight: 700 }}>{template.attachment.type.toUpperCase()}</div>
-                              <div style={{ fontSize: 12, color: "#bbbbbb", wordBreak: "break-all" }}>
-                                {template.attachment.url.length > 50 
-                                  ? `...${template.attachment.url.slice(-50)}` 
-                                  : template.attachment.url}
-                              </div>
-                            </div>
-                          ) : (
-                            <div style={{ color: "#ddd" }}>📎 Drop PDF / Word / Excel here</div>
-                          )}
+                          <div style={{ color: "#ddd" }}>
+                            📎 Drop PDF / Word / Excel here{attachments.length > 0 ? " to add another attachment" : ""}
+                          </div>
                         </div>
                       </div>
                     )}
@@ -283,7 +932,7 @@ export const TimeTrackerEditor: React.FC<{ templateId?: string }> = ({ templateI
                 </Col>
 
                 <Col xs={12} lg={4}>
-                  <Dropzone onDrop={onDropHeaderImage} accept={{ "image/*": [] }} multiple={false}>
+                  <Dropzone onDrop={onDropHeaderImage} accept={{ "image/*": [] }} multiple={false} disabled={readOnly}>
                     {({ getRootProps, getInputProps }) => (
                       <div {...getRootProps()} style={{ 
                         background: "#171717", 
@@ -311,63 +960,181 @@ export const TimeTrackerEditor: React.FC<{ templateId?: string }> = ({ templateI
               </Row>
 
               {/* PDF Viewer */}
-              {template.attachment?.type === "pdf" && (
+              {activeAttachment?.type === "pdf" && (
                 <>
+                  <FormFillPanel
+                    key={`form-${activeAttachment.id}`}
+                    url={activeAttachment.url}
+                    mapping={activeAttachment.formFieldMapping}
+                    template={template}
+                    templateName={name}
+                    onMappingChange={mapping => setFormFieldMapping(activeAttachment.id, mapping)}
+                    onFilled={saveFilledForm}
+                    disabled={loading || readOnly}
+                  />
+                  {!readOnly && (
+                    <div className="d-flex align-items-center gap-2 mb-2 flex-wrap">
+                      <Button
+                        size="sm"
+                        style={yellowBtn}
+                        disabled={!!pendingStamp}
+                        onClick={() => (signature ? startStamp(signature) : setSignaturePad("stamp"))}
+                      >
+                        ✍️ Place Signature
+                      </Button>
+                      <Button size="sm" variant="outline-light" onClick={() => setSignaturePad("edit")}>
+                        {signature ? "Change My Signature" : "Create My Signature"}
+                      </Button>
+                      <Button size="sm" variant="outline-warning" onClick={() => setShowOrganizer(true)}>
+                        🗂️ Organize Pages
+                      </Button>
+                      {pendingStamp && (
+                        <>
+                          <span style={{ color: "#FFD700", fontSize: 13 }}>Click the page where the signature goes</span>
+                          <Button size="sm" variant="outline-secondary" onClick={() => setPendingStamp(null)}>
+                            Cancel
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  )}
                   <div style={{ marginBottom: 8, color: "#4CAF50", fontWeight: 600, fontSize: 14 }}>
-                    📄 Use the PDF toolbar to draw, highlight, or add text annotations
-                  </div>
-                  <div 
-                    ref={pdfContainerRef} 
-                    style={{ 
-                      border: "1px solid #333", 
-                      minHeight: 300,
-                      height: "60vh",
-                      maxHeight: 600,
-                      overflow: "hidden",
-                      position: "relative",
-                      background: "#1a1a1a",
-                      borderRadius: 8
-                    }} 
-                  >
-                    <iframe 
-                      ref={iframeRef}
-                      src={template.attachment.url} 
-                      width="100%" 
-                      height="100%" 
-                      title="PDF Viewer" 
-                      style={{ border: "none", display: "block" }}
-                    />
+                    📄 Click the page to add text, drag to move, drag the corner to resize, double-click to edit
                   </div>
+                  <PdfAnnotationLayer
+                    key={activeAttachment.id}
+                    url={activeAttachment.url}
+                    annotations={activeAttachment.annotations}
+                    onChange={next => setAnnotations(() => next, `annotations:${activeAttachment.id}:${next.length}`)}
+                    onEdit={openAnnotationEditor}
+                    readOnly={readOnly}
+                    pendingStamp={pendingStamp}
+                    onStampPlaced={() => setPendingStamp(null)}
+                  />
+                  <AttachmentVersions
+                    attachment={activeAttachment}
+                    readOnly={readOnly}
+                    onRestore={index => restoreAttachmentFile(activeAttachment, index)}
+                  />
                 </>
               )}
 
-              {/* Download Button */}
-              {template.attachment?.type === "pdf" && (
+              {/* Word / Excel editors */}
+              {activeAttachment && activeAttachment.type !== "pdf" && (
+                <div style={{ marginBottom: 16 }}>
+                  <div style={{ marginBottom: 8, color: "#4CAF50", fontWeight: 600, fontSize: 14 }}>
+                    {activeAttachment.type === "excel" ? "📊" : "📝"} {attachmentLabel(activeAttachment)}
+                    {!readOnly && " — saving stores a new version of this attachment"}
+                  </div>
+                  {activeAttachment.type === "excel" ? (
+                    <ExcelEditor
+                      key={activeAttachment.url}
+                      url={activeAttachment.url}
+                      readOnly={readOnly}
+                      onSave={bytes => saveAttachmentEdit(activeAttachment, bytes)}
+                    />
+                  ) : (
+                    <WordEditor
+                      key={activeAttachment.url}
+                      url={activeAttachment.url}
+                      readOnly={readOnly}
+                      onSave={bytes => saveAttachmentEdit(activeAttachment, bytes)}
+                    />
+                  )}
+                  <AttachmentVersions
+                    attachment={activeAttachment}
+                    readOnly={readOnly}
+                    onRestore={index => restoreAttachmentFile(activeAttachment, index)}
+                  />
+                </div>
+              )}
+
+              {/* Export Button */}
+              {activeAttachment?.type === "pdf" && (
                 <div className="mt-3">
                   <div style={{ color: "#FFD700", fontSize: 14, marginBottom: 8 }}>
-                    ℹ️ After editing, download the PDF to save your changes
+                    ℹ️ Exporting writes your annotations and header image into a new PDF saved to the File Bank
                   </div>
                   <Button 
-                    onClick={async () => {
-                      if (!template.attachment?.url) return;
-                      const link = document.createElement("a");
-                      link.href = template.attachment.url;
-                      link.download = `${name.replace(/\s+/g, "_") || "time-tracker"}.pdf`;
-                      document.body.appendChild(link);
-                      link.click();
-                      link.remove();
-                    }} 
+                    onClick={exportAnnotatedPdf}
+                    disabled={loading}
                     style={{ ...yellowBtn, width: "100%", maxWidth: "300px" }}
                   >
-                    💾 Download PDF
+                    💾 Export Annotated PDF
                   </Button>
                 </div>
               )}
+
+              {templateId && <TemplateExpenses templateId={templateId} templateName={name} />}
+              {templateId && <StatusHistory templateId={templateId} refreshKey={historyKey} />}
+              {templateId && <SignatureAudit templateId={templateId} refreshKey={signaturesKey} />}
+              {templateId && (
+                <VersionHistory
+                  templateId={templateId}
+                  refreshKey={versionsKey}
+                  current={{ name, data: template }}
+                  readOnly={readOnly}
+                  onRestore={restoreVersion}
+                />
+              )}
             </Card.Body>
           </Card>
         </Container>
       </div>
 
+      {showNextPeriod && (
+        <NextPeriodModal
+          show
+          onHide={() => setShowNextPeriod(false)}
+          template={template}
+          name={name}
+          onGenerated={id => {
+            setShowNextPeriod(false);
+            navigate(`/time-tracker/${id}`);
+          }}
+        />
+      )}
+
+      {showExport && (
+        <ExportModal show onHide={() => setShowExport(false)} template={template} name={name} />
+      )}
+
+      {showImport && (
+        <ImportEntriesModal
+          show
+          onHide={() => setShowImport(false)}
+          template={template}
+          onImport={entries => setTemplate(prev => ({ ...prev, rows: mergeImportedRows(prev.rows, entries) }))}
+        />
+      )}
+
+      {/* Page Organizer */}
+      {showOrganizer && user && activeAttachment?.type === "pdf" && (
+        <PdfOrganizer
+          show
+          onHide={() => setShowOrganizer(false)}
+          userId={user.id}
+          sources={organizerSources}
+          saveLabel="Save as New Version"
+          onSaved={(result, pages) => applyOrganizedPages(activeAttachment, result, pages)}
+        />
+      )}
+
+      {/* Signature Pad */}
+      {signaturePad && user && (
+        <SignaturePadModal
+          show
+          onHide={() => setSignaturePad(null)}
+          userId={user.id}
+          current={signature}
+          onSaved={saved => {
+            setSignature(saved);
+            if (signaturePad === "stamp") startStamp(saved);
+            setSignaturePad(null);
+          }}
+        />
+      )}
+
       {/* Annotation Modal */}
       <Modal show={showAnnotModal} onHide={() => setShowAnnotModal(false)} centered>
         <Modal.Header closeButton style={{ background: "#1a1a1a", borderColor: "#333", color: "#fff" }}>
@@ -376,13 +1143,24 @@ export const TimeTrackerEditor: React.FC<{ templateId?: string }> = ({ templateI
         <Modal.Body style={{ background: "#0f0f10", color: "#fff" }}>
           {editingAnnotation && (
             <>
+              {editingAnnotation.signature && (
+                <div className="mb-3">
+                  <img
+                    src={editingAnnotation.signature.imageData}
+                    alt="Signature"
+                    style={{ maxWidth: "100%", maxHeight: 80, background: "#fff", padding: 6, borderRadius: 4 }}
+                  />
+                </div>
+              )}
               <Form.Group className="mb-3">
-                <Form.Label>Text</Form.Label>
+                <Form.Label>{editingAnnotation.signature ? "Date Stamp" : "Text"}</Form.Label>
                 <Form.Control
                   as="textarea"
                   rows={3}
                   value={editingAnnotation.text}
                   onChange={e => setEditingAnnotation({ ...editingAnnotation, text: e.target.value })}
+                  // The date line records when the signature was placed and must match the audit trail
+                  readOnly={!!editingAnnotation.signature}
                   style={{ background: "#0b0b0b", color: "#fff", border: "1px solid #333" }}
                 />
               </Form.Group>
@@ -478,6 +1256,42 @@ export const TimeTrackerEditor: React.FC<{ templateId?: string }> = ({ templateI
           <Button style={yellowBtn} onClick={() => editingAnnotation && saveAnnotationEdit(editingAnnotation)}>Save</Button>
         </Modal.Footer>
       </Modal>
+
+      {/* Draft Recovery */}
+      <Modal show={!!recovery} onHide={discardDraft} centered>
+        <Modal.Header closeButton style={{ background: "#1a1a1a", borderColor: "#333", color: "#fff" }}>
+          <Modal.Title>Recover Unsaved Changes?</Modal.Title>
+        </Modal.Header>
+        <Modal.Body style={{ background: "#0f0f10", color: "#fff" }}>
+          {recovery && (
+            <>
+              This device has a draft of <strong>{recovery.name}</strong> from {new Date(recovery.savedAt).toLocaleString()}
+              {templateId ? " that is newer than the saved copy." : " that was never saved."}
+            </>
+          )}
+        </Modal.Body>
+        <Modal.Footer style={{ background: "#1a1a1a", borderColor: "#333" }}>
+          <Button variant="secondary" onClick={discardDraft}>Discard Draft</Button>
+          <Button style={yellowBtn} onClick={restoreDraft}>Restore Draft</Button>
+        </Modal.Footer>
+      </Modal>
+
+      {/* Unsaved Changes Guard */}
+      <Modal show={blocker.state === "blocked"} onHide={() => blocker.reset?.()} centered>
+        <Modal.Header closeButton style={{ background: "#1a1a1a", borderColor: "#333", color: "#fff" }}>
+          <Modal.Title>Unsaved Changes</Modal.Title>
+        </Modal.Header>
+        <Modal.Body style={{ background: "#0f0f10", color: "#fff" }}>
+          {templateId
+            ? "Some changes have not reached the server yet. "
+            : "This timesheet has not been saved yet. "}
+          If you leave now they are kept as a draft on this device and offered again when you come back.
+        </Modal.Body>
+        <Modal.Footer style={{ background: "#1a1a1a", borderColor: "#333" }}>
+          <Button variant="secondary" onClick={leaveWithDraft}>Leave</Button>
+          <Button style={yellowBtn} onClick={() => blocker.reset?.()}>Stay</Button>
+        </Modal.Footer>
+      </Modal>
     </>
   );
 };
\ No newline at end of file
@@ -0,0 +1,151 @@
+// src/components/Editor/VersionHistory.tsx
+import React, { useEffect, useState } from "react";
+import { Badge, Button, Card, Form, ListGroup } from "react-bootstrap";
+import { loadTemplateVersions } from "../../api/templateVersions";
+import type { TemplateVersionRecord } from "../../api/templateVersions";
+import { normalizeTemplate } from "../../utils/templateData";
+import { diffTemplates, isEmptyDiff } from "../../utils/templateDiff";
+import type { FieldChange, ItemDiff, TemplateDiff, TemplateVersionLike } from "../../utils/templateDiff";
+
+interface VersionHistoryProps {
+  templateId: string;
+  // Bumped by the parent after a save so the list reloads
+  refreshKey?: number;
+  // What the editor holds right now, for "compare with current"
+  current: TemplateVersionLike;
+  readOnly?: boolean;
+  onRestore: (version: TemplateVersionRecord) => void;
+}
+
+const KIND_COLORS: Record<ItemDiff["kind"], string> = {
+  added: "#28a745",
+  removed: "#dc3545",
+  changed: "#ff9800",
+};
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString() + " " + date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+};
+
+const asVersion = (v: TemplateVersionRecord): TemplateVersionLike => ({ name: v.name, data: normalizeTemplate(v.template_data) });
+
+const FieldChanges: React.FC<{ changes: FieldChange[] }> = ({ changes }) => (
+  <div style={{ paddingLeft: 12 }}>
+    {changes.map(c => (
+      <div key={c.field} style={{ color: "#bbb" }}>
+        {c.field}: <span style={{ color: "#dc3545", textDecoration: "line-through" }}>{c.before || "—"}</span> →{" "}
+        <span style={{ color: "#28a745" }}>{c.after || "—"}</span>
+      </div>
+    ))}
+  </div>
+);
+
+const ItemChanges: React.FC<{ title: string; items: ItemDiff[] }> = ({ title, items }) =>
+  items.length === 0 ? null : (
+    <div style={{ marginTop: 6 }}>
+      <div style={{ color: "#FFD700", fontWeight: 600 }}>{title}</div>
+      {items.map(item => (
+        <div key={`${item.kind}-${item.id}`}>
+          <span style={{ color: KIND_COLORS[item.kind] }}>
+            {item.kind === "added" ? "+" : item.kind === "removed" ? "−" : "~"} {item.label}
+          </span>
+          {item.changes.length > 0 && <FieldChanges changes={item.changes} />}
+        </div>
+      ))}
+    </div>
+  );
+
+const DiffView: React.FC<{ diff: TemplateDiff }> = ({ diff }) => {
+  if (isEmptyDiff(diff)) return <div style={{ color: "#888" }}>No differences</div>;
+  const details = [...(diff.name ? [diff.name] : []), ...diff.meta];
+  return (
+    <div style={{ fontSize: 12 }}>
+      {details.length > 0 && (
+        <div>
+          <div style={{ color: "#FFD700", fontWeight: 600 }}>Details</div>
+          <FieldChanges changes={details} />
+        </div>
+      )}
+      <ItemChanges title="Rows" items={diff.rows} />
+      <ItemChanges title="Annotations" items={diff.annotations} />
+      {diff.other.length > 0 && (
+        <div style={{ marginTop: 6, color: "#ff9800" }}>Also changed: {diff.other.join(", ")}</div>
+      )}
+    </div>
+  );
+};
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ templateId, refreshKey = 0, current, readOnly = false, onRestore }) => {
+  const [versions, setVersions] = useState<TemplateVersionRecord[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [againstCurrent, setAgainstCurrent] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadTemplateVersions(templateId)
+      .then(records => {
+        if (!cancelled) setVersions(records);
+      })
+      .catch(err => console.error(err));
+    return () => {
+      cancelled = true;
+    };
+  }, [templateId, refreshKey]);
+
+  if (versions.length === 0) return null;
+
+  // Each version is compared with the one before it (what that save changed), or with the editor
+  const diffFor = (index: number) => {
+    const version = asVersion(versions[index]);
+    if (againstCurrent) return diffTemplates(version, current);
+    const previous = versions[index + 1];
+    return diffTemplates(previous ? asVersion(previous) : null, version);
+  };
+
+  return (
+    <Card className="mt-3" style={{ background: "#171717", border: "1px solid #222", borderRadius: 8, color: "#fff" }}>
+      <Card.Body style={{ padding: "12px" }}>
+        <div className="d-flex justify-content-between align-items-center flex-wrap gap-2" style={{ marginBottom: 12 }}>
+          <h5 style={{ color: "#FFD700", fontWeight: 600, margin: 0 }}>🕘 Version History</h5>
+          <Form.Check
+            type="switch"
+            id="versions-against-current"
+            label="Compare with current"
+            checked={againstCurrent}
+            onChange={e => setAgainstCurrent(e.target.checked)}
+            style={{ fontSize: 13, color: "#bbb" }}
+          />
+        </div>
+        <ListGroup variant="flush">
+          {versions.map((v, index) => (
+            <ListGroup.Item key={v.id} style={{ background: "#0b0b0b", color: "#e0e0e0", border: "1px solid #222", marginBottom: 6, borderRadius: 6 }}>
+              <div className="d-flex align-items-center gap-2 flex-wrap" style={{ fontSize: 13 }}>
+                {index === 0 && <Badge bg="secondary">Latest</Badge>}
+                <span>{v.summary}</span>
+                <span style={{ color: "#888" }}>
+                  by {v.saved_by_email ?? "unknown"} • {formatDate(v.created_at)}
+                </span>
+                <div className="ms-auto d-flex gap-2">
+                  <Button size="sm" variant="outline-light" onClick={() => setOpenId(openId === v.id ? null : v.id)}>
+                    {openId === v.id ? "Hide" : "Diff"}
+                  </Button>
+                  {!readOnly && (
+                    <Button size="sm" variant="outline-warning" onClick={() => onRestore(v)}>
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {openId === v.id && (
+                <div style={{ marginTop: 8, paddingTop: 8, borderTop: "1px solid #222" }}>
+                  <DiffView diff={diffFor(index)} />
+                </div>
+              )}
+            </ListGroup.Item>
+          ))}
+        </ListGroup>
+      </Card.Body>
+    </Card>
+  );
+};
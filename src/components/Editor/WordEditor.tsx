@@ -1,40 +1,83 @@
-import React, { useState } from "react";
-import { Document, Packer, Paragraph, TextRun } from "docx";
-import { saveAs } from "file-saver";
+import React, { useEffect, useState } from "react";
+import { Alert, Button, Form, Spinner } from "react-bootstrap";
+import { buildDocxFromParagraphs, readDocxParagraphs } from "../../utils/docxText";
 
 interface WordEditorProps {
+  // Existing document to open; without it the editor starts empty
   url?: string;
-  onSave: (docBytes: Uint8Array) => void;
+  onSave: (docBytes: Uint8Array) => void | Promise<void>;
+  readOnly?: boolean;
 }
 
-export const WordEditor: React.FC<WordEditorProps> = ({ onSave }) => {
+export const WordEditor: React.FC<WordEditorProps> = ({ url, onSave, readOnly = false }) => {
   const [text, setText] = useState("");
+  const [loading, setLoading] = useState(!!url);
+  const [error, setError] = useState<string | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
 
-  const addTextToWord = async () => {
-    const doc = new Document({
-      sections: [
-        {
-          properties: {},
-          children: [new Paragraph({ children: [new TextRun(text)] })],
-        },
-      ],
-    });
+  useEffect(() => {
+    if (!url) return;
+    let cancelled = false;
+    fetch(url)
+      .then(res => {
+        if (!res.ok) throw new Error(`Failed to fetch document: ${res.status}`);
+        return res.arrayBuffer();
+      })
+      .then(readDocxParagraphs)
+      .then(paragraphs => {
+        if (!cancelled) setText(paragraphs.join("\n"));
+      })
+      .catch(err => {
+        console.error(err);
+        if (!cancelled) setError(err instanceof Error ? err.message : "Unknown error");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
 
-    const blob = await Packer.toBlob(doc);
-    onSave(await blob.arrayBuffer().then((b: ArrayBuffer) => new Uint8Array(b)));
-    saveAs(blob, "edited.docx");
+  const saveWord = async () => {
+    setSaving(true);
+    try {
+      await onSave(await buildDocxFromParagraphs(text.split("\n")));
+      setDirty(false);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to save document: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setSaving(false);
+    }
   };
 
+  if (loading) return <div className="text-center p-4"><Spinner animation="border" variant="warning" /></div>;
+  if (error) return <Alert variant="danger">Could not open the document: {error}</Alert>;
+
   return (
     <div>
-      <h4>Word Editor</h4>
-      <textarea
+      <Form.Control
+        as="textarea"
+        rows={14}
         value={text}
-        onChange={(e) => setText(e.target.value)}
-        placeholder="Add text to Word"
-        style={{ width: "100%", height: 100 }}
+        onChange={e => {
+          setText(e.target.value);
+          setDirty(true);
+        }}
+        disabled={readOnly}
+        placeholder="Document text, one paragraph per line"
+        style={{ background: "#0b0b0b", color: "#fff", border: "1px solid #333", fontFamily: "Calibri, Arial, sans-serif" }}
       />
-      <button onClick={addTextToWord}>Add Text & Save</button>
+      {!readOnly && (
+        <div className="d-flex align-items-center gap-2 mt-2">
+          <Button size="sm" variant="warning" onClick={saveWord} disabled={!dirty || saving}>
+            {saving ? <Spinner animation="border" size="sm" /> : "Save Document"}
+          </Button>
+          <span style={{ fontSize: 12, color: "#888" }}>Saved as plain paragraphs; formatting of the original is not kept</span>
+        </div>
+      )}
     </div>
   );
 };
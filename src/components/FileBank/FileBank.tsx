@@ -1,7 +1,10 @@
 import React, { useCallback, useEffect, useState } from 'react';
 import { supabase } from '../../api/supabaseClient';
+import { fileBankPath, signedFileBankUrl } from '../../api/fileBank';
 import { useAuth } from '../../contexts/AuthContext';
 import { Button, ListGroup, Card, Container, Row, Col, Form } from 'react-bootstrap';
+import { PdfOrganizer } from './PdfOrganizer';
+import type { OrganizerSource } from './PdfOrganizer';
 
 interface FileRecord {
   id: string;
@@ -13,11 +16,19 @@ interface FileRecord {
   created_at: string;
 }
 
+const isPdf = (f: FileRecord) => f.content_type === 'application/pdf' || /\.pdf$/i.test(f.filename);
+
+// Organizer sessions can run a while, so its links outlive the default minute
+const ORGANIZER_LINK_SECONDS = 15 * 60;
+
 export const FileBank: React.FC = () => {
   const { user } = useAuth();
   const [files, setFiles] = useState<FileRecord[]>([]);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
+  // PDFs ticked for merging, in the order they were ticked
+  const [mergeIds, setMergeIds] = useState<string[]>([]);
+  const [organizing, setOrganizing] = useState<OrganizerSource[] | null>(null);
 
   const loadFiles = useCallback(async () => {
     if (!user) return;
@@ -55,7 +66,7 @@ export const FileBank: React.FC = () => {
     if (!selectedFile || !user) return;
 
     setUploading(true);
-    const path = `file-bank/${user.id}/${Date.now()}-${selectedFile.name}`;
+    const path = fileBankPath(user.id, selectedFile.name);
 
     const { error: uploadErr } = await supabase.storage
       .from('file-bank')
@@ -100,6 +111,21 @@ export const FileBank: React.FC = () => {
     link.remove();
   };
 
+  const toggleMerge = (id: string) =>
+    setMergeIds(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+
+  const openOrganizer = async (records: FileRecord[]) => {
+    try {
+      const sources = await Promise.all(
+        records.map(async f => ({ name: f.filename, url: await signedFileBankUrl(f.storage_path, ORGANIZER_LINK_SECONDS) }))
+      );
+      setOrganizing(sources);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to open PDF: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return bytes + ' B';
     if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(2) + ' KB';
@@ -186,9 +212,26 @@ export const FileBank: React.FC = () => {
               <Col xs={12}>
                 <Card style={{ background: '#171717', border: '1px solid #222', borderRadius: 8 }}>
                   <Card.Body style={{ padding: '12px' }}>
-                    <h5 style={{ color: '#FFD700', fontWeight: 600, marginBottom: 12 }}>
-                      Your Files ({files.length})
-                    </h5>
+                    <div className="d-flex align-items-center gap-2 flex-wrap" style={{ marginBottom: 12 }}>
+                      <h5 style={{ color: '#FFD700', fontWeight: 600, marginBottom: 0 }}>
+                        Your Files ({files.length})
+                      </h5>
+                      {mergeIds.length > 0 && (
+                        <div className="ms-auto d-flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="warning"
+                            disabled={mergeIds.length < 2}
+                            onClick={() => openOrganizer(mergeIds.flatMap(id => files.filter(f => f.id === id)))}
+                          >
+                            🗂️ Merge {mergeIds.length} PDFs
+                          </Button>
+                          <Button size="sm" variant="outline-secondary" onClick={() => setMergeIds([])}>
+                            Clear
+                          </Button>
+                        </div>
+                      )}
+                    </div>
                     {files.length === 0 ? (
                       <div style={{ textAlign: 'center', padding: '40px 20px', color: '#666' }}>
                         <div style={{ fontSize: 48, marginBottom: 12 }}>📂</div>
@@ -210,14 +253,38 @@ export const FileBank: React.FC = () => {
                           >
                             <Row className="align-items-center g-2">
                               <Col xs={12} md={6}>
-                                <div style={{ fontWeight: 600, marginBottom: 4, wordBreak: 'break-word' }}>
-                                  📄 {f.filename}
+                                <div className="d-flex align-items-center gap-2" style={{ fontWeight: 600, marginBottom: 4, wordBreak: 'break-word' }}>
+                                  {isPdf(f) && (
+                                    <Form.Check
+                                      type="checkbox"
+                                      checked={mergeIds.includes(f.id)}
+                                      onChange={() => toggleMerge(f.id)}
+                                      title="Select for merging"
+                                      aria-label={`Select ${f.filename} for merging`}
+                                    />
+                                  )}
+                                  <span>
+                                    📄 {f.filename}
+                                    {mergeIds.includes(f.id) && (
+                                      <span style={{ color: '#FFD700', marginLeft: 6 }}>#{mergeIds.indexOf(f.id) + 1}</span>
+                                    )}
+                                  </span>
                                 </div>
                                 <div style={{ fontSize: 12, color: '#888' }}>
                                   {formatFileSize(f.size)} • {formatDate(f.created_at)}
                                 </div>
                               </Col>
                               <Col xs={12} md={6} className="text-md-end">
+                                {isPdf(f) && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline-warning"
+                                    onClick={() => openOrganizer([f])}
+                                    style={{ marginRight: 8, fontWeight: 600 }}
+                                  >
+                                    🗂️ Pages
+                                  </Button>
+                                )}
                                 <Button
                                   size="sm"
                                   onClick={() => downloadFile(f.storage_path, f.filename)}
@@ -245,6 +312,20 @@ export const FileBank: React.FC = () => {
           </Card.Body>
         </Card>
       </Container>
+
+      {organizing && user && (
+        <PdfOrganizer
+          show
+          onHide={() => {
+            setOrganizing(null);
+            // Saves and extracts both add files
+            loadFiles();
+          }}
+          userId={user.id}
+          sources={organizing}
+          onSaved={() => setMergeIds([])}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
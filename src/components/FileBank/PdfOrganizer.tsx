@@ -0,0 +1,248 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Alert, Button, Form, Modal, Spinner } from 'react-bootstrap';
+import { bytesToFile, uploadToFileBank } from '../../api/fileBank';
+import { fetchBytes } from '../../utils/flattenPdf';
+import { buildPdfFromPages, normalizeRotation, parsePageRanges } from '../../utils/pdfPages';
+import type { PageRef } from '../../utils/pdfPages';
+import { loadPdfDocument, queuePdfPageRender } from '../../utils/pdfRender';
+import type { PDFDocumentProxy } from '../../utils/pdfRender';
+
+export type OrganizerSource = { name: string; url: string };
+
+export type OrganizerResult = { storagePath: string; url: string; filename: string };
+
+interface PdfOrganizerProps {
+  show: boolean;
+  onHide: () => void;
+  userId: string;
+  // Files to work on; several are merged in this order
+  sources: OrganizerSource[];
+  // Called after the arranged document is saved (not after extracts), with the page order it was built from
+  onSaved?: (result: OrganizerResult, pages: PageRef[]) => void;
+  saveLabel?: string;
+}
+
+const THUMB_ZOOM = 0.2;
+const THUMB_BOX = 150;
+
+const inputStyle: React.CSSProperties = { background: '#0b0b0b', color: '#fff', border: '1px solid #333' };
+
+const smallBtn: React.CSSProperties = { padding: '0 6px', lineHeight: 1.4 };
+
+const pageKey = (ref: PageRef) => `${ref.source}:${ref.pageIndex}`;
+
+const baseName = (name: string) => name.replace(/\.pdf$/i, '').replace(/\s+/g, '_');
+
+const PageThumbnail: React.FC<{ doc: PDFDocumentProxy; pageIndex: number; rotation: number }> = ({ doc, pageIndex, rotation }) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    const render = queuePdfPageRender(doc, pageIndex, canvasRef.current, THUMB_ZOOM);
+    render.promise.catch(err => {
+      if (err?.name !== 'RenderingCancelledException') console.error(err);
+    });
+    return render.cancel;
+  }, [doc, pageIndex]);
+
+  return (
+    <div style={{ width: THUMB_BOX, height: THUMB_BOX, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+      <canvas
+        ref={canvasRef}
+        style={{ background: '#fff', maxWidth: THUMB_BOX, maxHeight: THUMB_BOX, transform: `rotate(${rotation}deg)`, transition: 'transform 0.15s' }}
+      />
+    </div>
+  );
+};
+
+export const PdfOrganizer: React.FC<PdfOrganizerProps> = ({ show, onHide, userId, sources, onSaved, saveLabel = 'Save to File Bank' }) => {
+  const dragFrom = useRef<number | null>(null);
+  const [bytes, setBytes] = useState<Uint8Array[]>([]);
+  const [docs, setDocs] = useState<PDFDocumentProxy[]>([]);
+  const [pages, setPages] = useState<PageRef[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [filename, setFilename] = useState(() =>
+    sources.length === 1 ? `${baseName(sources[0].name)}-organized.pdf` : `merged-${sources.length}-files.pdf`
+  );
+  const [ranges, setRanges] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  /* --------------------------
+     Load sources
+  -------------------------- */
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy[] = [];
+    Promise.all(sources.map(s => fetchBytes(s.url)))
+      .then(async data => {
+        loaded = await Promise.all(data.map(d => loadPdfDocument(d)));
+        if (cancelled) return loaded.forEach(d => d.destroy());
+        setBytes(data);
+        setDocs(loaded);
+        setPages(loaded.flatMap((d, source) => Array.from({ length: d.numPages }, (_, pageIndex) => ({ source, pageIndex, rotation: 0 }))));
+      })
+      .catch(err => {
+        console.error(err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error');
+      });
+    return () => {
+      cancelled = true;
+      loaded.forEach(d => d.destroy());
+    };
+  }, [sources]);
+
+  /* --------------------------
+     Page operations
+  -------------------------- */
+  const movePage = (from: number, to: number) => {
+    if (from === to) return;
+    setPages(prev => {
+      const next = [...prev];
+      const [page] = next.splice(from, 1);
+      next.splice(to, 0, page);
+      return next;
+    });
+  };
+
+  const rotatePage = (index: number, by: number) =>
+    setPages(prev => prev.map((p, i) => (i === index ? { ...p, rotation: normalizeRotation(p.rotation + by) } : p)));
+
+  const deletePage = (index: number) => setPages(prev => prev.filter((_, i) => i !== index));
+
+  /* --------------------------
+     Save
+  -------------------------- */
+  const saveFile = async (refs: PageRef[], name: string) => {
+    const pdf = await buildPdfFromPages(bytes, refs);
+    const finalName = /\.pdf$/i.test(name) ? name : `${name}.pdf`;
+    const { storagePath, url } = await uploadToFileBank(userId, bytesToFile(pdf, finalName, 'application/pdf'));
+    return { storagePath, url, filename: finalName };
+  };
+
+  const saveArranged = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const result = await saveFile(pages, filename.trim() || 'organized.pdf');
+      setMessage(`Saved ${result.filename} to the File Bank`);
+      onSaved?.(result, pages);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to save PDF: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Ranges refer to positions in the current arrangement, as numbered under the thumbnails
+  const extractRanges = async () => {
+    let positions: number[];
+    try {
+      positions = parsePageRanges(ranges, pages.length);
+    } catch (err) {
+      return alert(err instanceof Error ? err.message : 'Invalid page range');
+    }
+    setBusy(true);
+    setMessage(null);
+    try {
+      const suffix = ranges.replace(/\s+/g, '').replace(/,/g, '_');
+      const result = await saveFile(
+        positions.map(i => pages[i]),
+        `${baseName(filename) || 'document'}-pages-${suffix}.pdf`
+      );
+      setMessage(`Saved ${result.filename} to the File Bank`);
+      setRanges('');
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to extract pages: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const loading = docs.length === 0 && !error;
+
+  return (
+    <Modal show={show} onHide={onHide} size="xl" centered>
+      <Modal.Header closeButton style={{ background: '#1a1a1a', borderColor: '#333', color: '#fff' }}>
+        <Modal.Title>🗂️ Organize Pages</Modal.Title>
+      </Modal.Header>
+      <Modal.Body style={{ background: '#0f0f10', color: '#fff' }}>
+        {error && <Alert variant="danger">Could not open the PDF: {error}</Alert>}
+        {loading && (
+          <div className="text-center p-4">
+            <Spinner animation="border" variant="warning" />
+          </div>
+        )}
+        {message && <Alert variant="success" onClose={() => setMessage(null)} dismissible>{message}</Alert>}
+
+        {docs.length > 0 && (
+          <>
+            <div style={{ color: '#aaa', fontSize: 13, marginBottom: 8 }}>
+              {pages.length} page{pages.length === 1 ? '' : 's'}
+              {sources.length > 1 && ` from ${sources.length} files`} • Drag thumbnails to reorder
+            </div>
+            <div
+              className="d-flex flex-wrap gap-2"
+              style={{ maxHeight: '55vh', overflowY: 'auto', padding: 8, background: '#1a1a1a', borderRadius: 8, border: '1px solid #333' }}
+            >
+              {pages.map((ref, index) => (
+                <div
+                  key={pageKey(ref)}
+                  draggable
+                  onDragStart={() => (dragFrom.current = index)}
+                  onDragOver={e => e.preventDefault()}
+                  onDrop={e => {
+                    e.preventDefault();
+                    if (dragFrom.current !== null) movePage(dragFrom.current, index);
+                    dragFrom.current = null;
+                  }}
+                  style={{ background: '#0b0b0b', border: '1px solid #333', borderRadius: 6, padding: 6, cursor: 'grab' }}
+                >
+                  <PageThumbnail doc={docs[ref.source]} pageIndex={ref.pageIndex} rotation={ref.rotation} />
+                  <div className="d-flex align-items-center gap-1 mt-1" style={{ fontSize: 12 }}>
+                    <span style={{ color: '#FFD700', fontWeight: 600 }}>{index + 1}</span>
+                    {sources.length > 1 && (
+                      <span style={{ color: '#888', maxWidth: 60, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={sources[ref.source].name}>
+                        {sources[ref.source].name}
+                      </span>
+                    )}
+                    <div className="ms-auto d-flex gap-1">
+                      <Button size="sm" variant="outline-light" style={smallBtn} title="Rotate left" onClick={() => rotatePage(index, -90)}>
+                        ⟲
+                      </Button>
+                      <Button size="sm" variant="outline-light" style={smallBtn} title="Rotate right" onClick={() => rotatePage(index, 90)}>
+                        ⟳
+                      </Button>
+                      <Button size="sm" variant="outline-danger" style={smallBtn} title="Delete page" disabled={pages.length === 1} onClick={() => deletePage(index)}>
+                        ✕
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="d-flex align-items-end gap-2 flex-wrap mt-3">
+              <Form.Group>
+                <Form.Label style={{ fontSize: 13, marginBottom: 2 }}>Extract pages to a new file</Form.Label>
+                <Form.Control size="sm" value={ranges} onChange={e => setRanges(e.target.value)} placeholder="e.g. 1-3, 5" style={{ ...inputStyle, width: 180 }} />
+              </Form.Group>
+              <Button size="sm" variant="outline-warning" onClick={extractRanges} disabled={busy || !ranges.trim()}>
+                Extract
+              </Button>
+            </div>
+          </>
+        )}
+      </Modal.Body>
+      <Modal.Footer style={{ background: '#1a1a1a', borderColor: '#333' }}>
+        <Form.Control size="sm" value={filename} onChange={e => setFilename(e.target.value)} style={{ ...inputStyle, maxWidth: 320 }} />
+        <Button variant="secondary" onClick={onHide}>Close</Button>
+        <Button variant="warning" onClick={saveArranged} disabled={busy || pages.length === 0}>
+          {busy ? <Spinner animation="border" size="sm" /> : saveLabel}
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
@@ -3,6 +3,7 @@ import React from "react";
 import { Navbar, Nav, Container, Button } from "react-bootstrap";
 import { Link } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
+import { TimerWidget } from "./TimerWidget";
 import "./Navbar.css";
 
 export const DashboardNavbar: React.FC = () => {
@@ -16,8 +17,17 @@ export const DashboardNavbar: React.FC = () => {
         <Navbar.Collapse id="basic-navbar-nav">
           <Nav className="me-auto">
             <Nav.Link as={Link} to="/time-tracker" className="nav-link-custom">Time Tracker</Nav.Link>
+            <Nav.Link as={Link} to="/calendar" className="nav-link-custom">Calendar</Nav.Link>
+            <Nav.Link as={Link} to="/leave" className="nav-link-custom">Leave</Nav.Link>
+            <Nav.Link as={Link} to="/templates" className="nav-link-custom">Templates</Nav.Link>
+            <Nav.Link as={Link} to="/projects" className="nav-link-custom">Projects</Nav.Link>
+            <Nav.Link as={Link} to="/invoices" className="nav-link-custom">Invoices</Nav.Link>
+            <Nav.Link as={Link} to="/expenses" className="nav-link-custom">Expenses</Nav.Link>
+            <Nav.Link as={Link} to="/reports" className="nav-link-custom">Reports</Nav.Link>
+            <Nav.Link as={Link} to="/approvals" className="nav-link-custom">Approvals</Nav.Link>
             <Nav.Link as={Link} to="/file-bank" className="nav-link-custom">File Bank</Nav.Link>
           </Nav>
+          <TimerWidget />
           <Button className="logout-btn-nav" onClick={signOut}>
             <span className="btn-icon-nav">→</span>
             <span>Logout</span>
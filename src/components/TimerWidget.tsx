@@ -0,0 +1,192 @@
+// src/components/TimerWidget.tsx
+import React, { useEffect, useState } from "react";
+import { Button, Form, Modal } from "react-bootstrap";
+import { supabase } from "../api/supabaseClient";
+import { useAuth } from "../contexts/AuthContext";
+import { useTimer } from "../contexts/TimerContext";
+import { isLockedStatus } from "../api/templateWorkflow";
+import { loadProjects } from "../api/projects";
+import { cellText } from "../utils/timeEntries";
+import { normalizeTemplate } from "../utils/templateData";
+import type { TemplateRecord } from "../utils/templateData";
+import { elapsedMs, formatElapsed } from "../utils/timer";
+
+export interface TimerTarget {
+  templateId: string;
+  templateName: string;
+  project?: string;
+  tasks?: string[];
+}
+
+interface TimerWidgetProps {
+  // Pins the timer to one template (editor); without it the start dialog offers a template picker
+  target?: TimerTarget;
+  disabled?: boolean;
+}
+
+const inputStyle: React.CSSProperties = { background: "#0b0b0b", color: "#fff", border: "1px solid #333" };
+
+const unique = (values: string[]) => Array.from(new Set(values.map(v => v.trim()).filter(Boolean))).sort();
+
+const StartTimerModal: React.FC<{ show: boolean; onHide: () => void; target?: TimerTarget }> = ({ show, onHide, target }) => {
+  const { user } = useAuth();
+  const { start } = useTimer();
+  const [templates, setTemplates] = useState<TemplateRecord[]>([]);
+  const [templateId, setTemplateId] = useState(target?.templateId ?? "");
+  const [project, setProject] = useState(target?.project ?? "");
+  const [task, setTask] = useState("");
+  const [catalogue, setCatalogue] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    loadProjects(user.id)
+      .then(projects => {
+        if (!cancelled) setCatalogue(projects.filter(p => p.active).map(p => p.name));
+      })
+      .catch(err => console.error(err));
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  useEffect(() => {
+    if (target || !user) return;
+    let cancelled = false;
+    supabase
+      .from("templates")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("updated_at", { ascending: false, nullsFirst: false })
+      .then(({ data, error }) => {
+        if (error) return console.error(error);
+        if (!cancelled) setTemplates(((data as TemplateRecord[]) ?? []).filter(t => !isLockedStatus(t.status ?? "draft")));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [target, user]);
+
+  const selected = templates.find(t => t.id === templateId);
+  const selectedRows = selected ? normalizeTemplate(selected.template_data).rows : [];
+  const taskOptions = target?.tasks ?? unique(selectedRows.map(row => cellText(row, "task")));
+  const projectOptions = unique([...catalogue, ...selectedRows.map(row => cellText(row, "project"))]);
+
+  const selectTemplate = (id: string) => {
+    setTemplateId(id);
+    const t = templates.find(x => x.id === id);
+    if (t && !project) setProject(normalizeTemplate(t.template_data).meta?.project ?? "");
+  };
+
+  const submit = () => {
+    const templateName = target?.templateName ?? selected?.name ?? "";
+    if (!templateId) return alert("Choose the timesheet to record into");
+    start({ templateId, templateName, project: project.trim(), task: task.trim() });
+    onHide();
+  };
+
+  return (
+    <Modal show={show} onHide={onHide} centered>
+      <Modal.Header closeButton style={{ background: "#1a1a1a", borderColor: "#333", color: "#fff" }}>
+        <Modal.Title>Start Timer</Modal.Title>
+      </Modal.Header>
+      <Modal.Body style={{ background: "#0f0f10", color: "#fff" }}>
+        <Form.Group className="mb-3">
+          <Form.Label>Timesheet</Form.Label>
+          {target ? (
+            <Form.Control value={target.templateName} disabled style={inputStyle} />
+          ) : (
+            <Form.Select value={templateId} onChange={e => selectTemplate(e.target.value)} style={inputStyle}>
+              <option value="">Choose a timesheet…</option>
+              {templates.map(t => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </Form.Select>
+          )}
+        </Form.Group>
+        <Form.Group className="mb-3">
+          <Form.Label>Project</Form.Label>
+          <Form.Control value={project} onChange={e => setProject(e.target.value)} list="timer-projects" style={inputStyle} />
+          <datalist id="timer-projects">
+            {projectOptions.map(p => <option key={p} value={p} />)}
+          </datalist>
+        </Form.Group>
+        <Form.Group>
+          <Form.Label>Task</Form.Label>
+          <Form.Control value={task} onChange={e => setTask(e.target.value)} list="timer-tasks" style={inputStyle} autoFocus />
+          <datalist id="timer-tasks">
+            {taskOptions.map(t => <option key={t} value={t} />)}
+          </datalist>
+        </Form.Group>
+      </Modal.Body>
+      <Modal.Footer style={{ background: "#1a1a1a", borderColor: "#333" }}>
+        <Button variant="secondary" onClick={onHide}>Cancel</Button>
+        <Button style={{ background: "#FFD700", border: "none", color: "#000", fontWeight: 600 }} onClick={submit}>
+          ▶ Start
+        </Button>
+      </Modal.Footer>
+    </Modal>
+  );
+};
+
+export const TimerWidget: React.FC<TimerWidgetProps> = ({ target, disabled }) => {
+  const { timer, pause, resume, stop, discard } = useTimer();
+  const [showStart, setShowStart] = useState(false);
+  const [stopping, setStopping] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const running = timer?.runningSince != null;
+  useEffect(() => {
+    if (!running) return;
+    const id = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, [running]);
+
+  if (!timer) {
+    return (
+      <>
+        <Button size="sm" variant="outline-success" onClick={() => setShowStart(true)} disabled={disabled}>
+          ▶ Start timer
+        </Button>
+        {showStart && <StartTimerModal show onHide={() => setShowStart(false)} target={target} />}
+      </>
+    );
+  }
+
+  const label = [timer.project, timer.task].filter(Boolean).join(" · ") || "No task";
+  const elsewhere = target && target.templateId !== timer.templateId;
+
+  const onStop = async () => {
+    setStopping(true);
+    await stop();
+    setStopping(false);
+  };
+
+  return (
+    <div className="d-flex align-items-center gap-2" style={{ color: "#fff" }}>
+      <span
+        title={`${label} → ${timer.templateName}${elsewhere ? " (another timesheet)" : ""}`}
+        style={{ fontFamily: "monospace", fontWeight: 600, color: running ? "#4CAF50" : "#FFD700" }}
+      >
+        ⏱ {formatElapsed(elapsedMs(timer, now))}
+      </span>
+      <span style={{ fontSize: 12, color: "#aaa", maxWidth: 160, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+        {elsewhere ? `${timer.templateName}: ${label}` : label}
+      </span>
+      {running ? (
+        <Button size="sm" variant="outline-warning" onClick={pause} title="Pause">⏸</Button>
+      ) : (
+        <Button size="sm" variant="outline-success" onClick={resume} title="Resume">▶</Button>
+      )}
+      <Button size="sm" variant="outline-light" onClick={onStop} disabled={stopping} title="Stop and record">⏹</Button>
+      <Button
+        size="sm"
+        variant="outline-danger"
+        title="Discard timer"
+        onClick={() => window.confirm("Discard the running timer without recording it?") && discard()}
+      >
+        ✕
+      </Button>
+    </div>
+  );
+};
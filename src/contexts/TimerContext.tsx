@@ -0,0 +1,200 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { Button, Modal } from "react-bootstrap";
+import { useAuth } from "./AuthContext";
+import { appendEntriesToTemplate } from "../api/templates";
+import type { ImportedEntry } from "../utils/importEntries";
+import {
+  IDLE_THRESHOLD_MS,
+  activityStorageKey,
+  discardIdle,
+  pauseTimer,
+  resumeTimer,
+  startTimer,
+  timerStorageKey,
+  timerToEntry,
+} from "../utils/timer";
+import type { TimerState } from "../utils/timer";
+
+type EntrySink = (entries: ImportedEntry[]) => void;
+
+interface TimerContextValue {
+  timer: TimerState | null;
+  start: (fields: Pick<TimerState, "templateId" | "templateName" | "project" | "task">) => void;
+  pause: () => void;
+  resume: () => void;
+  stop: () => Promise<void>;
+  discard: () => void;
+  // An open editor takes the stopped entry into its unsaved state instead of the stored row
+  registerEntrySink: (templateId: string, sink: EntrySink) => () => void;
+}
+
+const TimerContext = createContext<TimerContextValue | undefined>(undefined);
+
+const ACTIVITY_EVENTS = ["mousemove", "keydown", "pointerdown", "scroll", "touchstart"] as const;
+const ACTIVITY_WRITE_INTERVAL_MS = 15 * 1000;
+const IDLE_CHECK_INTERVAL_MS = 30 * 1000;
+
+const readTimer = (userId: string | null): TimerState | null => {
+  if (!userId) return null;
+  try {
+    const raw = localStorage.getItem(timerStorageKey(userId));
+    return raw ? (JSON.parse(raw) as TimerState) : null;
+  } catch {
+    return null;
+  }
+};
+
+const readActivity = (userId: string) => Number(localStorage.getItem(activityStorageKey(userId)) ?? 0);
+
+export const TimerProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [timer, setTimerState] = useState<TimerState | null>(() => readTimer(userId));
+  const [loadedFor, setLoadedFor] = useState(userId);
+  const [idle, setIdle] = useState<{ since: number; detectedAt: number } | null>(null);
+
+  // Sign-in/out switches to that user's stored timer
+  if (loadedFor !== userId) {
+    setLoadedFor(userId);
+    setTimerState(readTimer(userId));
+    setIdle(null);
+  }
+  const sinks = useRef(new Map<string, EntrySink>());
+  // Seeded from storage on the first idle check, so time away with the browser closed is caught too
+  const lastActivity = useRef(0);
+
+  // Every change is written through so other tabs and the next page load see the same timer
+  const setTimer = useCallback(
+    (next: TimerState | null) => {
+      setTimerState(next);
+      if (!userId) return;
+      if (next) localStorage.setItem(timerStorageKey(userId), JSON.stringify(next));
+      else localStorage.removeItem(timerStorageKey(userId));
+    },
+    [userId]
+  );
+
+  const markActive = useCallback(
+    (now = Date.now()) => {
+      lastActivity.current = now;
+      if (userId) localStorage.setItem(activityStorageKey(userId), String(now));
+    },
+    [userId]
+  );
+
+  /* Cross-tab sync */
+  useEffect(() => {
+    if (!userId) return;
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === timerStorageKey(userId)) {
+        setTimerState(e.newValue ? (JSON.parse(e.newValue) as TimerState) : null);
+        setIdle(null);
+      } else if (e.key === activityStorageKey(userId) && Date.now() - Number(e.newValue) < IDLE_THRESHOLD_MS) {
+        setIdle(null);
+      }
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [userId]);
+
+  /* Idle detection */
+  useEffect(() => {
+    if (!userId || timer?.runningSince == null) return;
+    let lastWrite = 0;
+    const onActivity = () => {
+      const now = Date.now();
+      lastActivity.current = now;
+      if (now - lastWrite > ACTIVITY_WRITE_INTERVAL_MS) {
+        lastWrite = now;
+        localStorage.setItem(activityStorageKey(userId), String(now));
+      }
+    };
+    ACTIVITY_EVENTS.forEach(ev => window.addEventListener(ev, onActivity, { passive: true }));
+    const check = window.setInterval(() => {
+      // Activity in any tab counts; a sleeping laptop shows up as one long gap
+      const latest = Math.max(lastActivity.current, readActivity(userId));
+      const now = Date.now();
+      if (now - latest > IDLE_THRESHOLD_MS) setIdle(prev => prev ?? { since: latest, detectedAt: now });
+    }, IDLE_CHECK_INTERVAL_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach(ev => window.removeEventListener(ev, onActivity));
+      window.clearInterval(check);
+    };
+  }, [userId, timer?.runningSince]);
+
+  const start: TimerContextValue["start"] = fields => {
+    markActive();
+    setTimer(startTimer(fields));
+  };
+
+  const pause = () => timer && setTimer(pauseTimer(timer));
+
+  const resume = () => {
+    if (!timer) return;
+    markActive();
+    setTimer(resumeTimer(timer));
+  };
+
+  const stop = async () => {
+    if (!timer) return;
+    const entry = timerToEntry(timer);
+    try {
+      const sink = sinks.current.get(timer.templateId);
+      if (sink) sink([entry]);
+      else await appendEntriesToTemplate(timer.templateId, [entry]);
+      setTimer(null);
+      setIdle(null);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to record the timer entry: ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+  };
+
+  const discard = () => {
+    setTimer(null);
+    setIdle(null);
+  };
+
+  const registerEntrySink = useCallback((templateId: string, sink: EntrySink) => {
+    sinks.current.set(templateId, sink);
+    return () => {
+      if (sinks.current.get(templateId) === sink) sinks.current.delete(templateId);
+    };
+  }, []);
+
+  const resolveIdle = (keep: boolean) => {
+    if (timer && idle && !keep) setTimer(discardIdle(timer, idle.since));
+    markActive();
+    setIdle(null);
+  };
+
+  const idleMinutes = idle ? Math.round((idle.detectedAt - idle.since) / 60000) : 0;
+
+  return (
+    <TimerContext.Provider value={{ timer, start, pause, resume, stop, discard, registerEntrySink }}>
+      {children}
+      <Modal show={!!idle && !!timer} onHide={() => resolveIdle(true)} centered>
+        <Modal.Header closeButton style={{ background: "#1a1a1a", borderColor: "#333", color: "#fff" }}>
+          <Modal.Title>Were you still working?</Modal.Title>
+        </Modal.Header>
+        <Modal.Body style={{ background: "#0f0f10", color: "#fff" }}>
+          No activity since {idle && new Date(idle.since).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}{" "}
+          ({idleMinutes} min) while the timer for <strong>{timer?.task || timer?.project || timer?.templateName}</strong> was running.
+        </Modal.Body>
+        <Modal.Footer style={{ background: "#1a1a1a", borderColor: "#333" }}>
+          <Button variant="outline-danger" onClick={() => resolveIdle(false)}>Discard idle time</Button>
+          <Button style={{ background: "#FFD700", border: "none", color: "#000", fontWeight: 600 }} onClick={() => resolveIdle(true)}>
+            Keep idle time
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </TimerContext.Provider>
+  );
+};
+
+/* eslint-disable react-refresh/only-export-components */
+export const useTimer = () => {
+  const ctx = useContext(TimerContext);
+  if (!ctx) throw new Error("useTimer must be within TimerProvider");
+  return ctx;
+};
@@ -0,0 +1,109 @@
+// src/hooks/useUndoableState.ts
+import { useCallback, useEffect, useState } from "react";
+
+export const HISTORY_LIMIT = 100;
+
+// Edits with the same merge key this close together become one undo step (typing, dragging)
+const MERGE_WINDOW_MS = 1000;
+
+type History<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+  lastKey: string | null;
+  lastAt: number;
+};
+
+type Update<T> = T | ((prev: T) => T);
+
+const resolve = <T>(update: Update<T>, prev: T) => (typeof update === "function" ? (update as (prev: T) => T)(prev) : update);
+
+const fresh = <T>(present: T): History<T> => ({ past: [], present, future: [], lastKey: null, lastAt: 0 });
+
+/**
+ * useState with an undo/redo stack capped at `limit` steps. `set` records a step unless it
+ * carries the same `mergeKey` as the previous call within a second; `reset` replaces the
+ * value and forgets the history, for loads that should not be undoable.
+ */
+export const useUndoableState = <T>(initial: T | (() => T), limit = HISTORY_LIMIT) => {
+  const [history, setHistory] = useState<History<T>>(() => fresh(typeof initial === "function" ? (initial as () => T)() : initial));
+
+  const set = useCallback(
+    (update: Update<T>, mergeKey?: string) => {
+      const now = Date.now();
+      setHistory(h => {
+        const next = resolve(update, h.present);
+        if (Object.is(next, h.present)) return h;
+        const merge = !!mergeKey && mergeKey === h.lastKey && now - h.lastAt < MERGE_WINDOW_MS;
+        return {
+          past: merge ? h.past : [...h.past, h.present].slice(-limit),
+          present: next,
+          future: [],
+          lastKey: mergeKey ?? null,
+          lastAt: now,
+        };
+      });
+    },
+    [limit]
+  );
+
+  const undo = useCallback(() => {
+    setHistory(h =>
+      h.past.length === 0
+        ? h
+        : { past: h.past.slice(0, -1), present: h.past[h.past.length - 1], future: [h.present, ...h.future], lastKey: null, lastAt: 0 }
+    );
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h =>
+      h.future.length === 0
+        ? h
+        : { past: [...h.past, h.present], present: h.future[0], future: h.future.slice(1), lastKey: null, lastAt: 0 }
+    );
+  }, []);
+
+  const reset = useCallback((value: T) => setHistory(fresh(value)), []);
+
+  return {
+    value: history.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
+
+const TEXT_FIELDS = "input, textarea, [contenteditable=''], [contenteditable='true']";
+
+/**
+ * Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes, while `enabled`. Text fields keep the
+ * browser's own undo unless they sit inside a `data-undo-history` container, i.e. their edits
+ * are part of this history.
+ */
+export const useUndoShortcuts = (undo: () => void, redo: () => void, enabled = true) => {
+  useEffect(() => {
+    if (!enabled) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (e.target instanceof Element) {
+        // Dialogs keep the browser's own text undo
+        if (e.target.closest(".modal")) return;
+        if (e.target.closest(TEXT_FIELDS) && !e.target.closest("[data-undo-history]")) return;
+      }
+      if (key === "z") {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (key === "y" && !e.shiftKey) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [undo, redo, enabled]);
+};
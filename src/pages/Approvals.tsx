@@ -0,0 +1,251 @@
+// src/pages/Approvals.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Badge, Button, Card, Col, Container, Form, ListGroup, Modal, Row, Spinner } from "react-bootstrap";
+import { supabase } from "../api/supabaseClient";
+import { useAuth } from "../contexts/AuthContext";
+import { STATUS_LABELS, STATUS_VARIANTS, changeTemplateStatus, loadManagedMembers } from "../api/templateWorkflow";
+import type { TemplateStatus } from "../api/templateWorkflow";
+import { normalizeTemplate } from "../utils/templateData";
+import type { TemplateRecord } from "../utils/templateData";
+import { formatHours, totalMinutes } from "../utils/timeEntries";
+import { changeLeaveStatus, loadLeaveRequests } from "../api/leave";
+import type { LeaveRequestRecord } from "../api/leave";
+import { LEAVE_TYPE_LABELS } from "../utils/leave";
+
+type ReviewAction =
+  | { kind: "timesheet"; record: TemplateRecord; to: "approved" | "rejected" }
+  | { kind: "leave"; request: LeaveRequestRecord; to: "approved" | "rejected" };
+
+const formatDate = (dateString?: string | null) => {
+  if (!dateString) return "—";
+  const date = new Date(dateString);
+  return date.toLocaleDateString() + " " + date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+};
+
+const inputStyle: React.CSSProperties = { background: "#0b0b0b", color: "#fff", border: "1px solid #333" };
+
+export const Approvals: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [filter, setFilter] = useState<TemplateStatus>("submitted");
+  const [records, setRecords] = useState<TemplateRecord[]>([]);
+  const [leaveRequests, setLeaveRequests] = useState<LeaveRequestRecord[]>([]);
+  const [members, setMembers] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [action, setAction] = useState<ReviewAction | null>(null);
+  const [comment, setComment] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const loadQueue = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const managed = await loadManagedMembers(user.id);
+      setMembers(Object.fromEntries(managed.map(m => [m.member_id, m.member_email ?? m.member_id])));
+      if (managed.length === 0) {
+        setRecords([]);
+        setLeaveRequests([]);
+        return;
+      }
+      setLeaveRequests(await loadLeaveRequests(managed.map(m => m.member_id), "pending"));
+
+      const { data, error } = await supabase
+        .from("templates")
+        .select("*")
+        .in("user_id", managed.map(m => m.member_id))
+        .eq("status", filter)
+        .order("updated_at", { ascending: false });
+      if (error) throw error;
+      setRecords((data as TemplateRecord[]) || []);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to load timesheets: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, filter]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const run = async () => {
+      await loadQueue();
+    };
+
+    run();
+  }, [user, loadQueue]);
+
+  const openAction = (next: ReviewAction) => {
+    setAction(next);
+    setComment("");
+  };
+
+  const confirmAction = async () => {
+    if (!user || !action) return;
+    setSaving(true);
+    try {
+      if (action.kind === "timesheet") {
+        await changeTemplateStatus(action.record.id, "submitted", action.to, user, comment);
+      } else {
+        await changeLeaveStatus(action.request.id, action.to, user, comment);
+      }
+      setAction(null);
+      loadQueue();
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to update ${action.kind === "timesheet" ? "timesheet" : "leave request"}: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div style={{ background: "#0f0f10", minHeight: "100vh", padding: "12px" }}>
+      <Container fluid>
+        <Card style={{ background: "transparent", border: "none", color: "#fff" }}>
+          <Card.Body style={{ padding: "12px" }}>
+            {/* Header */}
+            <Row className="mb-3 align-items-center g-2">
+              <Col xs={12} md={8}>
+                <h3 style={{ color: "#FFD700", fontWeight: 700, marginBottom: 0 }}>✅ Approvals</h3>
+                <p style={{ color: "#aaa", fontSize: 14, marginTop: 4, marginBottom: 0 }}>
+                  Review timesheets and leave requests from the people you manage
+                </p>
+              </Col>
+              <Col xs={12} md={4} className="text-md-end">
+                <Form.Select
+                  value={filter}
+                  onChange={e => setFilter(e.target.value as TemplateStatus)}
+                  style={{ ...inputStyle, maxWidth: 200, display: "inline-block" }}
+                >
+                  {(["submitted", "approved", "rejected"] as TemplateStatus[]).map(s => (
+                    <option key={s} value={s}>{STATUS_LABELS[s]}</option>
+                  ))}
+                </Form.Select>
+              </Col>
+            </Row>
+
+            <Card style={{ background: "#171717", border: "1px solid #222", borderRadius: 8 }}>
+              <Card.Body style={{ padding: "12px" }}>
+                {loading ? (
+                  <div className="text-center p-4"><Spinner animation="border" variant="warning" /></div>
+                ) : records.length === 0 ? (
+                  <div style={{ textAlign: "center", padding: "40px 20px", color: "#666" }}>
+                    <div style={{ fontSize: 48, marginBottom: 12 }}>📭</div>
+                    <div>{Object.keys(members).length === 0 ? "No team members are assigned to you" : "Nothing to review"}</div>
+                  </div>
+                ) : (
+                  <ListGroup variant="flush">
+                    {records.map(r => {
+                      const data = normalizeTemplate(r.template_data);
+                      return (
+                        <ListGroup.Item
+                          key={r.id}
+                          style={{ background: "#0b0b0b", color: "#e0e0e0", border: "1px solid #222", borderRadius: 6, marginBottom: 8, padding: "12px" }}
+                        >
+                          <Row className="align-items-center g-2">
+                            <Col xs={12} md={6}>
+                              <div style={{ fontWeight: 600, marginBottom: 4 }}>
+                                {r.name} <Badge bg={STATUS_VARIANTS[r.status ?? "draft"]}>{STATUS_LABELS[r.status ?? "draft"]}</Badge>
+                              </div>
+                              <div style={{ fontSize: 12, color: "#888" }}>
+                                {members[r.user_id] ?? r.user_id} • {data.meta?.period || "No period"} •{" "}
+                                {formatHours(totalMinutes(data.rows))} h • Updated {formatDate(r.updated_at ?? r.created_at)}
+                              </div>
+                            </Col>
+                            <Col xs={12} md={6} className="d-flex gap-2 justify-content-md-end flex-wrap">
+                              <Button size="sm" variant="outline-light" onClick={() => navigate(`/time-tracker/${r.id}`)}>View</Button>
+                              {r.status === "submitted" && (
+                                <>
+                                  <Button size="sm" variant="success" onClick={() => openAction({ kind: "timesheet", record: r, to: "approved" })}>
+                                    Approve
+                                  </Button>
+                                  <Button size="sm" variant="danger" onClick={() => openAction({ kind: "timesheet", record: r, to: "rejected" })}>
+                                    Reject
+                                  </Button>
+                                </>
+                              )}
+                            </Col>
+                          </Row>
+                        </ListGroup.Item>
+                      );
+                    })}
+                  </ListGroup>
+                )}
+              </Card.Body>
+            </Card>
+
+            {/* Leave requests */}
+            {leaveRequests.length > 0 && (
+              <Card className="mt-3" style={{ background: "#171717", border: "1px solid #222", borderRadius: 8 }}>
+                <Card.Body style={{ padding: "12px" }}>
+                  <h5 style={{ color: "#FFD700", fontWeight: 600, marginBottom: 12 }}>Leave Requests ({leaveRequests.length})</h5>
+                  <ListGroup variant="flush">
+                    {leaveRequests.map(r => (
+                      <ListGroup.Item
+                        key={r.id}
+                        style={{ background: "#0b0b0b", color: "#e0e0e0", border: "1px solid #222", borderRadius: 6, marginBottom: 8, padding: "12px" }}
+                      >
+                        <Row className="align-items-center g-2">
+                          <Col xs={12} md={8}>
+                            <div style={{ fontWeight: 600, marginBottom: 4 }}>
+                              {LEAVE_TYPE_LABELS[r.leave_type]}: {r.start_date}
+                              {r.end_date !== r.start_date ? ` - ${r.end_date}` : ""} ({r.days} day{r.days === 1 ? "" : "s"})
+                            </div>
+                            <div style={{ fontSize: 12, color: "#888" }}>
+                              {members[r.user_id] ?? r.user_email ?? r.user_id} • Requested {formatDate(r.created_at)}
+                              {r.note ? ` • ${r.note}` : ""}
+                            </div>
+                          </Col>
+                          <Col xs={12} md={4} className="d-flex gap-2 justify-content-md-end">
+                            <Button size="sm" variant="success" onClick={() => openAction({ kind: "leave", request: r, to: "approved" })}>
+                              Approve
+                            </Button>
+                            <Button size="sm" variant="danger" onClick={() => openAction({ kind: "leave", request: r, to: "rejected" })}>
+                              Reject
+                            </Button>
+                          </Col>
+                        </Row>
+                      </ListGroup.Item>
+                    ))}
+                  </ListGroup>
+                </Card.Body>
+              </Card>
+            )}
+          </Card.Body>
+        </Card>
+      </Container>
+
+      {/* Review Modal */}
+      <Modal show={!!action} onHide={() => setAction(null)} centered>
+        <Modal.Header closeButton style={{ background: "#1a1a1a", borderColor: "#333", color: "#fff" }}>
+          <Modal.Title>
+            {action?.to === "approved" ? "Approve" : "Reject"} {action?.kind === "leave" ? "Leave Request" : "Timesheet"}
+          </Modal.Title>
+        </Modal.Header>
+        <Modal.Body style={{ background: "#0f0f10", color: "#fff" }}>
+          <div style={{ marginBottom: 12 }}>
+            {action?.kind === "leave"
+              ? `${LEAVE_TYPE_LABELS[action.request.leave_type]}: ${action.request.start_date} - ${action.request.end_date}`
+              : action?.record.name}
+          </div>
+          <Form.Group>
+            <Form.Label>Comment {action?.to === "rejected" ? "(required)" : "(optional)"}</Form.Label>
+            <Form.Control as="textarea" rows={3} value={comment} onChange={e => setComment(e.target.value)} style={inputStyle} />
+          </Form.Group>
+        </Modal.Body>
+        <Modal.Footer style={{ background: "#1a1a1a", borderColor: "#333" }}>
+          <Button variant="secondary" onClick={() => setAction(null)}>Cancel</Button>
+          <Button
+            variant={action?.to === "approved" ? "success" : "danger"}
+            onClick={confirmAction}
+            disabled={saving || (action?.to === "rejected" && !comment.trim())}
+          >
+            {saving ? <Spinner animation="border" size="sm" /> : action?.to === "approved" ? "Approve" : "Reject"}
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1,516 @@
+// src/pages/Calendar.tsx
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Button, ButtonGroup, Card, Col, Container, Form, Row, Spinner } from "react-bootstrap";
+import { supabase } from "../api/supabaseClient";
+import { useAuth } from "../contexts/AuthContext";
+import { loadClients, loadProjects } from "../api/projects";
+import type { ClientRecord, ProjectRecord } from "../api/projects";
+import { createPeriodTemplate, deleteTemplateEntry, saveTemplateEntry } from "../api/templates";
+import { CalendarEntryModal } from "../components/Calendar/CalendarEntryModal";
+import type { CalendarDraft } from "../components/Calendar/CalendarEntryModal";
+import { addDays, todayIso, weekStart } from "../utils/dates";
+import {
+  DEFAULT_CALENDAR_SETTINGS,
+  NEW_TEMPLATE,
+  collectCalendarEntries,
+  dayStatus,
+  entriesByDate,
+  entryBlock,
+  formatMinutesOfDay,
+  layoutDay,
+  monthGrid,
+  shiftMonth,
+  weekDays,
+} from "../utils/calendar";
+import type { CalendarEntry, CalendarSettings, DayStatus } from "../utils/calendar";
+import { formatHours } from "../utils/timeEntries";
+import type { TemplateRecord } from "../utils/templateData";
+
+const ghostBtn: React.CSSProperties = {
+  background: "transparent",
+  border: "1px solid #444",
+  color: "#ddd",
+};
+
+const inputStyle: React.CSSProperties = { background: "#0b0b0b", color: "#fff", border: "1px solid #333" };
+
+const SETTINGS_KEY = "calendar-settings";
+const HOUR_PX = 32;
+const SNAP_MINUTES = 15;
+const DAY_NAMES = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const STATUS_COLORS: Record<Exclude<DayStatus, null>, string> = { missing: "#dc3545", over: "#ff9800" };
+
+const loadSettings = (): CalendarSettings => {
+  try {
+    return { ...DEFAULT_CALENDAR_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? "{}") };
+  } catch {
+    return DEFAULT_CALENDAR_SETTINGS;
+  }
+};
+
+const entryLabel = (e: CalendarEntry) => [e.project, e.task].filter(Boolean).join(" · ") || e.templateName;
+
+const toDraft = (e: CalendarEntry): CalendarDraft => ({
+  templateId: e.templateId,
+  templateName: e.templateName,
+  rowId: e.rowId,
+  locked: e.locked,
+  date: e.date,
+  start: e.start === null ? "" : formatMinutesOfDay(e.start),
+  end: e.end === null ? "" : formatMinutesOfDay(e.end),
+  breakMinutes: e.breakMinutes,
+  project: e.project,
+  projectId: e.projectId,
+  task: e.task,
+  notes: e.notes,
+});
+
+const newDraft = (date: string, start = "09:00", end = "17:00"): CalendarDraft => ({
+  date,
+  start,
+  end,
+  breakMinutes: 0,
+  project: "",
+  task: "",
+  notes: "",
+});
+
+export const Calendar: React.FC = () => {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<TemplateRecord[]>([]);
+  const [projects, setProjects] = useState<ProjectRecord[]>([]);
+  const [clients, setClients] = useState<ClientRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [view, setView] = useState<"month" | "week">("month");
+  const [anchor, setAnchor] = useState(todayIso);
+  const [settings, setSettings] = useState(loadSettings);
+  const [draft, setDraft] = useState<CalendarDraft | null>(null);
+  const [drag, setDrag] = useState<{ date: string; from: number; to: number } | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const loadData = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const [t, p, c] = await Promise.all([
+        supabase.from("templates").select("*").eq("user_id", user.id),
+        loadProjects(user.id),
+        loadClients(user.id),
+      ]);
+      if (t.error) throw t.error;
+      setTemplates((t.data as TemplateRecord[]) || []);
+      setProjects(p);
+      setClients(c);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to load calendar: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const run = async () => {
+      await loadData();
+    };
+
+    run();
+  }, [user, loadData]);
+
+  // Open the week view at the start of a normal working day
+  useEffect(() => {
+    if (view === "week" && scrollRef.current) scrollRef.current.scrollTop = 7 * HOUR_PX;
+  }, [view, loading]);
+
+  const today = todayIso();
+  const entries = collectCalendarEntries(templates);
+  const byDate = entriesByDate(entries);
+  const dayMinutes = (date: string) => (byDate.get(date) ?? []).reduce((sum, e) => sum + e.minutes, 0);
+  const statusOf = (date: string) => dayStatus(date, dayMinutes(date), settings, today);
+
+  const updateSettings = (patch: Partial<CalendarSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+  };
+
+  /* --------------------------
+     Navigation
+  -------------------------- */
+  const month = anchor.slice(0, 7);
+  const week = weekDays(anchor);
+  const title = view === "month"
+    ? new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { month: "long", year: "numeric" })
+    : `${week[0]} - ${week[6]}`;
+  const step = (direction: 1 | -1) =>
+    setAnchor(a => (view === "month" ? shiftMonth(a, direction) : addDays(weekStart(a), 7 * direction)));
+
+  /* --------------------------
+     Saving entries
+  -------------------------- */
+  const saveDraft = async (entry: CalendarDraft, target: string) => {
+    if (!user) return;
+    setSaving(true);
+    try {
+      const monday = weekStart(entry.date);
+      const templateId = target === NEW_TEMPLATE
+        ? await createPeriodTemplate(user.id, { start: monday, end: addDays(monday, 6) })
+        : target;
+      await saveTemplateEntry(
+        templateId,
+        {
+          date: entry.date,
+          start: entry.start,
+          end: entry.end,
+          breakMinutes: entry.breakMinutes,
+          project: entry.project,
+          task: entry.task,
+          notes: entry.notes,
+        },
+        entry.projectId,
+        entry.rowId
+      );
+      setDraft(null);
+      loadData();
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to save entry: ${err instanceof Error ? err.message : "Unknown error"}`);
+      // Show what the timesheet holds now, e.g. after it changed in the editor or was locked
+      loadData();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteDraft = async (entry: CalendarDraft) => {
+    if (!entry.templateId || !entry.rowId) return;
+    setSaving(true);
+    try {
+      await deleteTemplateEntry(entry.templateId, entry.rowId);
+      setDraft(null);
+      loadData();
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to delete entry: ${err instanceof Error ? err.message : "Unknown error"}`);
+      loadData();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /* --------------------------
+     Drag to create (week view)
+  -------------------------- */
+  const minuteAt = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const minutes = Math.round((((e.clientY - rect.top) / HOUR_PX) * 60) / SNAP_MINUTES) * SNAP_MINUTES;
+    return Math.min(Math.max(minutes, 0), 24 * 60);
+  };
+
+  const onPointerDown = (date: string, e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const at = minuteAt(e);
+    setDrag({ date, from: at, to: at });
+  };
+
+  const onPointerMove = (date: string, e: React.PointerEvent<HTMLDivElement>) => {
+    if (drag?.date !== date) return;
+    const at = minuteAt(e);
+    setDrag(d => (d ? { ...d, to: at } : d));
+  };
+
+  const onPointerUp = () => {
+    if (!drag) return;
+    const from = Math.min(drag.from, drag.to);
+    // A plain click creates a one-hour entry
+    const to = Math.max(drag.from, drag.to) > from ? Math.max(drag.from, drag.to) : Math.min(from + 60, 24 * 60);
+    setDrag(null);
+    setDraft(newDraft(drag.date, formatMinutesOfDay(from), formatMinutesOfDay(to)));
+  };
+
+  /* --------------------------
+     Rendering helpers
+  -------------------------- */
+  const dayHeader = (date: string, compact = false) => {
+    const status = statusOf(date);
+    const minutes = dayMinutes(date);
+    return (
+      <div className="d-flex justify-content-between" style={{ fontSize: 12 }}>
+        <span style={{ fontWeight: date === today ? 700 : 500, color: date === today ? "#FFD700" : "#ddd" }}>
+          {compact ? Number(date.slice(8)) : `${DAY_NAMES[week.indexOf(date)]} ${date.slice(5)}`}
+        </span>
+        {(minutes > 0 || status) && (
+          <span style={{ color: status ? STATUS_COLORS[status] : "#aaa" }} title={status === "over" ? "Over the daily limit" : status === "missing" ? "Missing hours" : undefined}>
+            {formatHours(minutes)} h
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  const chip = (e: CalendarEntry) => (
+    <div
+      key={e.rowId}
+      onClick={ev => {
+        ev.stopPropagation();
+        setDraft(toDraft(e));
+      }}
+      title={`${entryLabel(e)} (${e.templateName})`}
+      style={{
+        fontSize: 11,
+        padding: "1px 4px",
+        marginTop: 2,
+        borderRadius: 3,
+        background: e.locked ? "#2a2a2a" : "#3a3210",
+        color: "#eee",
+        cursor: "pointer",
+        overflow: "hidden",
+        textOverflow: "ellipsis",
+        whiteSpace: "nowrap",
+      }}
+    >
+      {e.start !== null && <span style={{ color: "#FFD700" }}>{formatMinutesOfDay(e.start)} </span>}
+      {entryLabel(e)}
+    </div>
+  );
+
+  const monthView = () => (
+    <div>
+      <div className="d-flex" style={{ borderBottom: "1px solid #333" }}>
+        {DAY_NAMES.map(d => (
+          <div key={d} style={{ flex: 1, fontSize: 12, color: "#888", padding: 4 }}>{d}</div>
+        ))}
+      </div>
+      {monthGrid(month).map(days => (
+        <div key={days[0]} className="d-flex">
+          {days.map(date => {
+            const status = statusOf(date);
+            const dayEntries = byDate.get(date) ?? [];
+            return (
+              <div
+                key={date}
+                onClick={() => setDraft(newDraft(date))}
+                style={{
+                  flex: 1,
+                  minWidth: 0,
+                  minHeight: 96,
+                  padding: 4,
+                  border: "1px solid #222",
+                  borderLeft: status ? `3px solid ${STATUS_COLORS[status]}` : "1px solid #222",
+                  background: date.slice(0, 7) === month ? "#171717" : "#111",
+                  opacity: date.slice(0, 7) === month ? 1 : 0.6,
+                  cursor: "pointer",
+                }}
+              >
+                {dayHeader(date, true)}
+                {dayEntries.slice(0, 3).map(chip)}
+                {dayEntries.length > 3 && (
+                  <div
+                    style={{ fontSize: 11, color: "#aaa", marginTop: 2 }}
+                    onClick={ev => {
+                      ev.stopPropagation();
+                      setAnchor(date);
+                      setView("week");
+                    }}
+                  >
+                    +{dayEntries.length - 3} more
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+
+  const weekView = () => (
+    <div>
+      <div className="d-flex" style={{ borderBottom: "1px solid #333", paddingLeft: 44 }}>
+        {week.map(date => {
+          const status = statusOf(date);
+          const untimed = (byDate.get(date) ?? []).filter(e => !entryBlock(e));
+          return (
+            <div
+              key={date}
+              style={{ flex: 1, minWidth: 0, padding: 4, borderTop: status ? `3px solid ${STATUS_COLORS[status]}` : "3px solid transparent" }}
+            >
+              {dayHeader(date)}
+              {untimed.map(chip)}
+            </div>
+          );
+        })}
+      </div>
+      <div ref={scrollRef} style={{ maxHeight: 600, overflowY: "auto" }}>
+        <div className="d-flex" style={{ position: "relative", height: 24 * HOUR_PX }}>
+          <div style={{ width: 44, flexShrink: 0 }}>
+            {Array.from({ length: 24 }, (_, h) => (
+              <div key={h} style={{ height: HOUR_PX, fontSize: 10, color: "#666", textAlign: "right", paddingRight: 6 }}>
+                {String(h).padStart(2, "0")}:00
+              </div>
+            ))}
+          </div>
+          {week.map(date => {
+            const dayEntries = byDate.get(date) ?? [];
+            const layout = layoutDay(dayEntries);
+            const selection = drag?.date === date ? { top: Math.min(drag.from, drag.to), bottom: Math.max(drag.from, drag.to) } : null;
+            return (
+              <div
+                key={date}
+                onPointerDown={e => onPointerDown(date, e)}
+                onPointerMove={e => onPointerMove(date, e)}
+                onPointerUp={onPointerUp}
+                style={{
+                  flex: 1,
+                  minWidth: 0,
+                  position: "relative",
+                  borderLeft: "1px solid #222",
+                  background: `repeating-linear-gradient(#171717 0 ${HOUR_PX - 1}px, #222 ${HOUR_PX - 1}px ${HOUR_PX}px)`,
+                  cursor: "crosshair",
+                  userSelect: "none",
+                  touchAction: "none",
+                }}
+              >
+                {dayEntries.map(e => {
+                  const block = entryBlock(e);
+                  const slot = layout.get(e.rowId);
+                  if (!block || !slot) return null;
+                  return (
+                    <div
+                      key={e.rowId}
+                      onClick={() => setDraft(toDraft(e))}
+                      title={`${entryLabel(e)} (${e.templateName})`}
+                      style={{
+                        position: "absolute",
+                        top: (block.top / 60) * HOUR_PX,
+                        height: Math.max(((block.bottom - block.top) / 60) * HOUR_PX - 2, 14),
+                        left: `${(slot.lane / slot.lanes) * 100}%`,
+                        width: `calc(${100 / slot.lanes}% - 3px)`,
+                        background: e.locked ? "#2a2a2a" : "#3a3210",
+                        borderLeft: `3px solid ${e.locked ? "#666" : "#FFD700"}`,
+                        borderRadius: 3,
+                        padding: "1px 4px",
+                        fontSize: 11,
+                        color: "#eee",
+                        overflow: "hidden",
+                        cursor: "pointer",
+                      }}
+                    >
+                      <div style={{ color: "#FFD700" }}>
+                        {formatMinutesOfDay(e.start!)}-{formatMinutesOfDay(e.end!)}
+                        {block.bottom - block.top < e.minutes + e.breakMinutes ? " →" : ""}
+                      </div>
+                      <div style={{ whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }}>{entryLabel(e)}</div>
+                    </div>
+                  );
+                })}
+                {selection && (
+                  <div
+                    style={{
+                      position: "absolute",
+                      top: (selection.top / 60) * HOUR_PX,
+                      height: Math.max(((selection.bottom - selection.top) / 60) * HOUR_PX, 4),
+                      left: 0,
+                      right: 3,
+                      background: "rgba(255, 215, 0, 0.25)",
+                      border: "1px dashed #FFD700",
+                      pointerEvents: "none",
+                    }}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div style={{ background: "#0f0f10", minHeight: "100vh", padding: "12px" }}>
+      <Container fluid>
+        <Card style={{ background: "transparent", border: "none", color: "#fff" }}>
+          <Card.Body style={{ padding: "12px" }}>
+            {/* Header */}
+            <Row className="mb-3 align-items-center g-2">
+              <Col xs={12} md={5}>
+                <h3 style={{ color: "#FFD700", fontWeight: 700, marginBottom: 0 }}>📅 Calendar</h3>
+                <p style={{ color: "#aaa", fontSize: 14, marginTop: 4, marginBottom: 0 }}>
+                  {view === "week" ? "Drag on a day to add an entry, click one to edit it" : "Click a day to add an entry, click one to edit it"}
+                </p>
+              </Col>
+              <Col xs={12} md={7} className="d-flex flex-wrap justify-content-md-end align-items-center gap-2">
+                <Form.Label className="mb-0" style={{ fontSize: 12, color: "#bbb" }}>Expected h/day</Form.Label>
+                <Form.Control
+                  size="sm"
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={settings.expectedHours}
+                  onChange={e => updateSettings({ expectedHours: Math.max(0, Number(e.target.value) || 0) })}
+                  style={{ ...inputStyle, width: 70 }}
+                />
+                <Form.Label className="mb-0" style={{ fontSize: 12, color: "#bbb" }}>Daily limit</Form.Label>
+                <Form.Control
+                  size="sm"
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={settings.dailyLimitHours}
+                  onChange={e => updateSettings({ dailyLimitHours: Math.max(0, Number(e.target.value) || 0) })}
+                  style={{ ...inputStyle, width: 70 }}
+                />
+                <ButtonGroup size="sm">
+                  <Button variant={view === "month" ? "warning" : "outline-secondary"} onClick={() => setView("month")}>Month</Button>
+                  <Button variant={view === "week" ? "warning" : "outline-secondary"} onClick={() => setView("week")}>Week</Button>
+                </ButtonGroup>
+              </Col>
+            </Row>
+
+            <Card style={{ background: "#171717", border: "1px solid #222", borderRadius: 8 }}>
+              <Card.Body style={{ padding: "12px" }}>
+                <div className="d-flex justify-content-between align-items-center" style={{ marginBottom: 12 }}>
+                  <div className="d-flex gap-2">
+                    <Button size="sm" style={ghostBtn} onClick={() => step(-1)}>‹</Button>
+                    <Button size="sm" style={ghostBtn} onClick={() => setAnchor(todayIso())}>Today</Button>
+                    <Button size="sm" style={ghostBtn} onClick={() => step(1)}>›</Button>
+                  </div>
+                  <h5 style={{ color: "#FFD700", fontWeight: 600, margin: 0 }}>{title}</h5>
+                  <div className="d-flex gap-3" style={{ fontSize: 12, color: "#bbb" }}>
+                    <span><span style={{ color: STATUS_COLORS.missing }}>■</span> Missing hours</span>
+                    <span><span style={{ color: STATUS_COLORS.over }}>■</span> Over limit</span>
+                  </div>
+                </div>
+                {loading ? (
+                  <div className="text-center p-4"><Spinner animation="border" variant="warning" /></div>
+                ) : view === "month" ? (
+                  monthView()
+                ) : (
+                  weekView()
+                )}
+              </Card.Body>
+            </Card>
+          </Card.Body>
+        </Card>
+      </Container>
+
+      {draft && (
+        <CalendarEntryModal
+          draft={draft}
+          templates={templates}
+          projects={projects}
+          clients={clients}
+          saving={saving}
+          onHide={() => setDraft(null)}
+          onSave={saveDraft}
+          onDelete={deleteDraft}
+        />
+      )}
+    </div>
+  );
+};
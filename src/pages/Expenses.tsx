@@ -0,0 +1,396 @@
+// src/pages/Expenses.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import { Button, Card, Col, Container, Form, Modal, Row, Spinner, Table } from "react-bootstrap";
+import { supabase } from "../api/supabaseClient";
+import { useAuth } from "../contexts/AuthContext";
+import { downloadBlob, signedFileBankUrl } from "../api/fileBank";
+import { CURRENCIES, DEFAULT_CURRENCY, formatMoney, loadClients, loadProjects } from "../api/projects";
+import type { ClientRecord, ProjectRecord } from "../api/projects";
+import { attachExpensesToTemplate, deleteExpense, loadExpenses, saveExpense, toExpenseInput, uploadReceipt } from "../api/expenses";
+import type { ExpenseInput, ExpenseRecord } from "../api/expenses";
+import { isLockedStatus } from "../api/templateWorkflow";
+import { ProjectPicker } from "../components/Editor/ProjectPicker";
+import { todayIso } from "../utils/dates";
+import { EXPENSE_CATEGORIES, EXPENSE_CATEGORY_LABELS, expensesInPeriod, totalsByCurrency } from "../utils/expenses";
+import type { ExpenseCategory } from "../utils/expenses";
+import { buildExpenseReportPdf, exportExpensesXlsx } from "../utils/exportExpenses";
+import type { TemplateRecord } from "../utils/templateData";
+
+const yellowBtn: React.CSSProperties = {
+  background: "#FFD700",
+  border: "none",
+  color: "#000",
+  fontWeight: 600,
+};
+
+const ghostBtn: React.CSSProperties = {
+  background: "transparent",
+  border: "1px solid #444",
+  color: "#ddd",
+};
+
+const inputStyle: React.CSSProperties = { background: "#0b0b0b", color: "#fff", border: "1px solid #333" };
+
+const labelStyle: React.CSSProperties = { fontSize: 12, color: "#bbb", marginBottom: 2 };
+
+const emptyExpense = (): ExpenseInput => ({
+  date: todayIso(),
+  category: "travel",
+  description: "",
+  amount: 0,
+  currency: DEFAULT_CURRENCY,
+  project: null,
+  project_id: null,
+  receipt_path: null,
+  receipt_name: null,
+  template_id: null,
+});
+
+export const Expenses: React.FC = () => {
+  const { user } = useAuth();
+  const [expenses, setExpenses] = useState<ExpenseRecord[]>([]);
+  const [templates, setTemplates] = useState<TemplateRecord[]>([]);
+  const [projects, setProjects] = useState<ProjectRecord[]>([]);
+  const [clients, setClients] = useState<ClientRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [start, setStart] = useState(() => `${todayIso().slice(0, 7)}-01`);
+  const [end, setEnd] = useState(todayIso);
+  const [attachTo, setAttachTo] = useState("");
+
+  // Claim modal
+  const [editing, setEditing] = useState<{ id?: string; input: ExpenseInput } | null>(null);
+  const [receipt, setReceipt] = useState<File | null>(null);
+
+  const loadData = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const [e, t, p, c] = await Promise.all([
+        loadExpenses(user.id),
+        supabase.from("templates").select("*").eq("user_id", user.id),
+        loadProjects(user.id),
+        loadClients(user.id),
+      ]);
+      if (t.error) throw t.error;
+      setExpenses(e);
+      setTemplates((t.data as TemplateRecord[]) || []);
+      setProjects(p);
+      setClients(c);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to load expenses: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const run = async () => {
+      await loadData();
+    };
+
+    run();
+  }, [user, loadData]);
+
+  const visible = expensesInPeriod(expenses, { start, end });
+  const totals = totalsByCurrency(visible);
+  const templateName = (id: string | null) => templates.find(t => t.id === id)?.name;
+  const attachable = templates.filter(t => !isLockedStatus(t.status ?? "draft"));
+  // Claims on a submitted or approved timesheet belong to what the reviewer sees, so bulk moves leave them alone
+  const lockedIds = new Set(templates.filter(t => isLockedStatus(t.status ?? "draft")).map(t => t.id));
+  const movable = visible.filter(e => !e.template_id || !lockedIds.has(e.template_id));
+  const reportInfo = { title: "Expense Report", period: `${start || "start"} - ${end || "today"}`, employee: user?.email ?? undefined };
+  const baseName = `expenses-${start || "all"}-${end || "all"}`;
+
+  /* --------------------------
+     Claims
+  -------------------------- */
+  const openEditor = (expense?: ExpenseRecord) => {
+    setEditing(expense ? { id: expense.id, input: toExpenseInput(expense) } : { input: emptyExpense() });
+    setReceipt(null);
+  };
+
+  const updateInput = (patch: Partial<ExpenseInput>) => setEditing(e => (e ? { ...e, input: { ...e.input, ...patch } } : e));
+
+  const saveClaim = async () => {
+    if (!user || !editing) return;
+    if (!editing.input.date) return alert("Enter the date of the expense");
+    if (!(editing.input.amount > 0)) return alert("Enter an amount greater than zero");
+    setSaving(true);
+    try {
+      let input = editing.input;
+      if (receipt) {
+        const { storagePath, filename } = await uploadReceipt(user.id, receipt);
+        input = { ...input, receipt_path: storagePath, receipt_name: filename };
+      }
+      await saveExpense(user.id, input, editing.id);
+      setEditing(null);
+      loadData();
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to save expense: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeClaim = async (expense: ExpenseRecord) => {
+    if (!window.confirm(`Delete the ${EXPENSE_CATEGORY_LABELS[expense.category].toLowerCase()} expense of ${formatMoney(expense.amount, expense.currency)}?`)) return;
+    try {
+      await deleteExpense(expense.id);
+      loadData();
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to delete expense: ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+  };
+
+  const openReceipt = async (expense: ExpenseRecord) => {
+    if (!expense.receipt_path) return;
+    try {
+      window.open(await signedFileBankUrl(expense.receipt_path), "_blank", "noopener");
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to open receipt: ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+  };
+
+  /* --------------------------
+     Report
+  -------------------------- */
+  const exportPdf = () => {
+    const pdf = buildExpenseReportPdf(visible, reportInfo);
+    downloadBlob(pdf.output("blob"), `${baseName}.pdf`);
+  };
+
+  const exportXlsx = () => {
+    try {
+      exportExpensesXlsx(visible, reportInfo, `${baseName}.xlsx`);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to export expenses: ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+  };
+
+  const attachToTemplate = async () => {
+    const targetId = attachTo || null;
+    const label = targetId ? `to ${templateName(targetId)}` : "from their timesheets";
+    const skipped = visible.length - movable.length;
+    const note = skipped ? ` ${skipped} on submitted or approved timesheets will be left as they are.` : "";
+    if (!window.confirm(`${targetId ? "Attach" : "Detach"} ${movable.length} expense${movable.length === 1 ? "" : "s"} ${label}?${note}`)) return;
+    setSaving(true);
+    try {
+      await attachExpensesToTemplate(movable.map(e => e.id), targetId);
+      loadData();
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to attach expenses: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div style={{ background: "#0f0f10", minHeight: "100vh", padding: "12px" }}>
+      <Container fluid>
+        <Card style={{ background: "transparent", border: "none", color: "#fff" }}>
+          <Card.Body style={{ padding: "12px" }}>
+            {/* Header */}
+            <Row className="mb-3 align-items-center g-2">
+              <Col xs={12} md={8}>
+                <h3 style={{ color: "#FFD700", fontWeight: 700, marginBottom: 0 }}>🧾 Expenses</h3>
+                <p style={{ color: "#aaa", fontSize: 14, marginTop: 4, marginBottom: 0 }}>
+                  Expense claims with receipts kept in your File Bank
+                </p>
+              </Col>
+              <Col xs={12} md={4} className="text-md-end">
+                <Button style={yellowBtn} onClick={() => openEditor()}>+ New Expense</Button>
+              </Col>
+            </Row>
+
+            {/* Period & report */}
+            <Card className="mb-3" style={{ background: "#171717", border: "1px solid #222", borderRadius: 8 }}>
+              <Card.Body style={{ padding: "12px" }}>
+                <Row className="g-2 align-items-end">
+                  <Col xs={6} md={2}>
+                    <Form.Label style={labelStyle}>From</Form.Label>
+                    <Form.Control type="date" value={start} onChange={e => setStart(e.target.value)} style={inputStyle} />
+                  </Col>
+                  <Col xs={6} md={2}>
+                    <Form.Label style={labelStyle}>To</Form.Label>
+                    <Form.Control type="date" value={end} onChange={e => setEnd(e.target.value)} style={inputStyle} />
+                  </Col>
+                  <Col xs={12} md={3} className="d-flex gap-2">
+                    <Button size="sm" style={ghostBtn} onClick={exportPdf} disabled={visible.length === 0}>Export PDF</Button>
+                    <Button size="sm" style={ghostBtn} onClick={exportXlsx} disabled={visible.length === 0}>Export XLSX</Button>
+                  </Col>
+                  <Col xs={8} md={3}>
+                    <Form.Label style={labelStyle}>Timesheet</Form.Label>
+                    <Form.Select value={attachTo} onChange={e => setAttachTo(e.target.value)} style={inputStyle}>
+                      <option value="">No timesheet (detach)</option>
+                      {attachable.map(t => (
+                        <option key={t.id} value={t.id}>{t.name}</option>
+                      ))}
+                    </Form.Select>
+                  </Col>
+                  <Col xs={4} md={2}>
+                    <Button size="sm" style={{ ...ghostBtn, width: "100%" }} onClick={attachToTemplate} disabled={saving || movable.length === 0}>
+                      {attachTo ? "Attach period" : "Detach period"}
+                    </Button>
+                  </Col>
+                </Row>
+              </Card.Body>
+            </Card>
+
+            {/* Claims */}
+            <Card style={{ background: "#171717", border: "1px solid #222", borderRadius: 8 }}>
+              <Card.Body style={{ padding: "12px" }}>
+                <div className="d-flex justify-content-between align-items-center" style={{ marginBottom: 12 }}>
+                  <h5 style={{ color: "#FFD700", fontWeight: 600, margin: 0 }}>Claims ({visible.length})</h5>
+                  <span style={{ fontSize: 14, color: "#ddd" }}>
+                    {Object.keys(totals).length === 0
+                      ? "—"
+                      : Object.entries(totals).map(([currency, amount]) => formatMoney(amount, currency)).join(" · ")}
+                  </span>
+                </div>
+                {loading ? (
+                  <div className="text-center p-4"><Spinner animation="border" variant="warning" /></div>
+                ) : visible.length === 0 ? (
+                  <div style={{ textAlign: "center", padding: "40px 20px", color: "#666" }}>No expenses in this period</div>
+                ) : (
+                  <div style={{ overflowX: "auto" }}>
+                    <Table size="sm" variant="dark" bordered style={{ fontSize: 13, marginBottom: 0 }}>
+                      <thead>
+                        <tr>
+                          <th>Date</th>
+                          <th>Category</th>
+                          <th>Description</th>
+                          <th>Project</th>
+                          <th style={{ textAlign: "right" }}>Amount</th>
+                          <th>Receipt</th>
+                          <th>Timesheet</th>
+                          <th />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {visible.map(e => (
+                          <tr key={e.id}>
+                            <td>{e.date}</td>
+                            <td>{EXPENSE_CATEGORY_LABELS[e.category]}</td>
+                            <td>{e.description}</td>
+                            <td>{e.project ?? ""}</td>
+                            <td style={{ textAlign: "right" }}>{formatMoney(e.amount, e.currency)}</td>
+                            <td>
+                              {e.receipt_path ? (
+                                <Button size="sm" variant="link" style={{ color: "#FFD700", padding: 0 }} onClick={() => openReceipt(e)}>
+                                  📎 {e.receipt_name ?? "Receipt"}
+                                </Button>
+                              ) : (
+                                <span style={{ color: "#dc3545" }}>Missing</span>
+                              )}
+                            </td>
+                            <td style={{ color: "#aaa" }}>{templateName(e.template_id) ?? ""}</td>
+                            <td style={{ whiteSpace: "nowrap", textAlign: "right" }}>
+                              <Button size="sm" style={ghostBtn} onClick={() => openEditor(e)}>Edit</Button>{" "}
+                              <Button size="sm" variant="outline-danger" onClick={() => removeClaim(e)}>✕</Button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </Table>
+                  </div>
+                )}
+              </Card.Body>
+            </Card>
+          </Card.Body>
+        </Card>
+      </Container>
+
+      {/* Claim Modal */}
+      <Modal show={!!editing} onHide={() => setEditing(null)} centered>
+        <Modal.Header closeButton style={{ background: "#1a1a1a", borderColor: "#333", color: "#fff" }}>
+          <Modal.Title>{editing?.id ? "Edit Expense" : "New Expense"}</Modal.Title>
+        </Modal.Header>
+        {editing && (
+          <Modal.Body style={{ background: "#0f0f10", color: "#fff" }}>
+            <div className="d-flex gap-2 mb-3">
+              <Form.Group style={{ flex: 1 }}>
+                <Form.Label>Date</Form.Label>
+                <Form.Control type="date" value={editing.input.date} onChange={e => updateInput({ date: e.target.value })} style={inputStyle} />
+              </Form.Group>
+              <Form.Group style={{ flex: 1 }}>
+                <Form.Label>Category</Form.Label>
+                <Form.Select
+                  value={editing.input.category}
+                  onChange={e => updateInput({ category: e.target.value as ExpenseCategory })}
+                  style={inputStyle}
+                >
+                  {EXPENSE_CATEGORIES.map(c => (
+                    <option key={c} value={c}>{EXPENSE_CATEGORY_LABELS[c]}</option>
+                  ))}
+                </Form.Select>
+              </Form.Group>
+            </div>
+            <div className="d-flex gap-2 mb-3">
+              <Form.Group style={{ flex: 2 }}>
+                <Form.Label>Amount</Form.Label>
+                <Form.Control
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={editing.input.amount || ""}
+                  onChange={e => updateInput({ amount: Math.max(0, Number(e.target.value) || 0) })}
+                  style={inputStyle}
+                />
+              </Form.Group>
+              <Form.Group style={{ flex: 1 }}>
+                <Form.Label>Currency</Form.Label>
+                <Form.Select value={editing.input.currency} onChange={e => updateInput({ currency: e.target.value })} style={inputStyle}>
+                  {CURRENCIES.map(c => (
+                    <option key={c} value={c}>{c}</option>
+                  ))}
+                </Form.Select>
+              </Form.Group>
+            </div>
+            <Form.Group className="mb-3">
+              <Form.Label>Description</Form.Label>
+              <Form.Control value={editing.input.description} onChange={e => updateInput({ description: e.target.value })} style={inputStyle} />
+            </Form.Group>
+            <Form.Group className="mb-3">
+              <Form.Label>Project</Form.Label>
+              <ProjectPicker
+                value={editing.input.project ?? ""}
+                projectId={editing.input.project_id ?? undefined}
+                projects={projects}
+                clients={clients}
+                onChange={(project, projectId) => updateInput({ project, project_id: projectId ?? null })}
+                style={inputStyle}
+              />
+            </Form.Group>
+            <Form.Group>
+              <Form.Label>Receipt</Form.Label>
+              {editing.input.receipt_name && !receipt && (
+                <div style={{ fontSize: 12, color: "#aaa", marginBottom: 4 }}>📎 {editing.input.receipt_name} (choose a file to replace it)</div>
+              )}
+              <Form.Control
+                type="file"
+                accept="image/*,application/pdf"
+                onChange={e => setReceipt((e.target as HTMLInputElement).files?.[0] ?? null)}
+                style={inputStyle}
+              />
+            </Form.Group>
+          </Modal.Body>
+        )}
+        <Modal.Footer style={{ background: "#1a1a1a", borderColor: "#333" }}>
+          <Button variant="secondary" onClick={() => setEditing(null)}>Cancel</Button>
+          <Button style={yellowBtn} onClick={saveClaim} disabled={saving}>
+            {saving ? <Spinner animation="border" size="sm" /> : "Save"}
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1,407 @@
+// src/pages/Invoices.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import { Badge, Button, Card, Col, Container, Form, Row, Spinner, Table } from "react-bootstrap";
+import { supabase } from "../api/supabaseClient";
+import { useAuth } from "../contexts/AuthContext";
+import { downloadBlob, uploadToFileBank } from "../api/fileBank";
+import { formatMoney, loadClients, loadProjects } from "../api/projects";
+import type { ClientRecord, ProjectRecord } from "../api/projects";
+import { INVOICE_STATUS_VARIANTS, attachInvoiceFile, createInvoice, deleteInvoice, loadInvoices, setInvoiceStatus } from "../api/invoices";
+import type { InvoiceInput, InvoiceRecord } from "../api/invoices";
+import { addDays, todayIso } from "../utils/dates";
+import { buildInvoiceLines, collectBillableEntries, invoiceTotals } from "../utils/invoices";
+import type { InvoiceStatus } from "../utils/invoices";
+import { buildInvoicePdf } from "../utils/exportInvoice";
+import type { TemplateRecord } from "../utils/templateData";
+
+const yellowBtn: React.CSSProperties = {
+  background: "#FFD700",
+  border: "none",
+  color: "#000",
+  fontWeight: 600,
+};
+
+const ghostBtn: React.CSSProperties = {
+  background: "transparent",
+  border: "1px solid #444",
+  color: "#ddd",
+};
+
+const inputStyle: React.CSSProperties = { background: "#0b0b0b", color: "#fff", border: "1px solid #333" };
+
+const labelStyle: React.CSSProperties = { fontSize: 12, color: "#bbb", marginBottom: 2 };
+
+// Defaults to last calendar month, the usual billing period
+const lastMonth = () => {
+  const firstOfThisMonth = `${todayIso().slice(0, 7)}-01`;
+  const end = addDays(firstOfThisMonth, -1);
+  return { start: `${end.slice(0, 7)}-01`, end };
+};
+
+export const Invoices: React.FC = () => {
+  const { user } = useAuth();
+  const [clients, setClients] = useState<ClientRecord[]>([]);
+  const [projects, setProjects] = useState<ProjectRecord[]>([]);
+  const [templates, setTemplates] = useState<TemplateRecord[]>([]);
+  const [invoices, setInvoices] = useState<InvoiceRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<InvoiceStatus | "all">("all");
+
+  // New invoice form
+  const [clientId, setClientId] = useState("");
+  const [range, setRange] = useState(lastMonth);
+  const [approvedOnly, setApprovedOnly] = useState(true);
+  const [taxRate, setTaxRate] = useState(0);
+  const [dueDays, setDueDays] = useState(30);
+  const [from, setFrom] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const loadData = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const [c, p, i, t] = await Promise.all([
+        loadClients(user.id),
+        loadProjects(user.id),
+        loadInvoices(user.id),
+        supabase.from("templates").select("*").eq("user_id", user.id),
+      ]);
+      if (t.error) throw t.error;
+      setClients(c);
+      setProjects(p);
+      setInvoices(i);
+      setTemplates((t.data as TemplateRecord[]) || []);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to load invoices: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const run = async () => {
+      await loadData();
+    };
+
+    run();
+  }, [user, loadData]);
+
+  /* --------------------------
+     Preview of the next invoice
+  -------------------------- */
+  const billableTemplates = approvedOnly ? templates.filter(t => t.status === "approved") : templates;
+  const entries = clientId
+    ? collectBillableEntries(billableTemplates, projects, clientId, range, invoices.flatMap(i => i.entries ?? []))
+    : [];
+  const lines = buildInvoiceLines(entries, range);
+  const totals = invoiceTotals(lines, taxRate);
+  const currencies = Array.from(new Set(entries.map(e => e.project.currency)));
+  const currency = currencies[0] ?? projects.find(p => p.client_id === clientId)?.currency ?? "USD";
+  const unrated = lines.filter(l => l.rate === 0);
+
+  const generateInvoice = async () => {
+    if (!user) return;
+    const client = clients.find(c => c.id === clientId);
+    if (!client) return alert("Choose a client");
+    if (lines.length === 0) return alert("No unbilled hours for this client in the selected period");
+    if (currencies.length > 1) return alert(`Projects for this client use different currencies (${currencies.join(", ")})`);
+
+    setCreating(true);
+    try {
+      const issueDate = todayIso();
+      const input: Omit<InvoiceInput, "number"> = {
+        client_id: client.id,
+        issue_date: issueDate,
+        due_date: addDays(issueDate, dueDays),
+        period_start: range.start,
+        period_end: range.end,
+        currency,
+        lines,
+        entries: entries.map(e => ({ templateId: e.templateId, rowId: e.rowId })),
+        subtotal: totals.subtotal,
+        tax_rate: taxRate,
+        tax: totals.tax,
+        total: totals.total,
+        notes: notes.trim() || null,
+        file_url: null,
+        storage_path: null,
+      };
+
+      // The row is inserted first so its number is taken before it is printed on the PDF
+      const invoice = await createInvoice(user.id, input);
+      let file: File;
+      try {
+        const pdf = buildInvoicePdf(invoice, { from: from.trim() || user.email || "", billTo: client.name });
+        file = new File([pdf.output("blob")], `${invoice.number}.pdf`, { type: "application/pdf" });
+        const { storagePath, url } = await uploadToFileBank(user.id, file);
+        await attachInvoiceFile(invoice.id, { file_url: url, storage_path: storagePath });
+      } catch (err) {
+        // Without its PDF the invoice is dropped again, which also frees its entries and number
+        await deleteInvoice(invoice.id).catch(console.error);
+        throw err;
+      }
+      downloadBlob(file, file.name);
+      setNotes("");
+      loadData();
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to create invoice: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const toggleStatus = async (invoice: InvoiceRecord) => {
+    try {
+      await setInvoiceStatus(invoice.id, invoice.status === "paid" ? "unpaid" : "paid");
+      loadData();
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to update invoice: ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+  };
+
+  const visibleInvoices = invoices.filter(i => statusFilter === "all" || i.status === statusFilter);
+  const outstanding = invoices
+    .filter(i => i.status === "unpaid")
+    .reduce<Record<string, number>>((acc, i) => ({ ...acc, [i.currency]: (acc[i.currency] ?? 0) + i.total }), {});
+
+  return (
+    <div style={{ background: "#0f0f10", minHeight: "100vh", padding: "12px" }}>
+      <Container fluid>
+        <Card style={{ background: "transparent", border: "none", color: "#fff" }}>
+          <Card.Body style={{ padding: "12px" }}>
+            {/* Header */}
+            <Row className="mb-3 align-items-center g-2">
+              <Col xs={12} md={8}>
+                <h3 style={{ color: "#FFD700", fontWeight: 700, marginBottom: 0 }}>🧾 Invoices</h3>
+                <p style={{ color: "#aaa", fontSize: 14, marginTop: 4, marginBottom: 0 }}>
+                  Bill clients from your tracked hours at each project's rate
+                </p>
+              </Col>
+              <Col xs={12} md={4} className="text-md-end" style={{ fontSize: 14, color: "#ddd" }}>
+                Outstanding:{" "}
+                {Object.keys(outstanding).length === 0
+                  ? "—"
+                  : Object.entries(outstanding).map(([cur, amount]) => formatMoney(amount, cur)).join(" · ")}
+              </Col>
+            </Row>
+
+            {loading ? (
+              <div className="text-center p-4"><Spinner animation="border" variant="warning" /></div>
+            ) : (
+              <>
+                {/* New invoice */}
+                <Card className="mb-3" style={{ background: "#171717", border: "1px solid #222", borderRadius: 8 }}>
+                  <Card.Body style={{ padding: "12px" }}>
+                    <h5 style={{ color: "#FFD700", fontWeight: 600, marginBottom: 12 }}>New Invoice</h5>
+                    <Row className="g-2 mb-2">
+                      <Col xs={12} md={3}>
+                        <Form.Label style={labelStyle}>Client</Form.Label>
+                        <Form.Select value={clientId} onChange={e => setClientId(e.target.value)} style={inputStyle}>
+                          <option value="">Choose a client…</option>
+                          {clients.map(c => (
+                            <option key={c.id} value={c.id}>{c.name}</option>
+                          ))}
+                        </Form.Select>
+                      </Col>
+                      <Col xs={6} md={2}>
+                        <Form.Label style={labelStyle}>From</Form.Label>
+                        <Form.Control
+                          type="date"
+                          value={range.start}
+                          onChange={e => setRange(r => ({ ...r, start: e.target.value }))}
+                          style={inputStyle}
+                        />
+                      </Col>
+                      <Col xs={6} md={2}>
+                        <Form.Label style={labelStyle}>To</Form.Label>
+                        <Form.Control
+                          type="date"
+                          value={range.end}
+                          onChange={e => setRange(r => ({ ...r, end: e.target.value }))}
+                          style={inputStyle}
+                        />
+                      </Col>
+                      <Col xs={4} md={1}>
+                        <Form.Label style={labelStyle}>Tax %</Form.Label>
+                        <Form.Control
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          value={taxRate}
+                          onChange={e => setTaxRate(Math.max(0, Number(e.target.value) || 0))}
+                          style={inputStyle}
+                        />
+                      </Col>
+                      <Col xs={4} md={1}>
+                        <Form.Label style={labelStyle}>Due (days)</Form.Label>
+                        <Form.Control
+                          type="number"
+                          min={0}
+                          value={dueDays}
+                          onChange={e => setDueDays(Math.max(0, Number(e.target.value) || 0))}
+                          style={inputStyle}
+                        />
+                      </Col>
+                      <Col xs={12} md={3}>
+                        <Form.Label style={labelStyle}>Your name / business</Form.Label>
+                        <Form.Control value={from} onChange={e => setFrom(e.target.value)} placeholder={user?.email ?? ""} style={inputStyle} />
+                      </Col>
+                    </Row>
+                    <Form.Control
+                      as="textarea"
+                      rows={2}
+                      className="mb-2"
+                      value={notes}
+                      onChange={e => setNotes(e.target.value)}
+                      placeholder="Notes (payment details, terms…)"
+                      style={inputStyle}
+                    />
+                    <Form.Check
+                      type="switch"
+                      id="invoice-approved-only"
+                      className="mb-2"
+                      label="Only bill hours from approved timesheets"
+                      checked={approvedOnly}
+                      onChange={e => setApprovedOnly(e.target.checked)}
+                    />
+
+                    {clientId && (
+                      <>
+                        <Table size="sm" variant="dark" bordered style={{ fontSize: 13 }}>
+                          <thead>
+                            <tr>
+                              <th>Description</th>
+                              <th style={{ textAlign: "right" }}>Hours</th>
+                              <th style={{ textAlign: "right" }}>Rate</th>
+                              <th style={{ textAlign: "right" }}>Amount</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {lines.length === 0 ? (
+                              <tr>
+                                <td colSpan={4} style={{ color: "#888", textAlign: "center" }}>
+                                  No unbilled hours for this client in the selected period
+                                </td>
+                              </tr>
+                            ) : (
+                              lines.map(l => (
+                                <tr key={l.projectId}>
+                                  <td>{l.description}</td>
+                                  <td style={{ textAlign: "right" }}>{l.hours.toFixed(2)}</td>
+                                  <td style={{ textAlign: "right" }}>{formatMoney(l.rate, currency)}</td>
+                                  <td style={{ textAlign: "right" }}>{formatMoney(l.amount, currency)}</td>
+                                </tr>
+                              ))
+                            )}
+                          </tbody>
+                          <tfoot>
+                            <tr>
+                              <td colSpan={3} style={{ textAlign: "right" }}>Subtotal</td>
+                              <td style={{ textAlign: "right" }}>{formatMoney(totals.subtotal, currency)}</td>
+                            </tr>
+                            <tr>
+                              <td colSpan={3} style={{ textAlign: "right" }}>Tax ({taxRate}%)</td>
+                              <td style={{ textAlign: "right" }}>{formatMoney(totals.tax, currency)}</td>
+                            </tr>
+                            <tr>
+                              <td colSpan={3} style={{ textAlign: "right", fontWeight: 700 }}>Total</td>
+                              <td style={{ textAlign: "right", fontWeight: 700, color: "#FFD700" }}>{formatMoney(totals.total, currency)}</td>
+                            </tr>
+                          </tfoot>
+                        </Table>
+                        {unrated.length > 0 && (
+                          <div style={{ color: "#ff9800", fontSize: 13, marginBottom: 8 }}>
+                            ⚠️ No default rate set for {unrated.length} project(s); set one on the Projects page
+                          </div>
+                        )}
+                        {currencies.length > 1 && (
+                          <div style={{ color: "#dc3545", fontSize: 13, marginBottom: 8 }}>
+                            Projects for this client use different currencies ({currencies.join(", ")})
+                          </div>
+                        )}
+                      </>
+                    )}
+
+                    <Button style={yellowBtn} onClick={generateInvoice} disabled={creating || lines.length === 0 || currencies.length > 1}>
+                      {creating ? <Spinner animation="border" size="sm" /> : "Create Invoice PDF"}
+                    </Button>
+                  </Card.Body>
+                </Card>
+
+                {/* Invoice list */}
+                <Card style={{ background: "#171717", border: "1px solid #222", borderRadius: 8 }}>
+                  <Card.Body style={{ padding: "12px" }}>
+                    <div className="d-flex justify-content-between align-items-center" style={{ marginBottom: 12 }}>
+                      <h5 style={{ color: "#FFD700", fontWeight: 600, margin: 0 }}>Issued ({visibleInvoices.length})</h5>
+                      <Form.Select
+                        size="sm"
+                        value={statusFilter}
+                        onChange={e => setStatusFilter(e.target.value as InvoiceStatus | "all")}
+                        style={{ ...inputStyle, maxWidth: 160 }}
+                      >
+                        <option value="all">All</option>
+                        <option value="unpaid">Unpaid</option>
+                        <option value="paid">Paid</option>
+                      </Form.Select>
+                    </div>
+                    {visibleInvoices.length === 0 ? (
+                      <div style={{ textAlign: "center", padding: "40px 20px", color: "#666" }}>No invoices yet</div>
+                    ) : (
+                      <div style={{ overflowX: "auto" }}>
+                        <Table size="sm" variant="dark" bordered style={{ fontSize: 13, marginBottom: 0 }}>
+                          <thead>
+                            <tr>
+                              <th>Number</th>
+                              <th>Client</th>
+                              <th>Period</th>
+                              <th>Due</th>
+                              <th style={{ textAlign: "right" }}>Total</th>
+                              <th>Status</th>
+                              <th />
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {visibleInvoices.map(i => (
+                              <tr key={i.id}>
+                                <td>{i.number}</td>
+                                <td>{clients.find(c => c.id === i.client_id)?.name ?? "—"}</td>
+                                <td>{i.period_start} – {i.period_end}</td>
+                                <td style={{ color: i.status === "unpaid" && i.due_date < todayIso() ? "#dc3545" : undefined }}>
+                                  {i.due_date}
+                                </td>
+                                <td style={{ textAlign: "right" }}>{formatMoney(i.total, i.currency)}</td>
+                                <td>
+                                  <Badge bg={INVOICE_STATUS_VARIANTS[i.status]}>{i.status === "paid" ? "Paid" : "Unpaid"}</Badge>
+                                </td>
+                                <td style={{ whiteSpace: "nowrap", textAlign: "right" }}>
+                                  {i.file_url && (
+                                    <Button size="sm" style={ghostBtn} href={i.file_url} target="_blank" rel="noreferrer">
+                                      PDF
+                                    </Button>
+                                  )}{" "}
+                                  <Button size="sm" style={ghostBtn} onClick={() => toggleStatus(i)}>
+                                    {i.status === "paid" ? "Mark unpaid" : "Mark paid"}
+                                  </Button>
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </Table>
+                      </div>
+                    )}
+                  </Card.Body>
+                </Card>
+              </>
+            )}
+          </Card.Body>
+        </Card>
+      </Container>
+    </div>
+  );
+};
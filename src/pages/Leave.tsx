@@ -0,0 +1,464 @@
+// src/pages/Leave.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import { Badge, Button, Card, Col, Container, Form, Modal, Row, Spinner, Table } from "react-bootstrap";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  LEAVE_STATUS_VARIANTS,
+  changeLeaveStatus,
+  createLeaveRequest,
+  deletePublicHoliday,
+  importPublicHolidays,
+  loadLeaveBalances,
+  loadLeaveRequests,
+  loadPublicHolidays,
+  saveLeaveBalance,
+} from "../api/leave";
+import type { LeaveBalanceRecord, LeaveRequestRecord, PublicHolidayRecord } from "../api/leave";
+import { todayIso } from "../utils/dates";
+import { icsToHolidays } from "../utils/importEntries";
+import { LEAVE_TYPES, LEAVE_TYPE_LABELS, defaultBalanceSettings, leaveBalance, leaveDayCount } from "../utils/leave";
+import type { AccrualPeriod, LeaveBalanceSettings, LeaveType } from "../utils/leave";
+
+const yellowBtn: React.CSSProperties = {
+  background: "#FFD700",
+  border: "none",
+  color: "#000",
+  fontWeight: 600,
+};
+
+const ghostBtn: React.CSSProperties = {
+  background: "transparent",
+  border: "1px solid #444",
+  color: "#ddd",
+};
+
+const inputStyle: React.CSSProperties = { background: "#0b0b0b", color: "#fff", border: "1px solid #333" };
+
+const labelStyle: React.CSSProperties = { fontSize: 12, color: "#bbb", marginBottom: 2 };
+
+const cardStyle: React.CSSProperties = { background: "#171717", border: "1px solid #222", borderRadius: 8 };
+
+const formatDays = (days: number) => `${Number.isInteger(days) ? days : days.toFixed(1)} day${days === 1 ? "" : "s"}`;
+
+export const Leave: React.FC = () => {
+  const { user } = useAuth();
+  const [balances, setBalances] = useState<LeaveBalanceRecord[]>([]);
+  const [requests, setRequests] = useState<LeaveRequestRecord[]>([]);
+  const [holidays, setHolidays] = useState<PublicHolidayRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [showPastHolidays, setShowPastHolidays] = useState(false);
+  const [editing, setEditing] = useState<LeaveBalanceSettings | null>(null);
+
+  // Request form
+  const [leaveType, setLeaveType] = useState<LeaveType>("vacation");
+  const [start, setStart] = useState(todayIso);
+  const [end, setEnd] = useState(todayIso);
+  const [halfDay, setHalfDay] = useState(false);
+  const [note, setNote] = useState("");
+
+  const loadData = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const [b, r, h] = await Promise.all([
+        loadLeaveBalances(user.id),
+        loadLeaveRequests([user.id]),
+        loadPublicHolidays(user.id),
+      ]);
+      setBalances(b);
+      setRequests(r);
+      setHolidays(h);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to load leave: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const run = async () => {
+      await loadData();
+    };
+
+    run();
+  }, [user, loadData]);
+
+  const today = todayIso();
+  const settingsFor = (type: LeaveType) =>
+    balances.find(b => b.leave_type === type) ?? defaultBalanceSettings(type, `${today.slice(0, 4)}-01-01`);
+  const holidayDates = holidays.map(h => h.date);
+  const singleDay = start === end;
+  const requestedDays = leaveDayCount(start, end, holidayDates, singleDay && halfDay);
+  const available = leaveBalance(settingsFor(leaveType), requests, end || today).available;
+
+  /* --------------------------
+     Requests
+  -------------------------- */
+  const submitRequest = async () => {
+    if (!user) return;
+    if (requestedDays > available && !window.confirm(`This request exceeds your available ${LEAVE_TYPE_LABELS[leaveType].toLowerCase()}. Submit anyway?`)) return;
+    setSaving(true);
+    try {
+      await createLeaveRequest(user, {
+        leave_type: leaveType,
+        start_date: start,
+        end_date: end,
+        half_day: singleDay && halfDay,
+        days: requestedDays,
+        note,
+      });
+      setNote("");
+      setHalfDay(false);
+      loadData();
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to request leave: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const cancelRequest = async (request: LeaveRequestRecord) => {
+    if (!window.confirm("Cancel this leave request?")) return;
+    try {
+      await changeLeaveStatus(request.id, "cancelled");
+      loadData();
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to cancel request: ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+  };
+
+  /* --------------------------
+     Allowances
+  -------------------------- */
+  const saveAllowance = async () => {
+    if (!user || !editing) return;
+    setSaving(true);
+    try {
+      await saveLeaveBalance(user.id, editing);
+      setEditing(null);
+      loadData();
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to save allowance: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /* --------------------------
+     Public holidays
+  -------------------------- */
+  const importHolidays = async (file: File) => {
+    if (!user) return;
+    try {
+      const parsed = icsToHolidays(await file.text());
+      if (parsed.length === 0) return alert("No all-day events found in this calendar");
+      const added = await importPublicHolidays(user.id, parsed);
+      alert(`Imported ${added} holiday${added === 1 ? "" : "s"}${added < parsed.length ? ` (${parsed.length - added} already in your calendar)` : ""}`);
+      loadData();
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to import holidays: ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+  };
+
+  const removeHoliday = async (holiday: PublicHolidayRecord) => {
+    try {
+      await deletePublicHoliday(holiday.id);
+      loadData();
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to delete holiday: ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+  };
+
+  const visibleHolidays = showPastHolidays ? holidays : holidays.filter(h => h.date >= today);
+
+  return (
+    <div style={{ background: "#0f0f10", minHeight: "100vh", padding: "12px" }}>
+      <Container fluid>
+        <Card style={{ background: "transparent", border: "none", color: "#fff" }}>
+          <Card.Body style={{ padding: "12px" }}>
+            {/* Header */}
+            <Row className="mb-3 align-items-center g-2">
+              <Col xs={12}>
+                <h3 style={{ color: "#FFD700", fontWeight: 700, marginBottom: 0 }}>🌴 Leave</h3>
+                <p style={{ color: "#aaa", fontSize: 14, marginTop: 4, marginBottom: 0 }}>
+                  Balances, leave requests and public holidays; approved leave is added to generated timesheets
+                </p>
+              </Col>
+            </Row>
+
+            {loading ? (
+              <div className="text-center p-4"><Spinner animation="border" variant="warning" /></div>
+            ) : (
+              <>
+                {/* Balances */}
+                <Row className="g-3 mb-3">
+                  {LEAVE_TYPES.map(type => {
+                    const settings = settingsFor(type);
+                    const balance = leaveBalance(settings, requests, today);
+                    return (
+                      <Col key={type} xs={12} md={6}>
+                        <Card style={cardStyle}>
+                          <Card.Body style={{ padding: "12px" }}>
+                            <div className="d-flex justify-content-between align-items-start">
+                              <div>
+                                <div style={{ color: "#bbb", fontSize: 13 }}>{LEAVE_TYPE_LABELS[type]}</div>
+                                <div style={{ fontSize: 28, fontWeight: 700, color: balance.available < 0 ? "#dc3545" : "#FFD700" }}>
+                                  {formatDays(balance.available)}
+                                </div>
+                              </div>
+                              <Button size="sm" style={ghostBtn} onClick={() => setEditing({ ...settings })}>Allowance</Button>
+                            </div>
+                            <div style={{ fontSize: 12, color: "#888" }}>
+                              {formatDays(balance.accrued)} accrued • {formatDays(balance.taken)} taken • {formatDays(balance.pending)} pending
+                              {settings.accrual_days > 0 && ` • +${settings.accrual_days} per ${settings.accrual_period === "monthly" ? "month" : "year"}`}
+                            </div>
+                          </Card.Body>
+                        </Card>
+                      </Col>
+                    );
+                  })}
+                </Row>
+
+                {/* Request form */}
+                <Card className="mb-3" style={cardStyle}>
+                  <Card.Body style={{ padding: "12px" }}>
+                    <h5 style={{ color: "#FFD700", fontWeight: 600, marginBottom: 12 }}>Request Leave</h5>
+                    <Row className="g-2 align-items-end">
+                      <Col xs={12} md={2}>
+                        <Form.Label style={labelStyle}>Type</Form.Label>
+                        <Form.Select value={leaveType} onChange={e => setLeaveType(e.target.value as LeaveType)} style={inputStyle}>
+                          {LEAVE_TYPES.map(t => (
+                            <option key={t} value={t}>{LEAVE_TYPE_LABELS[t]}</option>
+                          ))}
+                        </Form.Select>
+                      </Col>
+                      <Col xs={6} md={2}>
+                        <Form.Label style={labelStyle}>From</Form.Label>
+                        <Form.Control
+                          type="date"
+                          value={start}
+                          onChange={e => {
+                            setStart(e.target.value);
+                            if (end < e.target.value) setEnd(e.target.value);
+                          }}
+                          style={inputStyle}
+                        />
+                      </Col>
+                      <Col xs={6} md={2}>
+                        <Form.Label style={labelStyle}>To</Form.Label>
+                        <Form.Control type="date" value={end} min={start} onChange={e => setEnd(e.target.value)} style={inputStyle} />
+                      </Col>
+                      <Col xs={12} md={4}>
+                        <Form.Label style={labelStyle}>Note</Form.Label>
+                        <Form.Control value={note} onChange={e => setNote(e.target.value)} placeholder="Optional" style={inputStyle} />
+                      </Col>
+                      <Col xs={12} md={2}>
+                        <Button style={{ ...yellowBtn, width: "100%" }} onClick={submitRequest} disabled={saving || requestedDays <= 0}>
+                          {saving ? <Spinner animation="border" size="sm" /> : "Submit Request"}
+                        </Button>
+                      </Col>
+                    </Row>
+                    <div className="d-flex align-items-center gap-3 mt-2" style={{ fontSize: 13, color: "#bbb" }}>
+                      <Form.Check
+                        type="switch"
+                        id="leave-half-day"
+                        label="Half day"
+                        checked={singleDay && halfDay}
+                        disabled={!singleDay}
+                        onChange={e => setHalfDay(e.target.checked)}
+                      />
+                      <span>
+                        {formatDays(requestedDays)} of {LEAVE_TYPE_LABELS[leaveType].toLowerCase()} • {formatDays(available)} available
+                      </span>
+                      {requestedDays > available && <span style={{ color: "#dc3545" }}>Exceeds the available balance</span>}
+                    </div>
+                  </Card.Body>
+                </Card>
+
+                <Row className="g-3">
+                  {/* My requests */}
+                  <Col xs={12} lg={7}>
+                    <Card style={cardStyle}>
+                      <Card.Body style={{ padding: "12px" }}>
+                        <h5 style={{ color: "#FFD700", fontWeight: 600, marginBottom: 12 }}>My Requests ({requests.length})</h5>
+                        {requests.length === 0 ? (
+                          <div style={{ textAlign: "center", padding: "30px 20px", color: "#666" }}>No leave requested yet</div>
+                        ) : (
+                          <div style={{ overflowX: "auto" }}>
+                            <Table size="sm" variant="dark" bordered style={{ fontSize: 13, marginBottom: 0 }}>
+                              <thead>
+                                <tr>
+                                  <th>Type</th>
+                                  <th>Dates</th>
+                                  <th style={{ textAlign: "right" }}>Days</th>
+                                  <th>Status</th>
+                                  <th />
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {requests.map(r => (
+                                  <tr key={r.id}>
+                                    <td>{LEAVE_TYPE_LABELS[r.leave_type]}</td>
+                                    <td>
+                                      {r.start_date}
+                                      {r.end_date !== r.start_date ? ` - ${r.end_date}` : r.half_day ? " (half day)" : ""}
+                                      {r.note && <div style={{ fontSize: 11, color: "#888" }}>{r.note}</div>}
+                                    </td>
+                                    <td style={{ textAlign: "right" }}>{r.days}</td>
+                                    <td>
+                                      <Badge bg={LEAVE_STATUS_VARIANTS[r.status]}>{r.status}</Badge>
+                                      {r.review_comment && <div style={{ fontSize: 11, color: "#888" }}>{r.review_comment}</div>}
+                                    </td>
+                                    <td style={{ textAlign: "right" }}>
+                                      {r.status === "pending" && (
+                                        <Button size="sm" style={ghostBtn} onClick={() => cancelRequest(r)}>Cancel</Button>
+                                      )}
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </Table>
+                          </div>
+                        )}
+                      </Card.Body>
+                    </Card>
+                  </Col>
+
+                  {/* Public holidays */}
+                  <Col xs={12} lg={5}>
+                    <Card style={cardStyle}>
+                      <Card.Body style={{ padding: "12px" }}>
+                        <div className="d-flex justify-content-between align-items-center" style={{ marginBottom: 12 }}>
+                          <h5 style={{ color: "#FFD700", fontWeight: 600, margin: 0 }}>Public Holidays</h5>
+                          <Form.Label className="btn btn-sm mb-0" style={ghostBtn}>
+                            Import .ics
+                            <Form.Control
+                              type="file"
+                              accept=".ics,text/calendar"
+                              hidden
+                              onChange={e => {
+                                const input = e.target as HTMLInputElement;
+                                const file = input.files?.[0];
+                                input.value = "";
+                                if (file) importHolidays(file);
+                              }}
+                            />
+                          </Form.Label>
+                        </div>
+                        <Form.Check
+                          type="switch"
+                          id="show-past-holidays"
+                          label="Show past holidays"
+                          checked={showPastHolidays}
+                          onChange={e => setShowPastHolidays(e.target.checked)}
+                          className="mb-2"
+                          style={{ fontSize: 13, color: "#bbb" }}
+                        />
+                        {visibleHolidays.length === 0 ? (
+                          <div style={{ textAlign: "center", padding: "30px 20px", color: "#666" }}>
+                            Import your region's holiday calendar (.ics) to skip them in leave requests and fill them into timesheets
+                          </div>
+                        ) : (
+                          <div style={{ maxHeight: 360, overflowY: "auto" }}>
+                            {visibleHolidays.map(h => (
+                              <div
+                                key={h.id}
+                                className="d-flex justify-content-between align-items-center"
+                                style={{ borderBottom: "1px solid #222", padding: "4px 0", fontSize: 13 }}
+                              >
+                                <span>
+                                  <span style={{ color: "#FFD700", marginRight: 8 }}>{h.date}</span>
+                                  {h.name}
+                                </span>
+                                <Button size="sm" variant="link" style={{ color: "#dc3545", padding: 0 }} onClick={() => removeHoliday(h)}>
+                                  ✕
+                                </Button>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </Card.Body>
+                    </Card>
+                  </Col>
+                </Row>
+              </>
+            )}
+          </Card.Body>
+        </Card>
+      </Container>
+
+      {/* Allowance Modal */}
+      <Modal show={!!editing} onHide={() => setEditing(null)} centered>
+        <Modal.Header closeButton style={{ background: "#1a1a1a", borderColor: "#333", color: "#fff" }}>
+          <Modal.Title>{editing ? LEAVE_TYPE_LABELS[editing.leave_type] : ""} Allowance</Modal.Title>
+        </Modal.Header>
+        {editing && (
+          <Modal.Body style={{ background: "#0f0f10", color: "#fff" }}>
+            <Form.Group className="mb-3">
+              <Form.Label>Opening balance (days)</Form.Label>
+              <Form.Control
+                type="number"
+                step={0.5}
+                value={editing.opening_days}
+                onChange={e => setEditing({ ...editing, opening_days: Number(e.target.value) || 0 })}
+                style={inputStyle}
+              />
+            </Form.Group>
+            <div className="d-flex gap-2 mb-3">
+              <Form.Group style={{ flex: 1 }}>
+                <Form.Label>Accrual (days)</Form.Label>
+                <Form.Control
+                  type="number"
+                  min={0}
+                  step={0.25}
+                  value={editing.accrual_days}
+                  onChange={e => setEditing({ ...editing, accrual_days: Math.max(0, Number(e.target.value) || 0) })}
+                  style={inputStyle}
+                />
+              </Form.Group>
+              <Form.Group style={{ flex: 1 }}>
+                <Form.Label>Every</Form.Label>
+                <Form.Select
+                  value={editing.accrual_period}
+                  onChange={e => setEditing({ ...editing, accrual_period: e.target.value as AccrualPeriod })}
+                  style={inputStyle}
+                >
+                  <option value="monthly">Month</option>
+                  <option value="yearly">Year</option>
+                </Form.Select>
+              </Form.Group>
+            </div>
+            <Form.Group>
+              <Form.Label>Effective from</Form.Label>
+              <Form.Control
+                type="date"
+                value={editing.effective_from}
+                onChange={e => setEditing({ ...editing, effective_from: e.target.value })}
+                style={inputStyle}
+              />
+            </Form.Group>
+            <div style={{ color: "#888", fontSize: 12, marginTop: 12 }}>
+              The accrual is credited on this date and every {editing.accrual_period === "monthly" ? "month" : "year"} after it.
+              Leave starting earlier doesn't count against this balance.
+            </div>
+          </Modal.Body>
+        )}
+        <Modal.Footer style={{ background: "#1a1a1a", borderColor: "#333" }}>
+          <Button variant="secondary" onClick={() => setEditing(null)}>Cancel</Button>
+          <Button style={yellowBtn} onClick={saveAllowance} disabled={saving || !editing?.effective_from}>
+            {saving ? <Spinner animation="border" size="sm" /> : "Save"}
+          </Button>
+        </Modal.Footer>
+      </Modal>
+    </div>
+  );
+};
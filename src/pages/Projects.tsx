@@ -0,0 +1,381 @@
+// src/pages/Projects.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import { Badge, Button, Card, Col, Container, Form, ListGroup, Modal, Row, Spinner, Table } from "react-bootstrap";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  deleteClient,
+  formatMoney,
+  loadClients,
+  loadProjects,
+  saveClient,
+  saveProject,
+  toProjectInput,
+} from "../api/projects";
+import type { ClientRecord, ProjectInput, ProjectRecord } from "../api/projects";
+
+const yellowBtn: React.CSSProperties = {
+  background: "#FFD700",
+  border: "none",
+  color: "#000",
+  fontWeight: 600,
+};
+
+const ghostBtn: React.CSSProperties = {
+  background: "transparent",
+  border: "1px solid #444",
+  color: "#ddd",
+};
+
+const inputStyle: React.CSSProperties = { background: "#0b0b0b", color: "#fff", border: "1px solid #333" };
+
+const emptyProject = (): ProjectInput => ({
+  name: "",
+  code: "",
+  client_id: null,
+  default_rate: null,
+  currency: DEFAULT_CURRENCY,
+  active: true,
+});
+
+export const Projects: React.FC = () => {
+  const { user } = useAuth();
+  const [clients, setClients] = useState<ClientRecord[]>([]);
+  const [projects, setProjects] = useState<ProjectRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+
+  // Modal state; `id` is undefined when creating
+  const [editingProject, setEditingProject] = useState<{ id?: string; input: ProjectInput } | null>(null);
+  const [editingClient, setEditingClient] = useState<{ id?: string; name: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadCatalogue = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const [c, p] = await Promise.all([loadClients(user.id), loadProjects(user.id)]);
+      setClients(c);
+      setProjects(p);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to load projects: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const run = async () => {
+      await loadCatalogue();
+    };
+
+    run();
+  }, [user, loadCatalogue]);
+
+  const clientName = (id: string | null) => clients.find(c => c.id === id)?.name ?? "—";
+
+  const submitProject = async () => {
+    if (!user || !editingProject) return;
+    const { id, input } = editingProject;
+    if (!input.name.trim()) return alert("Project name is required");
+    const duplicate = projects.find(
+      p => p.id !== id && !!input.code?.trim() && p.code?.toLowerCase() === input.code.trim().toLowerCase()
+    );
+    if (duplicate) return alert(`Code "${input.code}" is already used by ${duplicate.name}`);
+    setSaving(true);
+    try {
+      await saveProject(user.id, input, id);
+      setEditingProject(null);
+      loadCatalogue();
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to save project: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleArchived = async (p: ProjectRecord) => {
+    if (!user) return;
+    try {
+      await saveProject(user.id, { ...toProjectInput(p), active: !p.active }, p.id);
+      loadCatalogue();
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to update project: ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+  };
+
+  const submitClient = async () => {
+    if (!user || !editingClient?.name.trim()) return;
+    setSaving(true);
+    try {
+      await saveClient(user.id, editingClient.name.trim(), editingClient.id);
+      setEditingClient(null);
+      loadCatalogue();
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to save client: ${err instanceof Error ? err.message : "Unknown error"}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeClient = async (c: ClientRecord) => {
+    if (!window.confirm(`Delete client "${c.name}"?`)) return;
+    try {
+      await deleteClient(c.id);
+      loadCatalogue();
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to delete client: ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+  };
+
+  const visibleProjects = projects.filter(p => showArchived || p.active);
+
+  const updateInput = (patch: Partial<ProjectInput>) =>
+    setEditingProject(prev => (prev ? { ...prev, input: { ...prev.input, ...patch } } : prev));
+
+  return (
+    <div style={{ background: "#0f0f10", minHeight: "100vh", padding: "12px" }}>
+      <Container fluid>
+        <Card style={{ background: "transparent", border: "none", color: "#fff" }}>
+          <Card.Body style={{ padding: "12px" }}>
+            {/* Header */}
+            <Row className="mb-3 align-items-center g-2">
+              <Col xs={12} md={8}>
+                <h3 style={{ color: "#FFD700", fontWeight: 700, marginBottom: 0 }}>📁 Projects & Clients</h3>
+                <p style={{ color: "#aaa", fontSize: 14, marginTop: 4, marginBottom: 0 }}>
+                  The catalogue time entries pick their project from, with default rates for billing
+                </p>
+              </Col>
+              <Col xs={12} md={4} className="text-md-end d-flex gap-2 justify-content-md-end">
+                <Button style={ghostBtn} onClick={() => setEditingClient({ name: "" })}>+ Client</Button>
+                <Button style={yellowBtn} onClick={() => setEditingProject({ input: emptyProject() })}>+ Project</Button>
+              </Col>
+            </Row>
+
+            {loading ? (
+              <div className="text-center p-4"><Spinner animation="border" variant="warning" /></div>
+            ) : (
+              <Row className="g-3">
+                {/* Projects */}
+                <Col xs={12} lg={8}>
+                  <Card style={{ background: "#171717", border: "1px solid #222", borderRadius: 8 }}>
+                    <Card.Body style={{ padding: "12px" }}>
+                      <div className="d-flex justify-content-between align-items-center" style={{ marginBottom: 12 }}>
+                        <h5 style={{ color: "#FFD700", fontWeight: 600, margin: 0 }}>Projects ({visibleProjects.length})</h5>
+                        <Form.Check
+                          type="switch"
+                          id="projects-show-archived"
+                          label="Show archived"
+                          checked={showArchived}
+                          onChange={e => setShowArchived(e.target.checked)}
+                          style={{ color: "#ddd" }}
+                        />
+                      </div>
+                      {visibleProjects.length === 0 ? (
+                        <div style={{ textAlign: "center", padding: "40px 20px", color: "#666" }}>No projects yet</div>
+                      ) : (
+                        <div style={{ overflowX: "auto" }}>
+                          <Table variant="dark" size="sm" bordered style={{ fontSize: 13, marginBottom: 0 }}>
+                            <thead>
+                              <tr>
+                                <th>Code</th>
+                                <th>Name</th>
+                                <th>Client</th>
+                                <th>Default rate</th>
+                                <th />
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {visibleProjects.map(p => (
+                                <tr key={p.id} style={{ opacity: p.active ? 1 : 0.6 }}>
+                                  <td>{p.code || "—"}</td>
+                                  <td>
+                                    {p.name} {!p.active && <Badge bg="secondary">Archived</Badge>}
+                                  </td>
+                                  <td>{clientName(p.client_id)}</td>
+                                  <td>{p.default_rate !== null ? `${formatMoney(p.default_rate, p.currency)}/h` : "—"}</td>
+                                  <td style={{ whiteSpace: "nowrap", textAlign: "right" }}>
+                                    <Button
+                                      size="sm"
+                                      style={ghostBtn}
+                                      onClick={() => setEditingProject({ id: p.id, input: toProjectInput(p) })}
+                                    >
+                                      Edit
+                                    </Button>{" "}
+                                    <Button size="sm" style={ghostBtn} onClick={() => toggleArchived(p)}>
+                                      {p.active ? "Archive" : "Restore"}
+                                    </Button>
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </Table>
+                        </div>
+                      )}
+                    </Card.Body>
+                  </Card>
+                </Col>
+
+                {/* Clients */}
+                <Col xs={12} lg={4}>
+                  <Card style={{ background: "#171717", border: "1px solid #222", borderRadius: 8 }}>
+                    <Card.Body style={{ padding: "12px" }}>
+                      <h5 style={{ color: "#FFD700", fontWeight: 600, marginBottom: 12 }}>Clients ({clients.length})</h5>
+                      {clients.length === 0 ? (
+                        <div style={{ textAlign: "center", padding: "40px 20px", color: "#666" }}>No clients yet</div>
+                      ) : (
+                        <ListGroup variant="flush">
+                          {clients.map(c => (
+                            <ListGroup.Item
+                              key={c.id}
+                              className="d-flex justify-content-between align-items-center"
+                              style={{ background: "#0b0b0b", color: "#e0e0e0", border: "1px solid #222", borderRadius: 6, marginBottom: 6 }}
+                            >
+                              <span>
+                                {c.name}{" "}
+                                <span style={{ fontSize: 12, color: "#888" }}>
+                                  ({projects.filter(p => p.client_id === c.id).length} projects)
+                                </span>
+                              </span>
+                              <span className="d-flex gap-2">
+                                <Button size="sm" style={ghostBtn} onClick={() => setEditingClient({ id: c.id, name: c.name })}>
+                                  Rename
+                                </Button>
+                                <Button size="sm" variant="outline-danger" onClick={() => removeClient(c)}>✕</Button>
+                              </span>
+                            </ListGroup.Item>
+                          ))}
+                        </ListGroup>
+                      )}
+                    </Card.Body>
+                  </Card>
+                </Col>
+              </Row>
+            )}
+          </Card.Body>
+        </Card>
+      </Container>
+
+      {/* Project Modal */}
+      <Modal show={!!editingProject} onHide={() => setEditingProject(null)} centered>
+        <Modal.Header closeButton style={{ background: "#1a1a1a", borderColor: "#333", color: "#fff" }}>
+          <Modal.Title>{editingProject?.id ? "Edit Project" : "New Project"}</Modal.Title>
+        </Modal.Header>
+        <Modal.Body style={{ background: "#0f0f10", color: "#fff" }}>
+          {editingProject && (
+            <>
+              <Row className="g-2">
+                <Col xs={8}>
+                  <Form.Group className="mb-3">
+                    <Form.Label>Name</Form.Label>
+                    <Form.Control
+                      value={editingProject.input.name}
+                      onChange={e => updateInput({ name: e.target.value })}
+                      autoFocus
+                      style={inputStyle}
+                    />
+                  </Form.Group>
+                </Col>
+                <Col xs={4}>
+                  <Form.Group className="mb-3">
+                    <Form.Label>Code</Form.Label>
+                    <Form.Control
+                      value={editingProject.input.code ?? ""}
+                      onChange={e => updateInput({ code: e.target.value })}
+                      placeholder="e.g. ACME-01"
+                      style={inputStyle}
+                    />
+                  </Form.Group>
+                </Col>
+              </Row>
+              <Form.Group className="mb-3">
+                <Form.Label>Client</Form.Label>
+                <Form.Select
+                  value={editingProject.input.client_id ?? ""}
+                  onChange={e => updateInput({ client_id: e.target.value || null })}
+                  style={inputStyle}
+                >
+                  <option value="">No client</option>
+                  {clients.map(c => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </Form.Select>
+              </Form.Group>
+              <Row className="g-2">
+                <Col xs={8}>
+                  <Form.Group className="mb-3">
+                    <Form.Label>Default hourly rate</Form.Label>
+                    <Form.Control
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={editingProject.input.default_rate ?? ""}
+                      onChange={e => updateInput({ default_rate: e.target.value === "" ? null : Math.max(0, Number(e.target.value)) })}
+                      style={inputStyle}
+                    />
+                  </Form.Group>
+                </Col>
+                <Col xs={4}>
+                  <Form.Group className="mb-3">
+                    <Form.Label>Currency</Form.Label>
+                    <Form.Select
+                      value={editingProject.input.currency}
+                      onChange={e => updateInput({ currency: e.target.value })}
+                      style={inputStyle}
+                    >
+                      {CURRENCIES.map(c => (
+                        <option key={c} value={c}>{c}</option>
+                      ))}
+                    </Form.Select>
+                  </Form.Group>
+                </Col>
+              </Row>
+              <Form.Check
+                type="switch"
+                id="project-active"
+                label="Active (offered when logging time)"
+                checked={editingProject.input.active}
+                onChange={e => updateInput({ active: e.target.checked })}
+              />
+            </>
+          )}
+        </Modal.Body>
+        <Modal.Footer style={{ background: "#1a1a1a", borderColor: "#333" }}>
+          <Button variant="secondary" onClick={() => setEditingProject(null)}>Cancel</Button>
+          <Button style={yellowBtn} onClick={submitProject} disabled={saving}>
+            {saving ? <Spinner animation="border" size="sm" /> : "Save"}
+          </Button>
+        </Modal.Footer>
+      </Modal>
+
+      {/* Client Modal */}
+      <Modal show={!!editingClient} onHide={() => setEditingClient(null)} centered>
+        <Modal.Header closeButton style={{ background: "#1a1a1a", borderColor: "#333", color: "#fff" }}>
+          <Modal.Title>{editingClient?.id ? "Rename Client" : "New Client"}</Modal.Title>
+        </Modal.Header>
+        <Modal.Body style={{ background: "#0f0f10", color: "#fff" }}>
+          <Form.Control
+            value={editingClient?.name ?? ""}
+            onChange={e => setEditingClient(prev => (prev ? { ...prev, name: e.target.value } : prev))}
+            onKeyDown={e => e.key === "Enter" && submitClient()}
+            placeholder="Client name"
+            autoFocus
+            style={inputStyle}
+          />
+        </Modal.Body>
+        <Modal.Footer style={{ background: "#1a1a1a", borderColor: "#333" }}>
+          <Button variant="secondary" onClick={() => setEditingClient(null)}>Cancel</Button>
+          <Button style={yellowBtn} onClick={submitClient} disabled={saving || !editingClient?.name.trim()}>Save</Button>
+        </Modal.Footer>
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1,298 @@
+// src/pages/Reports.tsx
+import React, { useEffect, useState } from "react";
+import { Button, Card, Col, Container, Form, Row, Spinner, Table } from "react-bootstrap";
+import { saveAs } from "file-saver";
+import { supabase } from "../api/supabaseClient";
+import { useAuth } from "../contexts/AuthContext";
+import { loadClients, loadProjects } from "../api/projects";
+import type { ClientRecord } from "../api/projects";
+import { todayIso } from "../utils/dates";
+import { toCsv } from "../utils/csv";
+import { formatHours } from "../utils/timeEntries";
+import type { TemplateRecord } from "../utils/templateData";
+import {
+  REPORT_DIMENSION_LABELS,
+  buildReport,
+  collectReportEntries,
+  filterReportEntries,
+  reportTable,
+} from "../utils/reports";
+import type { ReportDimension, ReportEntry, ReportMeasure } from "../utils/reports";
+import { exportReportXlsx } from "../utils/exportReport";
+
+const ghostBtn: React.CSSProperties = {
+  background: "transparent",
+  border: "1px solid #444",
+  color: "#ddd",
+};
+
+const inputStyle: React.CSSProperties = { background: "#0b0b0b", color: "#fff", border: "1px solid #333" };
+
+const labelStyle: React.CSSProperties = { fontSize: 12, color: "#bbb", marginBottom: 2 };
+
+// Bar segment colours for the column groups, repeated when there are more groups
+const PALETTE = ["#FFD700", "#4CAF50", "#2196F3", "#ff9800", "#9c27b0", "#00bcd4", "#e91e63", "#8bc34a"];
+
+const ALL = "*";
+
+const ROW_DIMENSIONS: ReportDimension[] = ["day", "week", "month", "project", "client"];
+
+export const Reports: React.FC = () => {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<ReportEntry[]>([]);
+  const [clients, setClients] = useState<ClientRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const [start, setStart] = useState(() => `${todayIso().slice(0, 7)}-01`);
+  const [end, setEnd] = useState(todayIso);
+  const [projectKey, setProjectKey] = useState(ALL);
+  const [clientKey, setClientKey] = useState(ALL);
+  const [rowsBy, setRowsBy] = useState<ReportDimension>("week");
+  const [columnsBy, setColumnsBy] = useState<ReportDimension | "none">("project");
+  const [measure, setMeasure] = useState<ReportMeasure>("worked");
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    const run = async () => {
+      setLoading(true);
+      try {
+        const [c, p, t] = await Promise.all([
+          loadClients(user.id),
+          loadProjects(user.id),
+          supabase.from("templates").select("*").eq("user_id", user.id),
+        ]);
+        if (t.error) throw t.error;
+        if (cancelled) return;
+        setClients(c);
+        setEntries(collectReportEntries((t.data as TemplateRecord[]) || [], p, c));
+      } catch (err) {
+        console.error(err);
+        alert(`Failed to load reports: ${err instanceof Error ? err.message : "Unknown error"}`);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    run();
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const filtered = filterReportEntries(entries, {
+    start,
+    end,
+    projectKey: projectKey === ALL ? undefined : projectKey,
+    clientKey: clientKey === ALL ? undefined : clientKey,
+  });
+  const columnDimension = columnsBy === "none" || columnsBy === rowsBy ? null : columnsBy;
+  const report = buildReport(filtered, rowsBy, columnDimension, measure);
+  const table = reportTable(report, rowsBy);
+  const maxRowTotal = Math.max(0, ...report.rows.map(r => report.rowTotals.get(r.key) ?? 0));
+  const colour = (i: number) => PALETTE[i % PALETTE.length];
+
+  // Project options come from the entries so unlinked project names can be filtered too
+  const projectOptions = Array.from(new Map(entries.map(e => [e.projectKey, e.projectName || "No project"])))
+    .sort((a, b) => Number(!a[0]) - Number(!b[0]) || a[1].localeCompare(b[1]));
+
+  const title = `Hours by ${REPORT_DIMENSION_LABELS[rowsBy].toLowerCase()} (${start || "start"} - ${end || "today"})`;
+  const baseName = `report-${start || "all"}-${end || "all"}`;
+
+  const exportCsv = () => {
+    saveAs(new Blob([toCsv(table)], { type: "text/csv;charset=utf-8" }), `${baseName}.csv`);
+  };
+
+  const exportXlsx = () => {
+    try {
+      exportReportXlsx(table, filtered, title, `${baseName}.xlsx`);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to export report: ${err instanceof Error ? err.message : "Unknown error"}`);
+    }
+  };
+
+  return (
+    <div style={{ background: "#0f0f10", minHeight: "100vh", padding: "12px" }}>
+      <Container fluid>
+        <Card style={{ background: "transparent", border: "none", color: "#fff" }}>
+          <Card.Body style={{ padding: "12px" }}>
+            {/* Header */}
+            <Row className="mb-3 align-items-center g-2">
+              <Col xs={12} md={8}>
+                <h3 style={{ color: "#FFD700", fontWeight: 700, marginBottom: 0 }}>📊 Reports</h3>
+                <p style={{ color: "#aaa", fontSize: 14, marginTop: 4, marginBottom: 0 }}>
+                  Hours across all your timesheets by project, client and period
+                </p>
+              </Col>
+              <Col xs={12} md={4} className="d-flex justify-content-md-end gap-2">
+                <Button size="sm" style={ghostBtn} onClick={exportCsv} disabled={report.rows.length === 0}>
+                  Export CSV
+                </Button>
+                <Button size="sm" style={ghostBtn} onClick={exportXlsx} disabled={report.rows.length === 0}>
+                  Export XLSX
+                </Button>
+              </Col>
+            </Row>
+
+            {/* Filters */}
+            <Card className="mb-3" style={{ background: "#171717", border: "1px solid #222", borderRadius: 8 }}>
+              <Card.Body style={{ padding: "12px" }}>
+                <Row className="g-2">
+                  <Col xs={6} md={2}>
+                    <Form.Label style={labelStyle}>From</Form.Label>
+                    <Form.Control type="date" value={start} onChange={e => setStart(e.target.value)} style={inputStyle} />
+                  </Col>
+                  <Col xs={6} md={2}>
+                    <Form.Label style={labelStyle}>To</Form.Label>
+                    <Form.Control type="date" value={end} onChange={e => setEnd(e.target.value)} style={inputStyle} />
+                  </Col>
+                  <Col xs={6} md={2}>
+                    <Form.Label style={labelStyle}>Client</Form.Label>
+                    <Form.Select value={clientKey} onChange={e => setClientKey(e.target.value)} style={inputStyle}>
+                      <option value={ALL}>All clients</option>
+                      {clients.map(c => (
+                        <option key={c.id} value={c.id}>{c.name}</option>
+                      ))}
+                      <option value="">No client</option>
+                    </Form.Select>
+                  </Col>
+                  <Col xs={6} md={2}>
+                    <Form.Label style={labelStyle}>Project</Form.Label>
+                    <Form.Select value={projectKey} onChange={e => setProjectKey(e.target.value)} style={inputStyle}>
+                      <option value={ALL}>All projects</option>
+                      {projectOptions.map(([key, name]) => (
+                        <option key={key} value={key}>{name}</option>
+                      ))}
+                    </Form.Select>
+                  </Col>
+                  <Col xs={4} md={1}>
+                    <Form.Label style={labelStyle}>Rows</Form.Label>
+                    <Form.Select value={rowsBy} onChange={e => setRowsBy(e.target.value as ReportDimension)} style={inputStyle}>
+                      {ROW_DIMENSIONS.map(d => (
+                        <option key={d} value={d}>{REPORT_DIMENSION_LABELS[d]}</option>
+                      ))}
+                    </Form.Select>
+                  </Col>
+                  <Col xs={4} md={2}>
+                    <Form.Label style={labelStyle}>Columns</Form.Label>
+                    <Form.Select
+                      value={columnsBy}
+                      onChange={e => setColumnsBy(e.target.value as ReportDimension | "none")}
+                      style={inputStyle}
+                    >
+                      <option value="none">Totals only</option>
+                      {ROW_DIMENSIONS.filter(d => d !== rowsBy).map(d => (
+                        <option key={d} value={d}>{REPORT_DIMENSION_LABELS[d]}</option>
+                      ))}
+                    </Form.Select>
+                  </Col>
+                  <Col xs={4} md={1}>
+                    <Form.Label style={labelStyle}>Hours</Form.Label>
+                    <Form.Select value={measure} onChange={e => setMeasure(e.target.value as ReportMeasure)} style={inputStyle}>
+                      <option value="worked">Worked</option>
+                      <option value="paid">Paid</option>
+                    </Form.Select>
+                  </Col>
+                </Row>
+              </Card.Body>
+            </Card>
+
+            {loading ? (
+              <div className="text-center p-4"><Spinner animation="border" variant="warning" /></div>
+            ) : report.rows.length === 0 ? (
+              <div style={{ textAlign: "center", padding: "60px 20px", color: "#666" }}>No time entries match these filters</div>
+            ) : (
+              <>
+                {/* Chart */}
+                <Card className="mb-3" style={{ background: "#171717", border: "1px solid #222", borderRadius: 8 }}>
+                  <Card.Body style={{ padding: "12px" }}>
+                    <div className="d-flex justify-content-between align-items-center" style={{ marginBottom: 12 }}>
+                      <h5 style={{ color: "#FFD700", fontWeight: 600, margin: 0 }}>{title}</h5>
+                      <span style={{ color: "#ddd", fontSize: 14 }}>
+                        Total <strong>{formatHours(report.total)}</strong> h
+                      </span>
+                    </div>
+                    {report.columns.length > 0 && (
+                      <div className="d-flex flex-wrap gap-3" style={{ fontSize: 12, color: "#bbb", marginBottom: 8 }}>
+                        {report.columns.map((c, i) => (
+                          <span key={c.key}>
+                            <span style={{ display: "inline-block", width: 10, height: 10, background: colour(i), marginRight: 4 }} />
+                            {c.label}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    <div style={{ maxHeight: 420, overflowY: "auto" }}>
+                      {report.rows.map(r => {
+                        const rowTotal = report.rowTotals.get(r.key) ?? 0;
+                        const segments = report.columns.length > 0 ? report.columns : [{ key: "", label: "Total" }];
+                        return (
+                          <div key={r.key} className="d-flex align-items-center" style={{ marginBottom: 4, fontSize: 12 }}>
+                            <div style={{ width: 160, flexShrink: 0, color: "#ddd", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                              {r.label}
+                            </div>
+                            <div style={{ flexGrow: 1, display: "flex", height: 16, background: "#0b0b0b" }}>
+                              {segments.map((c, i) => {
+                                const minutes = report.cells.get(r.key)?.get(c.key) ?? 0;
+                                if (!minutes || !maxRowTotal) return null;
+                                return (
+                                  <div
+                                    key={c.key}
+                                    title={`${c.label}: ${formatHours(minutes)} h`}
+                                    style={{ width: `${(minutes / maxRowTotal) * 100}%`, background: colour(i) }}
+                                  />
+                                );
+                              })}
+                            </div>
+                            <div style={{ width: 60, flexShrink: 0, textAlign: "right", color: "#bbb" }}>{formatHours(rowTotal)}</div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </Card.Body>
+                </Card>
+
+                {/* Pivot table */}
+                <Card style={{ background: "#171717", border: "1px solid #222", borderRadius: 8 }}>
+                  <Card.Body style={{ padding: "12px", overflowX: "auto" }}>
+                    <Table size="sm" variant="dark" bordered style={{ fontSize: 13, marginBottom: 0 }}>
+                      <thead>
+                        <tr>
+                          {table[0].map((h, i) => (
+                            <th key={i} style={{ textAlign: i === 0 ? "left" : "right", whiteSpace: "nowrap" }}>{h}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {table.slice(1, -1).map((line, r) => (
+                          <tr key={report.rows[r].key}>
+                            {line.map((v, i) => (
+                              <td key={i} style={{ textAlign: i === 0 ? "left" : "right", fontWeight: i === line.length - 1 ? 600 : undefined }}>
+                                {typeof v === "number" ? (v ? v.toFixed(2) : "") : v}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                      <tfoot>
+                        <tr>
+                          {table[table.length - 1].map((v, i) => (
+                            <td key={i} style={{ textAlign: i === 0 ? "left" : "right", fontWeight: 700, color: "#FFD700" }}>
+                              {typeof v === "number" ? v.toFixed(2) : v}
+                            </td>
+                          ))}
+                        </tr>
+                      </tfoot>
+                    </Table>
+                  </Card.Body>
+                </Card>
+              </>
+            )}
+          </Card.Body>
+        </Card>
+      </Container>
+    </div>
+  );
+};
@@ -0,0 +1,227 @@
+// src/pages/TemplateLibrary.tsx
+import React, { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Badge, Button, Card, Col, Container, Form, ListGroup, Modal, Row, Spinner } from "react-bootstrap";
+import { supabase } from "../api/supabaseClient";
+import { useAuth } from "../contexts/AuthContext";
+import { STATUS_LABELS, STATUS_VARIANTS, isLockedStatus } from "../api/templateWorkflow";
+import { NextPeriodModal } from "../components/Editor/NextPeriodModal";
+import { normalizeTemplate } from "../utils/templateData";
+import type { TemplateRecord } from "../utils/templateData";
+
+const formatDate = (dateString?: string | null) => {
+  if (!dateString) return "—";
+  const date = new Date(dateString);
+  return date.toLocaleDateString() + " " + date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+};
+
+const yellowBtn: React.CSSProperties = {
+  background: "#FFD700",
+  border: "none",
+  color: "#000",
+  fontWeight: 600,
+};
+
+const ghostBtn: React.CSSProperties = {
+  background: "transparent",
+  border: "1px solid #444",
+  color: "#ddd",
+};
+
+export const TemplateLibrary: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [templates, setTemplates] = useState<TemplateRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [renaming, setRenaming] = useState<TemplateRecord | null>(null);
+  const [newName, setNewName] = useState("");
+  const [rollingForward, setRollingForward] = useState<TemplateRecord | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+
+    const { data, error } = await supabase
+      .from("templates")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("updated_at", { ascending: false, nullsFirst: false });
+
+    setLoading(false);
+    if (error) {
+      console.error(error);
+      alert("Failed to load templates: " + error.message);
+      return;
+    }
+
+    setTemplates((data as TemplateRecord[]) || []);
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const run = async () => {
+      await loadTemplates();
+    };
+
+    run();
+  }, [user, loadTemplates]);
+
+  const duplicateTemplate = async (t: TemplateRecord) => {
+    if (!user) return;
+    const { error } = await supabase.from("templates").insert({
+      name: `${t.name} (copy)`,
+      template_data: t.template_data,
+      user_id: user.id,
+      status: "draft",
+      updated_at: new Date().toISOString(),
+    });
+    if (error) {
+      console.error(error);
+      alert("Duplicate failed: " + error.message);
+      return;
+    }
+    loadTemplates();
+  };
+
+  const openRename = (t: TemplateRecord) => {
+    setRenaming(t);
+    setNewName(t.name);
+  };
+
+  const saveRename = async () => {
+    if (!renaming || !newName.trim()) return;
+    const { error } = await supabase
+      .from("templates")
+      .update({ name: newName.trim(), updated_at: new Date().toISOString() })
+      .eq("id", renaming.id);
+    if (error) {
+      console.error(error);
+      alert("Rename failed: " + error.message);
+      return;
+    }
+    setRenaming(null);
+    loadTemplates();
+  };
+
+  const deleteTemplate = async (t: TemplateRecord) => {
+    if (!window.confirm(`Delete "${t.name}"? This cannot be undone.`)) return;
+    const { error } = await supabase.from("templates").delete().eq("id", t.id);
+    if (error) {
+      console.error(error);
+      alert("Delete failed: " + error.message);
+      return;
+    }
+    loadTemplates();
+  };
+
+  return (
+    <div style={{ background: "#0f0f10", minHeight: "100vh", padding: "12px" }}>
+      <Container fluid>
+        <Card style={{ background: "transparent", border: "none", color: "#fff" }}>
+          <Card.Body style={{ padding: "12px" }}>
+            {/* Header */}
+            <Row className="mb-3 align-items-center g-2">
+              <Col xs={12} md={8}>
+                <h3 style={{ color: "#FFD700", fontWeight: 700, marginBottom: 0 }}>🗂️ Templates</h3>
+                <p style={{ color: "#aaa", fontSize: 14, marginTop: 4, marginBottom: 0 }}>
+                  Open, duplicate and manage your saved time trackers
+                </p>
+              </Col>
+              <Col xs={12} md={4} className="text-md-end">
+                <Button style={{ ...yellowBtn, width: "100%", maxWidth: 200 }} onClick={() => navigate("/time-tracker")}>
+                  + New Time Tracker
+                </Button>
+              </Col>
+            </Row>
+
+            {/* Templates List */}
+            <Card style={{ background: "#171717", border: "1px solid #222", borderRadius: 8 }}>
+              <Card.Body style={{ padding: "12px" }}>
+                <h5 style={{ color: "#FFD700", fontWeight: 600, marginBottom: 12 }}>
+                  Your Templates ({templates.length})
+                </h5>
+                {loading ? (
+                  <div className="text-center p-4"><Spinner animation="border" variant="warning" /></div>
+                ) : templates.length === 0 ? (
+                  <div style={{ textAlign: "center", padding: "40px 20px", color: "#666" }}>
+                    <div style={{ fontSize: 48, marginBottom: 12 }}>🗒️</div>
+                    <div>No saved templates yet</div>
+                  </div>
+                ) : (
+                  <ListGroup variant="flush">
+                    {templates.map(t => (
+                      <ListGroup.Item
+                        key={t.id}
+                        style={{
+                          background: "#0b0b0b",
+                          color: "#e0e0e0",
+                          border: "1px solid #222",
+                          borderRadius: 6,
+                          marginBottom: 8,
+                          padding: "12px",
+                        }}
+                      >
+                        <Row className="align-items-center g-2">
+                          <Col xs={12} md={6}>
+                            <div style={{ fontWeight: 600, marginBottom: 4, wordBreak: "break-word" }}>
+                              {t.name}{" "}
+                              <Badge bg={STATUS_VARIANTS[t.status ?? "draft"]}>{STATUS_LABELS[t.status ?? "draft"]}</Badge>
+                            </div>
+                            <div style={{ fontSize: 12, color: "#888" }}>
+                              {t.template_data?.meta?.period || "No period"} • {t.template_data?.meta?.project || "No project"}
+                              {" • "}Updated {formatDate(t.updated_at ?? t.created_at)}
+                            </div>
+                          </Col>
+                          <Col xs={12} md={6} className="text-md-end d-flex gap-2 justify-content-md-end flex-wrap">
+                            <Button size="sm" style={yellowBtn} onClick={() => navigate(`/time-tracker/${t.id}`)}>
+                              Open
+                            </Button>
+                            <Button size="sm" style={ghostBtn} onClick={() => setRollingForward(t)}>Next Period</Button>
+                            <Button size="sm" style={ghostBtn} onClick={() => duplicateTemplate(t)}>Duplicate</Button>
+                            <Button size="sm" style={ghostBtn} onClick={() => openRename(t)} disabled={isLockedStatus(t.status ?? "draft")}>Rename</Button>
+                            <Button size="sm" variant="outline-danger" onClick={() => deleteTemplate(t)} disabled={isLockedStatus(t.status ?? "draft")}>Delete</Button>
+                          </Col>
+                        </Row>
+                      </ListGroup.Item>
+                    ))}
+                  </ListGroup>
+                )}
+              </Card.Body>
+            </Card>
+          </Card.Body>
+        </Card>
+      </Container>
+
+      {rollingForward && (
+        <NextPeriodModal
+          show
+          onHide={() => setRollingForward(null)}
+          template={normalizeTemplate(rollingForward.template_data)}
+          name={rollingForward.name}
+          onGenerated={id => navigate(`/time-tracker/${id}`)}
+        />
+      )}
+
+      {/* Rename Modal */}
+      <Modal show={!!renaming} onHide={() => setRenaming(null)} centered>
+        <Modal.Header closeButton style={{ background: "#1a1a1a", borderColor: "#333", color: "#fff" }}>
+          <Modal.Title>Rename Template</Modal.Title>
+        </Modal.Header>
+        <Modal.Body style={{ background: "#0f0f10", color: "#fff" }}>
+          <Form.Control
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            onKeyDown={e => e.key === "Enter" && saveRename()}
+            autoFocus
+            style={{ background: "#0b0b0b", color: "#fff", border: "1px solid #333" }}
+          />
+        </Modal.Body>
+        <Modal.Footer style={{ background: "#1a1a1a", borderColor: "#333" }}>
+          <Button variant="secondary" onClick={() => setRenaming(null)}>Cancel</Button>
+          <Button style={yellowBtn} onClick={saveRename} disabled={!newName.trim()}>Save</Button>
+        </Modal.Footer>
+      </Modal>
+    </div>
+  );
+};
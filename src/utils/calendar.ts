@@ -0,0 +1,182 @@
+// src/utils/calendar.ts
+import { isLockedStatus } from "../api/templateWorkflow";
+import { addDays, daysBetween, isWeekend, toIsoDate, weekStart } from "./dates";
+import type { ImportedEntry } from "./importEntries";
+import { templatePeriod } from "./periods";
+import type { Period } from "./periods";
+import {
+  cellRef,
+  cellText,
+  entryMinutes,
+  parseBreak,
+  parseTime,
+  rowId,
+  setCellText,
+  setCellValue,
+  spanMinutes,
+  withComputedHours,
+} from "./timeEntries";
+import type { Cell } from "./timeEntries";
+import { normalizeTemplate } from "./templateData";
+import type { TemplateRecord } from "./templateData";
+
+/* --------------------------
+   Calendar entries
+-------------------------- */
+export type CalendarEntry = {
+  templateId: string;
+  templateName: string;
+  rowId: string;
+  locked: boolean;
+  date: string;
+  // Minutes after midnight; null when the row has no readable start/end
+  start: number | null;
+  end: number | null;
+  minutes: number;
+  breakMinutes: number;
+  project: string;
+  projectId?: string;
+  task: string;
+  notes: string;
+};
+
+export type CalendarSettings = { expectedHours: number; dailyLimitHours: number };
+
+export const DEFAULT_CALENDAR_SETTINGS: CalendarSettings = { expectedHours: 8, dailyLimitHours: 10 };
+
+export type DayStatus = "missing" | "over" | null;
+
+// Save target meaning "create a new timesheet for the entry's week"
+export const NEW_TEMPLATE = "__new__";
+
+export function collectCalendarEntries(templates: TemplateRecord[]) {
+  const entries: CalendarEntry[] = [];
+  templates.forEach(record => {
+    const template = normalizeTemplate(record.template_data);
+    template.rows.forEach(row => {
+      const date = cellText(row, "date");
+      if (!date) return;
+      entries.push({
+        templateId: record.id,
+        templateName: record.name,
+        rowId: rowId(row),
+        locked: isLockedStatus(record.status ?? "draft"),
+        date,
+        start: parseTime(cellText(row, "start")),
+        end: parseTime(cellText(row, "end")),
+        minutes: Math.max(0, entryMinutes(row) ?? 0),
+        breakMinutes: parseBreak(cellText(row, "break")),
+        project: cellText(row, "project") || template.meta?.project || "",
+        projectId: cellRef(row, "project") ?? template.meta?.projectId,
+        task: cellText(row, "task"),
+        notes: cellText(row, "notes"),
+      });
+    });
+  });
+  return entries.sort((a, b) => a.date.localeCompare(b.date) || (a.start ?? -1) - (b.start ?? -1));
+}
+
+// Start and end of the block drawn on the start date, clipped at midnight
+export const entryBlock = (entry: CalendarEntry) =>
+  entry.start === null || entry.end === null
+    ? null
+    : { top: entry.start, bottom: Math.min(entry.start + spanMinutes(entry.start, entry.end), 24 * 60) };
+
+export const entriesByDate = (entries: CalendarEntry[]) => {
+  const map = new Map<string, CalendarEntry[]>();
+  entries.forEach(e => map.set(e.date, [...(map.get(e.date) ?? []), e]));
+  return map;
+};
+
+// Monday-based weeks covering the whole month, padded with days from the neighbouring months
+export const monthGrid = (month: string) => {
+  const first = `${month}-01`;
+  const weeks: string[][] = [];
+  for (let day = weekStart(first); day.slice(0, 7) <= month; day = addDays(day, 7)) {
+    weeks.push(weekDays(day));
+  }
+  return weeks;
+};
+
+// First day of the month `months` away from the date's month
+export const shiftMonth = (date: string, months: number) => {
+  const [y, m] = date.split("-").map(Number);
+  return toIsoDate(new Date(Date.UTC(y, m - 1 + months, 1)));
+};
+
+export const weekDays = (date: string) => {
+  const monday = weekStart(date);
+  return Array.from({ length: 7 }, (_, i) => addDays(monday, i));
+};
+
+/**
+ * Past and current weekdays short of the expected hours are "missing"; any day
+ * above the daily limit is "over". Weekends and future days are never missing.
+ */
+export const dayStatus = (date: string, minutes: number, settings: CalendarSettings, today: string): DayStatus => {
+  if (settings.dailyLimitHours > 0 && minutes > settings.dailyLimitHours * 60) return "over";
+  if (date <= today && !isWeekend(date) && minutes < settings.expectedHours * 60) return "missing";
+  return null;
+};
+
+/**
+ * Side-by-side lanes for overlapping entries in the week view. Returns each entry's
+ * lane index and the number of lanes used by its overlap group.
+ */
+export const layoutDay = (entries: CalendarEntry[]) => {
+  const timed = entries
+    .map(e => ({ id: e.rowId, block: entryBlock(e) }))
+    .filter((e): e is { id: string; block: { top: number; bottom: number } } => !!e.block && e.block.bottom > e.block.top)
+    .sort((a, b) => a.block.top - b.block.top);
+  const layout = new Map<string, { lane: number; lanes: number }>();
+  let group: string[] = [];
+  let laneEnds: number[] = [];
+  let groupEnd = 0;
+
+  const closeGroup = () => {
+    group.forEach(id => layout.set(id, { lane: layout.get(id)!.lane, lanes: laneEnds.length }));
+    group = [];
+    laneEnds = [];
+  };
+
+  timed.forEach(({ id, block }) => {
+    if (group.length && block.top >= groupEnd) closeGroup();
+    let lane = laneEnds.findIndex(laneEnd => laneEnd <= block.top);
+    if (lane === -1) lane = laneEnds.push(block.bottom) - 1;
+    else laneEnds[lane] = block.bottom;
+    layout.set(id, { lane, lanes: 1 });
+    group.push(id);
+    groupEnd = Math.max(groupEnd, block.bottom);
+  });
+  closeGroup();
+  return layout;
+};
+
+/* --------------------------
+   Writing entries back
+-------------------------- */
+// Unlocked templates whose period (or span of dated rows) includes the date, most specific first
+export const templatesCovering = (templates: TemplateRecord[], date: string) =>
+  templates
+    .filter(t => !isLockedStatus(t.status ?? "draft"))
+    .map(t => ({ record: t, period: templatePeriod(normalizeTemplate(t.template_data)) }))
+    .filter((t): t is { record: TemplateRecord; period: Period } => !!t.period && t.period.start <= date && date <= t.period.end)
+    .sort((a, b) => daysBetween(a.period.start, a.period.end) - daysBetween(b.period.start, b.period.end))
+    .map(t => t.record);
+
+// Fills a grid row from an entry, linking the project when it comes from the catalogue
+export const applyEntryToRow = (row: Cell[], entry: ImportedEntry, projectId?: string): Cell[] => {
+  let next = setCellText(row, "date", entry.date);
+  next = setCellValue(next, "project", entry.project, projectId);
+  next = setCellText(next, "task", entry.task);
+  next = setCellText(next, "start", entry.start);
+  next = setCellText(next, "end", entry.end);
+  next = setCellText(next, "break", entry.breakMinutes ? String(entry.breakMinutes) : "");
+  next = setCellText(next, "notes", entry.notes);
+  return withComputedHours(next);
+};
+
+export const formatMinutesOfDay = (minutes: number) => {
+  const m = ((minutes % 1440) + 1440) % 1440;
+  return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+};
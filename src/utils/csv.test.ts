@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv } from "./csv";
+
+describe("toCsv", () => {
+  it("quotes delimiters, quotes and line breaks", () => {
+    expect(toCsv([["a,b", 'say "hi"', "two\nlines"]])).toBe('"a,b","say ""hi""","two\nlines"');
+  });
+
+  it("keeps text that would run as a formula from being one", () => {
+    expect(toCsv([["=SUM(A1:A9)", "+1 call", "-cmd", "@admin", "plain"]])).toBe("'=SUM(A1:A9),'+1 call,'-cmd,'@admin,plain");
+  });
+
+  it("leaves numbers alone", () => {
+    expect(toCsv([[-5, "-12.50", "+3", "8.00"]])).toBe("-5,-12.50,+3,8.00");
+  });
+});
+
+describe("parseCsv", () => {
+  it("reads back what toCsv writes", () => {
+    const rows = [["Date", "Notes"], ["2026-01-05", 'a, "b"\nc']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
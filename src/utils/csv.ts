@@ -0,0 +1,59 @@
+// src/utils/csv.ts
+
+// RFC 4180 quoting: wrap in quotes when the value holds a delimiter, quote or line break
+const escapeCsv = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Text starting like a formula runs as one when the file is opened in Excel or Sheets, so it gets a
+// leading apostrophe; numbers (including negative ones) are left alone
+const neutralizeFormula = (value: string) =>
+  /^[=+\-@\t\r]/.test(value) && !/^[+-]?\d+(\.\d+)?$/.test(value) ? `'${value}` : value;
+
+export const toCsv = (rows: (string | number)[][]) =>
+  rows.map(row => row.map(v => escapeCsv(typeof v === "number" ? String(v) : neutralizeFormula(v ?? ""))).join(",")).join("\r\n");
+
+// Picks the delimiter that splits the header line into the most columns
+const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  return [",", ";", "\t"].reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best), ",");
+};
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and line breaks inside quotes
+export const parseCsv = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(v => v.trim()));
+};
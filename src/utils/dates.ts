@@ -0,0 +1,53 @@
+// src/utils/dates.ts
+// Plain "YYYY-MM-DD" date helpers. Calculations run in UTC so local DST shifts never move a day.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isIsoDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+
+export const parseIsoDate = (value: string) => new Date(`${value}T00:00:00Z`);
+
+export const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Calendar date of a moment in the user's local timezone
+export const localIsoDate = (date: Date) =>
+  toIsoDate(new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate())));
+
+export const todayIso = () => localIsoDate(new Date());
+
+export const addDays = (value: string, days: number) => toIsoDate(new Date(parseIsoDate(value).getTime() + days * DAY_MS));
+
+// Last day of the month containing the date
+export const endOfMonth = (value: string) => {
+  const d = parseIsoDate(value);
+  return toIsoDate(new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)));
+};
+
+// Same day of the month `months` later, clamped to that month's last day (Jan 31 + 1 month = Feb 28)
+export const addMonths = (value: string, months: number) => {
+  const d = parseIsoDate(value);
+  const target = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(d.getUTCDate(), lastDay));
+  return toIsoDate(target);
+};
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round((parseIsoDate(to).getTime() - parseIsoDate(from).getTime()) / DAY_MS);
+
+// 0 = Sunday ... 6 = Saturday
+export const dayOfWeek = (value: string) => parseIsoDate(value).getUTCDay();
+
+export const isWeekend = (value: string) => {
+  const day = dayOfWeek(value);
+  return day === 0 || day === 6;
+};
+
+export const dateRange = (from: string, to: string) => {
+  const days: string[] = [];
+  for (let d = from; d <= to; d = addDays(d, 1)) days.push(d);
+  return days;
+};
+
+// Monday of the week containing the date
+export const weekStart = (value: string) => addDays(value, -((dayOfWeek(value) + 6) % 7));
@@ -0,0 +1,39 @@
+import JSZip from 'jszip';
+import { Document, Packer, Paragraph, TextRun } from 'docx';
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+export const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/** Plain text of every paragraph in a .docx, in document order (table cells included). */
+export async function readDocxParagraphs(data: ArrayBuffer) {
+  const zip = await JSZip.loadAsync(data);
+  const xml = await zip.file('word/document.xml')?.async('string');
+  if (!xml) throw new Error('Not a Word document: word/document.xml is missing');
+
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  return Array.from(doc.getElementsByTagNameNS(WORD_NS, 'p')).map(paragraph =>
+    Array.from(paragraph.getElementsByTagNameNS(WORD_NS, '*'))
+      .map(node => {
+        if (node.localName === 't') return node.textContent ?? '';
+        if (node.localName === 'tab') return '\t';
+        if (node.localName === 'br' || node.localName === 'cr') return '\n';
+        return '';
+      })
+      .join('')
+  );
+}
+
+// Rebuilds the document as plain paragraphs; run formatting of the original is not kept
+export async function buildDocxFromParagraphs(paragraphs: string[]) {
+  const doc = new Document({
+    sections: [
+      {
+        properties: {},
+        children: paragraphs.map(text => new Paragraph({ children: [new TextRun(text)] })),
+      },
+    ],
+  });
+  const blob = await Packer.toBlob(doc);
+  return new Uint8Array(await blob.arrayBuffer());
+}
@@ -0,0 +1,59 @@
+// src/utils/drafts.ts
+import type { TemplateData } from "./templateData";
+
+/* --------------------------
+   Local template drafts
+-------------------------- */
+
+// Persisted as-is in localStorage, so only plain JSON values (epoch ms, strings)
+export type TemplateDraft = {
+  name: string;
+  template: TemplateData;
+  savedAt: number;
+};
+
+export const AUTOSAVE_DELAY_MS = 1500;
+
+// Unsaved new templates share one slot per user until they get an id
+export const draftStorageKey = (userId: string, templateId?: string) => `template-draft:${userId}:${templateId ?? "new"}`;
+
+// Stable string used to tell whether the editor differs from what was last saved
+export const templateSnapshot = (name: string, template: TemplateData) => JSON.stringify({ name, template });
+
+export const readDraft = (userId: string, templateId?: string): TemplateDraft | null => {
+  try {
+    const raw = localStorage.getItem(draftStorageKey(userId, templateId));
+    return raw ? (JSON.parse(raw) as TemplateDraft) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const writeDraft = (userId: string, templateId: string | undefined, draft: TemplateDraft) => {
+  try {
+    localStorage.setItem(draftStorageKey(userId, templateId), JSON.stringify(draft));
+  } catch (err) {
+    // Quota errors only cost the offline copy; the editor state itself is untouched
+    console.error(err);
+  }
+};
+
+// With `upTo`, a draft written after that save is kept so newer edits are not dropped
+export const clearDraft = (userId: string, templateId?: string, upTo?: number) => {
+  const draft = readDraft(userId, templateId);
+  if (!draft || (upTo !== undefined && draft.savedAt > upTo)) return;
+  localStorage.removeItem(draftStorageKey(userId, templateId));
+};
+
+// A draft is only worth offering when it is newer than the copy on the server
+export const isDraftNewer = (draft: TemplateDraft, serverUpdatedAt?: string | null) =>
+  !serverUpdatedAt || draft.savedAt > Date.parse(serverUpdatedAt);
+
+export const formatSavedAgo = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 5) return "just now";
+  if (seconds < 60) return `${seconds} seconds ago`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes} min ago`;
+  return `${Math.floor(minutes / 60)} h ago`;
+};
@@ -0,0 +1,50 @@
+// src/utils/expenses.ts
+import type { Period } from "./periods";
+
+/* --------------------------
+   Expense types
+-------------------------- */
+export type ExpenseCategory = "travel" | "mileage" | "meals" | "lodging" | "supplies" | "software" | "other";
+
+export const EXPENSE_CATEGORIES: ExpenseCategory[] = ["travel", "mileage", "meals", "lodging", "supplies", "software", "other"];
+
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  travel: "Travel",
+  mileage: "Mileage",
+  meals: "Meals",
+  lodging: "Lodging",
+  supplies: "Supplies",
+  software: "Software",
+  other: "Other",
+};
+
+export type ExpenseLike = {
+  date: string;
+  category: ExpenseCategory;
+  amount: number;
+  currency: string;
+};
+
+export const expensesInPeriod = <T extends ExpenseLike>(expenses: T[], period: Partial<Period>) =>
+  expenses
+    .filter(e => (!period.start || e.date >= period.start) && (!period.end || e.date <= period.end))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+// Claims can mix currencies, so totals are kept per currency rather than summed
+export const totalsByCurrency = (expenses: ExpenseLike[]) =>
+  expenses.reduce<Record<string, number>>(
+    (acc, e) => ({ ...acc, [e.currency]: Math.round(((acc[e.currency] ?? 0) + e.amount) * 100) / 100 }),
+    {}
+  );
+
+export const totalsByCategory = (expenses: ExpenseLike[]) => {
+  const totals = new Map<string, { category: ExpenseCategory; currency: string; amount: number }>();
+  expenses.forEach(e => {
+    const key = `${e.category}|${e.currency}`;
+    const current = totals.get(key) ?? { category: e.category, currency: e.currency, amount: 0 };
+    totals.set(key, { ...current, amount: Math.round((current.amount + e.amount) * 100) / 100 });
+  });
+  return [...totals.values()].sort(
+    (a, b) => EXPENSE_CATEGORIES.indexOf(a.category) - EXPENSE_CATEGORIES.indexOf(b.category) || a.currency.localeCompare(b.currency)
+  );
+};
@@ -0,0 +1,111 @@
+import {
+  AlignmentType,
+  Document,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import { breakdownSummary, computeHours, hasActiveRules, normalizeHoursRules } from './hoursRules';
+import { TIME_ENTRY_COLUMNS, cellText, entryMinutes, formatHours, totalMinutes } from './timeEntries';
+import type { TemplateData } from './templateData';
+
+const HEADER_IMAGE_MAX = { width: 500, height: 70 };
+
+async function loadHeaderImage(url: string) {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to fetch header image: ${res.status}`);
+  const blob = await res.blob();
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(HEADER_IMAGE_MAX.width / bitmap.width, HEADER_IMAGE_MAX.height / bitmap.height, 1);
+  const size = { width: Math.round(bitmap.width * scale), height: Math.round(bitmap.height * scale) };
+  bitmap.close();
+  const type: 'png' | 'jpg' | 'gif' | 'bmp' = blob.type.includes('png')
+    ? 'png'
+    : blob.type.includes('gif')
+      ? 'gif'
+      : blob.type.includes('bmp')
+        ? 'bmp'
+        : 'jpg';
+  return { data: new Uint8Array(await blob.arrayBuffer()), type, size };
+}
+
+const cell = (text: string, bold = false) =>
+  new TableCell({ children: [new Paragraph({ children: [new TextRun({ text, bold, size: 18 })] })] });
+
+export async function buildTimesheetDocx(template: TemplateData, title: string) {
+  const children: (Paragraph | Table)[] = [];
+
+  if (template.headerImage?.url) {
+    try {
+      const image = await loadHeaderImage(template.headerImage.url);
+      children.push(
+        new Paragraph({ children: [new ImageRun({ type: image.type, data: image.data, transformation: image.size })] })
+      );
+    } catch (err) {
+      console.error(err);
+    }
+  }
+
+  children.push(new Paragraph({ text: title || 'Time Tracker', heading: HeadingLevel.HEADING_1 }));
+  [
+    ['Employee', template.meta?.employeeName],
+    ['Project', template.meta?.project],
+    ['Period', template.meta?.period],
+  ].forEach(([label, value]) => {
+    children.push(
+      new Paragraph({ children: [new TextRun({ text: `${label}: `, bold: true }), new TextRun(value || '-')] })
+    );
+  });
+  children.push(new Paragraph(''));
+
+  const header = new TableRow({ tableHeader: true, children: TIME_ENTRY_COLUMNS.map(c => cell(c.label, true)) });
+  const body = template.rows
+    .filter(row => row.some(c => c.text.trim()))
+    .map(row => {
+      const minutes = entryMinutes(row);
+      return new TableRow({
+        cantSplit: true,
+        children: TIME_ENTRY_COLUMNS.map(c =>
+          cell(c.key === 'hours' ? (minutes === null || minutes < 0 ? '' : formatHours(minutes)) : cellText(row, c.key))
+        ),
+      });
+    });
+  const totals = new TableRow({
+    children: TIME_ENTRY_COLUMNS.map((c, i) =>
+      cell(i === 0 ? 'Total' : c.key === 'hours' ? formatHours(totalMinutes(template.rows)) : '', true)
+    ),
+  });
+
+  children.push(new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows: [header, ...body, totals] }));
+
+  const rules = normalizeHoursRules(template.hoursRules);
+  if (hasActiveRules(rules)) {
+    children.push(new Paragraph({ text: 'Hours Breakdown', heading: HeadingLevel.HEADING_3, spacing: { before: 200 } }));
+    breakdownSummary(computeHours(template.rows, rules).totals, rules).forEach(([label, minutes], i, lines) => {
+      const bold = i === lines.length - 1;
+      children.push(
+        new Paragraph({ children: [new TextRun({ text: `${label}: `, bold }), new TextRun({ text: formatHours(minutes), bold })] })
+      );
+    });
+  }
+  children.push(
+    new Paragraph({
+      alignment: AlignmentType.RIGHT,
+      spacing: { before: 200 },
+      children: [new TextRun({ text: `Generated ${new Date().toLocaleDateString()}`, italics: true, size: 16 })],
+    })
+  );
+
+  return new Document({ sections: [{ properties: {}, children }] });
+}
+
+export async function exportToDocx(template: TemplateData, title: string) {
+  const doc = await buildTimesheetDocx(template, title);
+  return Packer.toBlob(doc);
+}
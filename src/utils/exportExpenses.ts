@@ -0,0 +1,146 @@
+import jsPDF from 'jspdf';
+import * as XLSX from 'xlsx';
+import { EXPENSE_CATEGORY_LABELS, totalsByCategory, totalsByCurrency } from './expenses';
+import type { ExpenseRecord } from '../api/expenses';
+
+const MARGIN = 40;
+const ROW_HEIGHT = 18;
+
+export interface ExpenseReportInfo {
+  title: string;
+  period: string;
+  employee?: string;
+}
+
+// Plain ASCII: the built-in PDF fonts have no glyphs for most currency symbols or locale spaces
+const money = (amount: number, currency: string) =>
+  `${currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * A4 expense report: one line per claim with a receipt marker, followed by totals per
+ * category and per currency. Receipts themselves stay in the File Bank.
+ */
+export function buildExpenseReportPdf(expenses: ExpenseRecord[], info: ExpenseReportInfo) {
+  const pdf = new jsPDF({ unit: 'pt', format: 'a4' });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const right = pageWidth - MARGIN;
+  let y = MARGIN;
+
+  /* Header */
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(18);
+  pdf.text(info.title, MARGIN, y + 12);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(10);
+  pdf.text(`Period: ${info.period}`, MARGIN, y + 30);
+  if (info.employee) pdf.text(`Employee: ${info.employee}`, MARGIN, y + 44);
+  y += 64;
+
+  /* Claim lines */
+  const cols = [
+    { label: 'Date', x: MARGIN + 4, align: 'left' as const },
+    { label: 'Category', x: MARGIN + 70, align: 'left' as const },
+    { label: 'Description', x: MARGIN + 140, align: 'left' as const },
+    { label: 'Project', x: MARGIN + 310, align: 'left' as const },
+    { label: 'Receipt', x: MARGIN + 400, align: 'left' as const },
+    { label: 'Amount', x: right - 4, align: 'right' as const },
+  ];
+
+  const header = () => {
+    pdf.setFillColor(235, 235, 235);
+    pdf.rect(MARGIN, y, right - MARGIN, ROW_HEIGHT, 'F');
+    pdf.setFont('helvetica', 'bold');
+    cols.forEach(c => pdf.text(c.label, c.x, y + 12, { align: c.align }));
+    pdf.setFont('helvetica', 'normal');
+    y += ROW_HEIGHT;
+  };
+  pdf.setFontSize(9);
+  header();
+
+  expenses.forEach(e => {
+    const description: string[] = pdf.splitTextToSize(e.description || '-', cols[3].x - cols[2].x - 8);
+    const project: string[] = pdf.splitTextToSize(e.project || '', cols[4].x - cols[3].x - 8);
+    const height = Math.max(ROW_HEIGHT, Math.max(description.length, project.length) * 11 + 7);
+    if (y + height > pageHeight - MARGIN) {
+      pdf.addPage();
+      y = MARGIN;
+      header();
+    }
+    pdf.text(e.date, cols[0].x, y + 12);
+    pdf.text(EXPENSE_CATEGORY_LABELS[e.category], cols[1].x, y + 12);
+    pdf.text(description, cols[2].x, y + 12);
+    pdf.text(project, cols[3].x, y + 12);
+    pdf.text(e.receipt_path ? 'Yes' : 'No', cols[4].x, y + 12);
+    pdf.text(money(e.amount, e.currency), cols[5].x, y + 12, { align: 'right' });
+    y += height;
+    pdf.setDrawColor(220);
+    pdf.line(MARGIN, y, right, y);
+  });
+
+  /* Totals */
+  const summary: [string, string, boolean][] = [
+    ...totalsByCategory(expenses).map(t => [EXPENSE_CATEGORY_LABELS[t.category], money(t.amount, t.currency), false] as [string, string, boolean]),
+    ...Object.entries(totalsByCurrency(expenses)).map(([currency, amount]) => ['Total', money(amount, currency), true] as [string, string, boolean]),
+  ];
+  if (y + 20 + summary.length * 14 > pageHeight - MARGIN) {
+    pdf.addPage();
+    y = MARGIN;
+  }
+  y += 20;
+  summary.forEach(([label, value, bold]) => {
+    pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+    pdf.text(label, right - 200, y);
+    pdf.text(value, right - 4, y, { align: 'right' });
+    y += 14;
+  });
+
+  return pdf;
+}
+
+const EXPENSE_HEADERS = ['Date', 'Category', 'Description', 'Project', 'Amount', 'Currency', 'Receipt'];
+
+/** Expenses sheet with one row per claim, and a Summary sheet with totals per category and currency. */
+export function buildExpenseWorkbook(expenses: ExpenseRecord[], info: ExpenseReportInfo) {
+  const wb = XLSX.utils.book_new();
+
+  const ws = XLSX.utils.aoa_to_sheet([
+    EXPENSE_HEADERS,
+    ...expenses.map(e => [
+      e.date,
+      EXPENSE_CATEGORY_LABELS[e.category],
+      e.description,
+      e.project ?? '',
+      e.amount,
+      e.currency,
+      e.receipt_name ?? '',
+    ]),
+  ]);
+  expenses.forEach((_, i) => {
+    const cell = ws[XLSX.utils.encode_cell({ r: i + 1, c: 4 })];
+    if (cell) cell.z = '0.00';
+  });
+  ws['!cols'] = [{ wch: 12 }, { wch: 12 }, { wch: 36 }, { wch: 24 }, { wch: 12 }, { wch: 10 }, { wch: 30 }];
+  XLSX.utils.book_append_sheet(wb, ws, 'Expenses');
+
+  const summary = XLSX.utils.aoa_to_sheet([
+    [info.title],
+    ['Period', info.period],
+    ...(info.employee ? [['Employee', info.employee]] : []),
+    [],
+    ['Category', 'Currency', 'Amount'],
+    ...totalsByCategory(expenses).map(t => [EXPENSE_CATEGORY_LABELS[t.category], t.currency, t.amount]),
+    ...Object.entries(totalsByCurrency(expenses)).map(([currency, amount]) => ['Total', currency, amount]),
+  ]);
+  Object.keys(summary)
+    .filter(ref => !ref.startsWith('!') && typeof summary[ref].v === 'number')
+    .forEach(ref => (summary[ref].z = '0.00'));
+  summary['!cols'] = [{ wch: 20 }, { wch: 24 }, { wch: 12 }];
+  XLSX.utils.book_append_sheet(wb, summary, 'Summary');
+
+  return wb;
+}
+
+export function exportExpensesXlsx(expenses: ExpenseRecord[], info: ExpenseReportInfo, filename = 'expenses.xlsx') {
+  XLSX.writeFile(buildExpenseWorkbook(expenses, info), filename);
+}
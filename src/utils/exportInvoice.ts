@@ -0,0 +1,120 @@
+import jsPDF from 'jspdf';
+import type { InvoiceInput } from '../api/invoices';
+
+const MARGIN = 50;
+const ROW_HEIGHT = 20;
+
+export interface InvoiceParties {
+  from: string;
+  billTo: string;
+}
+
+/**
+ * A4 invoice: header with number and dates, the two parties, one line per project
+ * (description, hours, rate, amount), then subtotal, tax and total right-aligned.
+ */
+export function buildInvoicePdf(invoice: InvoiceInput, parties: InvoiceParties) {
+  const pdf = new jsPDF({ unit: 'pt', format: 'a4' });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const right = pageWidth - MARGIN;
+  // Plain ASCII: the built-in PDF fonts have no glyphs for most currency symbols or locale spaces
+  const money = (amount: number) =>
+    `${invoice.currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  let y = MARGIN;
+
+  /* Header */
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(24);
+  pdf.text('INVOICE', MARGIN, y + 18);
+  pdf.setFontSize(10);
+  pdf.setFont('helvetica', 'normal');
+  [
+    ['Invoice no.', invoice.number],
+    ['Issue date', invoice.issue_date],
+    ['Due date', invoice.due_date],
+    ['Period', `${invoice.period_start} - ${invoice.period_end}`],
+  ].forEach(([label, value], i) => {
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(label, right - 200, y + 4 + i * 14);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(value, right, y + 4 + i * 14, { align: 'right' });
+  });
+  y += 80;
+
+  /* Parties */
+  const colWidth = (right - MARGIN) / 2;
+  [
+    { label: 'From', text: parties.from, x: MARGIN },
+    { label: 'Bill to', text: parties.billTo, x: MARGIN + colWidth },
+  ].forEach(({ label, text, x }) => {
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(label, x, y);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(pdf.splitTextToSize(text || '-', colWidth - 20), x, y + 14);
+  });
+  y += 60;
+
+  /* Line items */
+  const cols = [
+    { label: 'Description', x: MARGIN + 6, align: 'left' as const },
+    { label: 'Hours', x: right - 200, align: 'right' as const },
+    { label: 'Rate', x: right - 110, align: 'right' as const },
+    { label: 'Amount', x: right - 6, align: 'right' as const },
+  ];
+  const descriptionWidth = cols[1].x - cols[0].x - 60;
+
+  const header = () => {
+    pdf.setFillColor(235, 235, 235);
+    pdf.rect(MARGIN, y, right - MARGIN, ROW_HEIGHT, 'F');
+    pdf.setFont('helvetica', 'bold');
+    cols.forEach(c => pdf.text(c.label, c.x, y + 14, { align: c.align }));
+    pdf.setFont('helvetica', 'normal');
+    y += ROW_HEIGHT;
+  };
+  header();
+
+  invoice.lines.forEach(line => {
+    const description: string[] = pdf.splitTextToSize(line.description, descriptionWidth);
+    const height = Math.max(ROW_HEIGHT, description.length * 12 + 8);
+    if (y + height > pageHeight - MARGIN - 100) {
+      pdf.addPage();
+      y = MARGIN;
+      header();
+    }
+    pdf.text(description, cols[0].x, y + 14);
+    pdf.text(line.hours.toFixed(2), cols[1].x, y + 14, { align: 'right' });
+    pdf.text(money(line.rate), cols[2].x, y + 14, { align: 'right' });
+    pdf.text(money(line.amount), cols[3].x, y + 14, { align: 'right' });
+    y += height;
+    pdf.setDrawColor(220);
+    pdf.line(MARGIN, y, right, y);
+  });
+
+  /* Totals */
+  y += 16;
+  const totals: [string, string, boolean][] = [
+    ['Subtotal', money(invoice.subtotal), false],
+    [`Tax (${invoice.tax_rate}%)`, money(invoice.tax), false],
+    ['Total', money(invoice.total), true],
+  ];
+  totals.forEach(([label, value, bold]) => {
+    pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+    pdf.setFontSize(bold ? 12 : 10);
+    pdf.text(label, right - 200, y);
+    pdf.text(value, right - 6, y, { align: 'right' });
+    y += bold ? 18 : 14;
+  });
+
+  /* Notes */
+  if (invoice.notes?.trim()) {
+    y += 20;
+    pdf.setFontSize(9);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('Notes', MARGIN, y);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(pdf.splitTextToSize(invoice.notes, right - MARGIN), MARGIN, y + 12);
+  }
+
+  return pdf;
+}
@@ -1,33 +1,213 @@
-import html2canvas from 'html2canvas';
 import jsPDF from 'jspdf';
+import { breakdownSummary, computeHours, hasActiveRules, normalizeHoursRules } from './hoursRules';
+import { TIME_ENTRY_COLUMNS, cellText, entryMinutes, formatHours, totalMinutes } from './timeEntries';
+import type { TemplateData } from './templateData';
 
-export async function exportToPdf(elementId: string, filename = 'time-tracker.pdf') {
-  const el = document.getElementById(elementId);
-  if (!el) throw new Error('element not found');
+export type PdfPageFormat = 'a4' | 'letter' | 'legal';
+export type PdfOrientation = 'portrait' | 'landscape';
 
-  const canvas = await html2canvas(el, { scale: 2 });
-  const imgData = canvas.toDataURL('image/png');
+export interface PdfExportOptions {
+  format: PdfPageFormat;
+  orientation: PdfOrientation;
+  signatures: boolean;
+}
+
+export const DEFAULT_PDF_EXPORT: PdfExportOptions = { format: 'a4', orientation: 'portrait', signatures: true };
+
+const MARGIN = 40;
+const FONT_SIZE = 9;
+const LINE_HEIGHT = FONT_SIZE * 1.3;
+const CELL_PADDING = 4;
+const HEADER_IMAGE_MAX_HEIGHT = 50;
 
-  const pdf = new jsPDF('p', 'pt', 'a4');
+// Relative column widths; notes and free text get the remaining space
+const COLUMN_WEIGHTS: Record<string, number> = {
+  date: 1.3,
+  project: 1.8,
+  task: 1.8,
+  start: 0.8,
+  end: 0.8,
+  break: 0.8,
+  hours: 0.8,
+  notes: 2.5,
+};
+
+async function loadImageDataUrl(url: string) {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to fetch header image: ${res.status}`);
+  const blob = await res.blob();
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Draws the time tracker as a vector report: header image, meta block, the entry
+ * table (header repeated on every page, rows never split), totals and signature lines.
+ */
+export async function buildTimesheetPdf(template: TemplateData, title: string, options: PdfExportOptions = DEFAULT_PDF_EXPORT) {
+  const pdf = new jsPDF({ orientation: options.orientation, unit: 'pt', format: options.format });
   const pageWidth = pdf.internal.pageSize.getWidth();
   const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  const bottom = pageHeight - MARGIN - 20;
+  let y = MARGIN;
+
+  /* Header image */
+  if (template.headerImage?.url) {
+    try {
+      const dataUrl = await loadImageDataUrl(template.headerImage.url);
+      const props = pdf.getImageProperties(dataUrl);
+      const scale = Math.min(HEADER_IMAGE_MAX_HEIGHT / props.height, contentWidth / props.width, 1);
+      pdf.addImage(dataUrl, MARGIN, y, props.width * scale, props.height * scale);
+      y += props.height * scale + 12;
+    } catch (err) {
+      console.error(err);
+    }
+  }
+
+  /* Title + meta block */
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(16);
+  pdf.text(title || 'Time Tracker', MARGIN, y + 12);
+  y += 28;
 
-  const imgProps = pdf.getImageProperties(imgData);
-  const imgWidth = pageWidth - 40;
-  const imgHeight = (imgProps.height * imgWidth) / imgProps.width;
+  const meta: [string, string | undefined][] = [
+    ['Employee', template.meta?.employeeName],
+    ['Project', template.meta?.project],
+    ['Period', template.meta?.period],
+  ];
+  pdf.setFontSize(10);
+  meta.forEach(([label, value]) => {
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(`${label}:`, MARGIN, y);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(value || '-', MARGIN + 60, y);
+    y += 14;
+  });
+  y += 8;
 
-  let heightLeft = imgHeight;
-  let y = 20;
+  /* Table */
+  const totalWeight = TIME_ENTRY_COLUMNS.reduce((sum, c) => sum + (COLUMN_WEIGHTS[c.key] ?? 1), 0);
+  const widths = TIME_ENTRY_COLUMNS.map(c => ((COLUMN_WEIGHTS[c.key] ?? 1) / totalWeight) * contentWidth);
+  const xs = widths.map((_, i) => MARGIN + widths.slice(0, i).reduce((a, b) => a + b, 0));
 
-  pdf.addImage(imgData, 'PNG', 20, y, imgWidth, imgHeight);
-  heightLeft -= pageHeight;
+  const drawRow = (cells: string[], bold: boolean, fill?: [number, number, number]) => {
+    pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+    pdf.setFontSize(FONT_SIZE);
+    const lines: string[][] = cells.map((text, i) => pdf.splitTextToSize(text, widths[i] - CELL_PADDING * 2));
+    const height = Math.max(...lines.map(l => l.length), 1) * LINE_HEIGHT + CELL_PADDING * 2;
+    return {
+      height,
+      draw: () => {
+        pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+        pdf.setFontSize(FONT_SIZE);
+        if (fill) {
+          pdf.setFillColor(...fill);
+          pdf.rect(MARGIN, y, contentWidth, height, 'F');
+        }
+        pdf.setDrawColor(180);
+        lines.forEach((cellLines, i) => {
+          pdf.rect(xs[i], y, widths[i], height);
+          pdf.text(cellLines, xs[i] + CELL_PADDING, y + CELL_PADDING + FONT_SIZE);
+        });
+        y += height;
+      },
+    };
+  };
 
-  while (heightLeft > 0) {
+  const header = () => drawRow(TIME_ENTRY_COLUMNS.map(c => c.label), true, [235, 235, 235]);
+  const newPage = () => {
     pdf.addPage();
-    y = 20 - heightLeft;
-    pdf.addImage(imgData, 'PNG', 20, y, imgWidth, imgHeight);
-    heightLeft -= pageHeight;
+    y = MARGIN;
+    header().draw();
+  };
+
+  header().draw();
+  template.rows.filter(row => row.some(cell => cell.text.trim())).forEach(row => {
+    const minutes = entryMinutes(row);
+    const cells = TIME_ENTRY_COLUMNS.map(c =>
+      c.key === 'hours' ? (minutes === null || minutes < 0 ? '' : formatHours(minutes)) : cellText(row, c.key)
+    );
+    const r = drawRow(cells, false);
+    // Break before the row rather than cutting it in half
+    if (y + r.height > bottom) newPage();
+    r.draw();
+  });
+
+  const totals = TIME_ENTRY_COLUMNS.map(c => (c.key === 'hours' ? formatHours(totalMinutes(template.rows)) : ''));
+  totals[0] = 'Total';
+  const totalRow = drawRow(totals, true, [250, 243, 200]);
+  if (y + totalRow.height > bottom) newPage();
+  totalRow.draw();
+
+  /* Hours breakdown (rounding, unpaid breaks, overtime) */
+  const rules = normalizeHoursRules(template.hoursRules);
+  if (hasActiveRules(rules)) {
+    const lines = breakdownSummary(computeHours(template.rows, rules).totals, rules);
+    const blockHeight = lines.length * 13 + 12;
+    if (y + blockHeight > bottom) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+    y += 18;
+    const valueX = MARGIN + contentWidth;
+    const labelX = valueX - 200;
+    pdf.setFontSize(FONT_SIZE);
+    lines.forEach(([label, minutes], i) => {
+      const isTotal = i === lines.length - 1;
+      pdf.setFont('helvetica', isTotal ? 'bold' : 'normal');
+      pdf.text(label, labelX, y);
+      pdf.text(formatHours(minutes), valueX, y, { align: 'right' });
+      y += 13;
+    });
+  }
+
+  /* Signature lines */
+  if (options.signatures) {
+    const blockHeight = 70;
+    if (y + blockHeight > bottom) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+    y += 45;
+    const colWidth = (contentWidth - 40) / 2;
+    pdf.setDrawColor(0);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    [
+      { label: 'Employee signature', left: MARGIN },
+      { label: 'Approver signature', left: MARGIN + colWidth + 40 },
+    ].forEach(({ label, left }) => {
+      pdf.line(left, y, left + colWidth * 0.65, y);
+      pdf.line(left + colWidth * 0.72, y, left + colWidth, y);
+      pdf.text(label, left, y + 12);
+      pdf.text('Date', left + colWidth * 0.72, y + 12);
+    });
   }
 
+  /* Page numbers */
+  const pages = pdf.getNumberOfPages();
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(8);
+  for (let i = 1; i <= pages; i++) {
+    pdf.setPage(i);
+    pdf.text(`Page ${i} of ${pages}`, pageWidth - MARGIN, pageHeight - MARGIN / 2, { align: 'right' });
+  }
+
+  return pdf;
+}
+
+export async function exportToPdf(
+  template: TemplateData,
+  title: string,
+  options: PdfExportOptions = DEFAULT_PDF_EXPORT,
+  filename = 'time-tracker.pdf'
+) {
+  const pdf = await buildTimesheetPdf(template, title, options);
   pdf.save(filename);
+  return pdf.output('blob');
 }
@@ -0,0 +1,38 @@
+import * as XLSX from 'xlsx';
+import { formatHours } from './timeEntries';
+import type { ReportEntry } from './reports';
+
+const ENTRY_HEADERS = ['Date', 'Timesheet', 'Client', 'Project', 'Task', 'Worked Hours', 'Paid Hours'];
+
+/** Report sheet with the pivot as shown, plus an Entries sheet listing the rows behind it. */
+export function buildReportWorkbook(table: (string | number)[][], entries: ReportEntry[], title: string) {
+  const wb = XLSX.utils.book_new();
+
+  const reportWs = XLSX.utils.aoa_to_sheet([[title], [], ...table]);
+  Object.keys(reportWs)
+    .filter(ref => !ref.startsWith('!') && typeof reportWs[ref].v === 'number')
+    .forEach(ref => (reportWs[ref].z = '0.00'));
+  reportWs['!cols'] = table[0].map((_, i) => ({ wch: i === 0 ? 28 : 14 }));
+  XLSX.utils.book_append_sheet(wb, reportWs, 'Report');
+
+  const entriesWs = XLSX.utils.aoa_to_sheet([
+    ENTRY_HEADERS,
+    ...entries.map(e => [
+      e.date,
+      e.templateName,
+      e.clientName,
+      e.projectName,
+      e.task,
+      Number(formatHours(e.worked)),
+      Number(formatHours(e.paid)),
+    ]),
+  ]);
+  entriesWs['!cols'] = [{ wch: 12 }, { wch: 24 }, { wch: 20 }, { wch: 24 }, { wch: 30 }, { wch: 12 }, { wch: 12 }];
+  XLSX.utils.book_append_sheet(wb, entriesWs, 'Entries');
+
+  return wb;
+}
+
+export function exportReportXlsx(table: (string | number)[][], entries: ReportEntry[], title: string, filename = 'report.xlsx') {
+  XLSX.writeFile(buildReportWorkbook(table, entries, title), filename);
+}
@@ -0,0 +1,208 @@
+import * as XLSX from 'xlsx';
+import { toCsv } from './csv';
+import { daysBetween, weekStart } from './dates';
+import { breakdownSummary, computeHours, hasActiveRules, normalizeHoursRules } from './hoursRules';
+import { TIME_ENTRY_COLUMNS, cellText, entryMinutes, formatHours, parseBreak, parseTime, rowId } from './timeEntries';
+import type { Cell } from './timeEntries';
+import type { TemplateData } from './templateData';
+
+const EXCEL_EPOCH = '1899-12-30';
+
+const hasContent = (row: Cell[]) => row.some(cell => cell.text.trim());
+
+// Rows grouped by the Monday of their week; undated rows are kept under an empty key
+export const groupRowsByWeek = (rows: Cell[][]) => {
+  const groups = new Map<string, Cell[][]>();
+  rows.filter(hasContent).forEach(row => {
+    const date = cellText(row, 'date');
+    const key = date ? weekStart(date) : '';
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  });
+  return new Map([...groups.entries()].sort(([a], [b]) => (a === '' ? 1 : b === '' ? -1 : a.localeCompare(b))));
+};
+
+// Sheet names are limited to 31 chars and may not contain : \ / ? * [ ]
+const sheetName = (week: string) => (week ? `Week of ${week}` : 'Undated').replace(/[:\\/?*[\]]/g, '-').slice(0, 31);
+
+const col = (key: string) => XLSX.utils.encode_col(TIME_ENTRY_COLUMNS.findIndex(c => c.key === key));
+
+/* --------------------------
+   XLSX
+-------------------------- */
+function buildWeekSheet(rows: Cell[][], template: TemplateData, title: string) {
+  const metaRows: (string | number)[][] = [
+    [title],
+    ['Employee', template.meta?.employeeName ?? ''],
+    ['Project', template.meta?.project ?? ''],
+    ['Period', template.meta?.period ?? ''],
+    [],
+    TIME_ENTRY_COLUMNS.map(c => c.label),
+  ];
+  const ws = XLSX.utils.aoa_to_sheet(metaRows);
+  const firstDataRow = metaRows.length + 1; // 1-based Excel row
+
+  rows.forEach((row, i) => {
+    const r = firstDataRow + i;
+    const date = cellText(row, 'date');
+    const start = parseTime(cellText(row, 'start'));
+    const end = parseTime(cellText(row, 'end'));
+    const minutes = entryMinutes(row);
+
+    const cells: Record<string, XLSX.CellObject> = {
+      [`${col('date')}${r}`]: date
+        ? { t: 'n', v: daysBetween(EXCEL_EPOCH, date), z: 'yyyy-mm-dd' }
+        : { t: 's', v: '' },
+      [`${col('project')}${r}`]: { t: 's', v: cellText(row, 'project') },
+      [`${col('task')}${r}`]: { t: 's', v: cellText(row, 'task') },
+      [`${col('start')}${r}`]: start !== null ? { t: 'n', v: start / 1440, z: 'hh:mm' } : { t: 's', v: '' },
+      [`${col('end')}${r}`]: end !== null ? { t: 'n', v: end / 1440, z: 'hh:mm' } : { t: 's', v: '' },
+      [`${col('break')}${r}`]: { t: 'n', v: parseBreak(cellText(row, 'break')) },
+      // Formula keeps the sheet live if times are corrected in Excel; MOD handles shifts past midnight; v is the cached result
+      [`${col('hours')}${r}`]: {
+        t: 'n',
+        f: `IF(AND(ISNUMBER(${col('start')}${r}),ISNUMBER(${col('end')}${r})),MOD(${col('end')}${r}-${col('start')}${r},1)*24-${col('break')}${r}/60,0)`,
+        v: minutes !== null && minutes > 0 ? minutes / 60 : 0,
+        z: '0.00',
+      },
+      [`${col('notes')}${r}`]: { t: 's', v: cellText(row, 'notes') },
+    };
+    Object.assign(ws, cells);
+  });
+
+  const lastDataRow = firstDataRow + rows.length - 1;
+  const totalRow = lastDataRow + 1;
+  const weekMinutes = rows.reduce((sum, row) => {
+    const m = entryMinutes(row);
+    return m !== null && m > 0 ? sum + m : sum;
+  }, 0);
+  ws[`${col('date')}${totalRow}`] = { t: 's', v: 'Total' };
+  ws[`${col('hours')}${totalRow}`] = {
+    t: 'n',
+    f: `SUM(${col('hours')}${firstDataRow}:${col('hours')}${lastDataRow})`,
+    v: weekMinutes / 60,
+    z: '0.00',
+  };
+
+  ws['!ref'] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: totalRow - 1, c: TIME_ENTRY_COLUMNS.length - 1 } });
+  ws['!cols'] = TIME_ENTRY_COLUMNS.map(c => ({ wch: c.key === 'notes' ? 40 : c.key === 'project' || c.key === 'task' ? 22 : 12 }));
+  return { ws, totalCell: `${col('hours')}${totalRow}`, weekMinutes };
+}
+
+export function buildTimesheetWorkbook(template: TemplateData, title: string) {
+  const wb = XLSX.utils.book_new();
+  const rules = normalizeHoursRules(template.hoursRules);
+  const withRules = hasActiveRules(rules);
+  const breakdown = computeHours(template.rows, rules);
+  const weekFigures = new Map(breakdown.weeks.map(w => [w.week, w]));
+  const hours = (minutes = 0) => Number(formatHours(minutes));
+
+  // Hours column keeps formulas over the raw times; rule-based figures are values from computeHours
+  const summary: (string | number)[][] = [
+    [title],
+    [],
+    ['Week', 'Hours', ...(withRules ? ['Regular', 'Overtime', 'Paid'] : [])],
+  ];
+  const summaryFormulas: { row: number; sheet: string; cell: string; minutes: number }[] = [];
+
+  groupRowsByWeek(template.rows).forEach((rows, week) => {
+    const name = sheetName(week);
+    const { ws, totalCell, weekMinutes } = buildWeekSheet(rows, template, title);
+    XLSX.utils.book_append_sheet(wb, ws, name);
+    const figures = weekFigures.get(week);
+    const undated = week === '' ? breakdown.totals.regular - breakdown.weeks.reduce((sum, w) => sum + w.regular, 0) : 0;
+    summary.push([
+      name,
+      0,
+      ...(withRules
+        ? [hours(figures?.regular ?? undated), hours(figures?.overtime), hours(figures?.paid ?? undated)]
+        : []),
+    ]);
+    summaryFormulas.push({ row: summary.length, sheet: name, cell: totalCell, minutes: weekMinutes });
+  });
+
+  const summaryWs = XLSX.utils.aoa_to_sheet(summary);
+  summaryFormulas.forEach(({ row, sheet, cell, minutes }) => {
+    summaryWs[`B${row}`] = { t: 'n', f: `'${sheet}'!${cell}`, v: minutes / 60, z: '0.00' };
+    if (withRules) ['C', 'D', 'E'].forEach(c => (summaryWs[`${c}${row}`].z = '0.00'));
+  });
+  const totalRow = summary.length + 1;
+  summaryWs[`A${totalRow}`] = { t: 's', v: 'Total' };
+  summaryWs[`B${totalRow}`] = {
+    t: 'n',
+    f: summaryFormulas.length ? `SUM(B4:B${totalRow - 1})` : '0',
+    v: summaryFormulas.reduce((sum, s) => sum + s.minutes, 0) / 60,
+    z: '0.00',
+  };
+  let lastRow = totalRow;
+  if (withRules) {
+    ['C', 'D', 'E'].forEach(c => {
+      summaryWs[`${c}${totalRow}`] = {
+        t: 'n',
+        f: summaryFormulas.length ? `SUM(${c}4:${c}${totalRow - 1})` : '0',
+        v: hours(c === 'C' ? breakdown.totals.regular : c === 'D' ? breakdown.totals.overtime : breakdown.totals.paid),
+        z: '0.00',
+      };
+    });
+    // Plain breakdown below the table so the rule effects are visible without reading formulas
+    lastRow = totalRow + 2;
+    breakdownSummary(breakdown.totals, rules).forEach(([label, minutes]) => {
+      lastRow++;
+      summaryWs[`A${lastRow}`] = { t: 's', v: label };
+      summaryWs[`B${lastRow}`] = { t: 'n', v: hours(minutes), z: '0.00' };
+    });
+  }
+  summaryWs['!ref'] = `A1:${withRules ? 'E' : 'B'}${lastRow}`;
+  summaryWs['!cols'] = [{ wch: 30 }, { wch: 10 }, { wch: 10 }, { wch: 10 }, { wch: 10 }];
+
+  XLSX.utils.book_append_sheet(wb, summaryWs, 'Summary');
+  // Summary first so the workbook opens on the overview
+  wb.SheetNames = ['Summary', ...wb.SheetNames.filter(n => n !== 'Summary')];
+  return wb;
+}
+
+export function exportToXlsx(template: TemplateData, title: string, filename = 'time-tracker.xlsx') {
+  XLSX.writeFile(buildTimesheetWorkbook(template, title), filename);
+}
+
+/* --------------------------
+   CSV (payroll import)
+-------------------------- */
+// Hours is the raw start/end time; Paid/Regular/Overtime have the template's hours rules applied
+export const PAYROLL_CSV_HEADERS = [
+  'Employee',
+  'Project',
+  'Date',
+  'Task',
+  'Start',
+  'End',
+  'Break Minutes',
+  'Hours',
+  'Paid Hours',
+  'Regular Hours',
+  'Overtime Hours',
+  'Notes',
+];
+
+export function buildTimesheetCsv(template: TemplateData) {
+  const employee = template.meta?.employeeName ?? '';
+  const breakdown = computeHours(template.rows, template.hoursRules);
+  const lines = template.rows.filter(hasContent).map(row => {
+    const minutes = entryMinutes(row);
+    const figures = breakdown.entries.get(rowId(row));
+    return [
+      employee,
+      cellText(row, 'project') || template.meta?.project || '',
+      cellText(row, 'date'),
+      cellText(row, 'task'),
+      cellText(row, 'start'),
+      cellText(row, 'end'),
+      String(parseBreak(cellText(row, 'break'))),
+      minutes !== null && minutes > 0 ? formatHours(minutes) : '0.00',
+      formatHours(figures?.paid ?? 0),
+      formatHours(figures?.regular ?? 0),
+      formatHours(figures?.overtime ?? 0),
+      cellText(row, 'notes'),
+    ];
+  });
+  return toCsv([PAYROLL_CSV_HEADERS, ...lines]);
+}
@@ -0,0 +1,37 @@
+import { PDFDocument, degrees } from "pdf-lib";
+import { describe, expect, it } from "vitest";
+import { PX_PER_POINT, pageViewSize, toPdfPoint } from "./flattenPdf";
+
+const pageWithRotation = async (angle: number) => {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage([200, 100]);
+  page.setRotation(degrees(angle));
+  return page;
+};
+
+// Pixel position of a point given in PDF points on the page as displayed
+const px = (x: number, y: number) => [x * PX_PER_POINT, y * PX_PER_POINT] as const;
+
+describe("toPdfPoint", () => {
+  it("flips the y axis on unrotated pages", async () => {
+    const page = await pageWithRotation(0);
+    expect(toPdfPoint(page, ...px(10, 20))).toEqual({ x: 10, y: 80 });
+  });
+
+  it("maps the displayed top-left corner of rotated pages", async () => {
+    expect(toPdfPoint(await pageWithRotation(90), 0, 0)).toEqual({ x: 0, y: 0 });
+    expect(toPdfPoint(await pageWithRotation(180), 0, 0)).toEqual({ x: 200, y: 0 });
+    expect(toPdfPoint(await pageWithRotation(270), 0, 0)).toEqual({ x: 200, y: 100 });
+  });
+
+  it("maps points inside rotated pages", async () => {
+    expect(toPdfPoint(await pageWithRotation(90), ...px(30, 40))).toEqual({ x: 40, y: 30 });
+    expect(toPdfPoint(await pageWithRotation(-90), ...px(30, 40))).toEqual({ x: 160, y: 70 });
+  });
+});
+
+describe("pageViewSize", () => {
+  it("swaps width and height for sideways pages", async () => {
+    expect(pageViewSize(await pageWithRotation(90))).toEqual({ width: 100 * PX_PER_POINT, height: 200 * PX_PER_POINT });
+  });
+});
@@ -0,0 +1,240 @@
+import { PDFDocument, StandardFonts, degrees, rgb } from 'pdf-lib';
+import type { PDFFont, PDFImage, PDFPage } from 'pdf-lib';
+import { normalizeRotation } from './pdfPages';
+import type { PdfAnnotation } from './templateData';
+import { signatureDateLine } from './signature';
+
+// Annotations are positioned in CSS pixels on a page rendered at 100% (96 DPI); PDF user space is 72 DPI
+export const PX_PER_POINT = 96 / 72;
+
+export const LINE_HEIGHT = 1.2;
+
+const HEADER_MAX_HEIGHT = 48;
+const HEADER_MARGIN = 20;
+
+// Browser font names offered in the annotation modal mapped to the closest PDF standard font
+const FONT_MAP: Record<string, StandardFonts> = {
+  Tahoma: StandardFonts.Helvetica,
+  Arial: StandardFonts.Helvetica,
+  Calibri: StandardFonts.Helvetica,
+  Verdana: StandardFonts.Helvetica,
+  'Times New Roman': StandardFonts.TimesRoman,
+  Georgia: StandardFonts.TimesRoman,
+  'Courier New': StandardFonts.Courier,
+};
+
+export const hexToRgb = (hex: string) => {
+  const clean = hex.replace('#', '');
+  const full = clean.length === 3 ? clean.split('').map(c => c + c).join('') : clean.padEnd(6, '0');
+  const n = parseInt(full.slice(0, 6), 16);
+  if (Number.isNaN(n)) return rgb(0, 0, 0);
+  return rgb(((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255);
+};
+
+export async function fetchBytes(url: string) {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to fetch ${url}: ${res.status}`);
+  return new Uint8Array(await res.arrayBuffer());
+}
+
+// Signature stamps carry their PNG inline as a data URL
+export const dataUrlToBytes = (dataUrl: string) =>
+  Uint8Array.from(atob(dataUrl.slice(dataUrl.indexOf(',') + 1)), ch => ch.charCodeAt(0));
+
+const isPng = (bytes: Uint8Array) => bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+
+// SVG has no magic number and only loads into an <img> with its mime type
+const looksLikeSvg = (bytes: Uint8Array) => /<svg[\s>]/i.test(new TextDecoder().decode(bytes.slice(0, 1024)));
+
+// PDFs only take PNG and JPEG; anything else the browser can show (GIF, WebP, SVG...) is redrawn as PNG
+const reencodeAsPng = (bytes: Uint8Array) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const src = URL.createObjectURL(new Blob([bytes as BlobPart], looksLikeSvg(bytes) ? { type: 'image/svg+xml' } : undefined));
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(src);
+      const canvas = document.createElement('canvas');
+      // SVGs without a size report 0; fall back to the <img> default
+      canvas.width = img.naturalWidth || img.width || 300;
+      canvas.height = img.naturalHeight || img.height || 150;
+      canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => {
+        if (!blob) return reject(new Error('Could not convert the image'));
+        blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+      }, 'image/png');
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(src);
+      reject(new Error('Unsupported image format'));
+    };
+    img.src = src;
+  });
+
+export async function embedImage(doc: PDFDocument, bytes: Uint8Array): Promise<PDFImage> {
+  if (isPng(bytes)) return doc.embedPng(bytes);
+  if (isJpeg(bytes)) return doc.embedJpg(bytes);
+  return doc.embedPng(await reencodeAsPng(bytes));
+}
+
+// Standard fonts only cover WinAnsi; drop anything they cannot encode instead of failing the export
+const encodable = (font: PDFFont, text: string) => {
+  const charset = new Set(font.getCharacterSet());
+  return Array.from(text).filter(ch => ch === '\n' || charset.has(ch.codePointAt(0) ?? 0)).join('');
+};
+
+/* --------------------------
+   Screen pixel -> PDF point conversion
+-------------------------- */
+const pageRotation = (page: PDFPage) => normalizeRotation(page.getRotation().angle);
+
+// Page size as displayed, i.e. turned by its /Rotate, in the same pixels as annotations
+export const pageViewSize = (page: PDFPage) => {
+  const { width, height } = page.getCropBox();
+  const turned = pageRotation(page) % 180 !== 0;
+  return { width: (turned ? height : width) * PX_PER_POINT, height: (turned ? width : height) * PX_PER_POINT };
+};
+
+export async function pdfPageViewSizes(pdfBytes: Uint8Array) {
+  const doc = await PDFDocument.load(pdfBytes);
+  return doc.getPages().map(pageViewSize);
+}
+
+// Annotations are placed on the page as displayed; pages with a /Rotate are shown turned clockwise,
+// so undo the turn to get unrotated user space
+export const toPdfPoint = (page: PDFPage, xPx: number, yPx: number) => {
+  const box = page.getCropBox();
+  const x = xPx / PX_PER_POINT;
+  const y = yPx / PX_PER_POINT;
+  switch (pageRotation(page)) {
+    case 90:
+      return { x: box.x + y, y: box.y + x };
+    case 180:
+      return { x: box.x + box.width - x, y: box.y + y };
+    case 270:
+      return { x: box.x + box.width - y, y: box.y + box.height - x };
+    default:
+      // PDF origin is bottom-left, screen origin is top-left
+      return { x: box.x + x, y: box.y + box.height - y };
+  }
+};
+
+// Signature image with its date line underneath, matching the overlay's layout. The line is
+// rebuilt from the stamp so the printed date always matches the audit trail
+export function drawSignature(page: PDFPage, font: PDFFont, image: PDFImage, annotation: PdfAnnotation) {
+  const stamp = annotation.signature!;
+  const width = annotation.width ?? (stamp.height * image.width) / image.height;
+  // Images are drawn from their bottom-left corner and turned with the page so they read upright
+  const bottomLeft = toPdfPoint(page, annotation.x, annotation.y + stamp.height);
+  page.drawImage(image, {
+    x: bottomLeft.x,
+    y: bottomLeft.y,
+    width: width / PX_PER_POINT,
+    height: stamp.height / PX_PER_POINT,
+    rotate: degrees(pageRotation(page)),
+  });
+  const dateLine = signatureDateLine(stamp.signerName, new Date(stamp.signedAt));
+  drawAnnotation(page, font, { ...annotation, text: dateLine }, stamp.height);
+}
+
+// Greedy word wrap matching how the overlay lays out text inside a fixed-width box
+export const wrapText = (font: PDFFont, text: string, size: number, maxWidth?: number) =>
+  text.split('\n').flatMap(paragraph => {
+    if (!maxWidth) return [paragraph];
+    const lines: string[] = [];
+    let current = '';
+    paragraph.split(' ').forEach(word => {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    });
+    lines.push(current);
+    return lines;
+  });
+
+export function drawAnnotation(page: PDFPage, font: PDFFont, annotation: PdfAnnotation, offsetYPx = 0) {
+  const size = annotation.fontSize;
+  const text = encodable(font, annotation.text);
+  const ascent = font.heightAtSize(size, { descender: false });
+  const maxWidth = annotation.width ? annotation.width / PX_PER_POINT : undefined;
+  const rotate = degrees(pageRotation(page));
+
+  wrapText(font, text, size, maxWidth).forEach((line, i) => {
+    // Baselines are found on the page as displayed so the lines follow a rotated page
+    const baseline = toPdfPoint(page, annotation.x, annotation.y + offsetYPx + (ascent + i * size * LINE_HEIGHT) * PX_PER_POINT);
+    page.drawText(line, {
+      x: baseline.x,
+      y: baseline.y,
+      size,
+      font,
+      color: hexToRgb(annotation.fontColor || '#000000'),
+      rotate,
+    });
+  });
+}
+
+/* --------------------------
+   Flatten annotations + header image into a new PDF
+-------------------------- */
+export async function flattenAnnotations(
+  pdfBytes: Uint8Array,
+  annotations: PdfAnnotation[],
+  headerImageUrl?: string
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.load(pdfBytes);
+  const pages = doc.getPages();
+  const fonts = new Map<StandardFonts, PDFFont>();
+
+  const fontFor = async (family: string) => {
+    const standard = FONT_MAP[family] ?? StandardFonts.Helvetica;
+    let font = fonts.get(standard);
+    if (!font) {
+      font = await doc.embedFont(standard);
+      fonts.set(standard, font);
+    }
+    return font;
+  };
+
+  if (headerImageUrl && pages[0]) {
+    const image = await embedImage(doc, await fetchBytes(headerImageUrl));
+    const page = pages[0];
+    const viewWidth = pageViewSize(page).width / PX_PER_POINT;
+    const scale = Math.min(HEADER_MAX_HEIGHT / image.height, (viewWidth - HEADER_MARGIN * 2) / image.width, 1);
+    const { width, height } = image.scale(scale);
+    const bottomLeft = toPdfPoint(page, HEADER_MARGIN * PX_PER_POINT, (HEADER_MARGIN + height) * PX_PER_POINT);
+    page.drawImage(image, {
+      x: bottomLeft.x,
+      y: bottomLeft.y,
+      width,
+      height,
+      rotate: degrees(pageRotation(page)),
+    });
+  }
+
+  // The same signature is usually stamped on several pages; embed it once
+  const signatureImages = new Map<string, PDFImage>();
+
+  for (const annotation of annotations) {
+    const page = pages[annotation.pageIndex];
+    if (!page) continue;
+    if (annotation.signature) {
+      const { imageData } = annotation.signature;
+      let image = signatureImages.get(imageData);
+      if (!image) {
+        image = await doc.embedPng(dataUrlToBytes(imageData));
+        signatureImages.set(imageData, image);
+      }
+      drawSignature(page, await fontFor(annotation.fontFamily), image, annotation);
+      continue;
+    }
+    if (!annotation.text.trim()) continue;
+    drawAnnotation(page, await fontFor(annotation.fontFamily), annotation);
+  }
+
+  return doc.save();
+}
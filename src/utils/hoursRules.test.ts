@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { computeHours, roundMinutes } from "./hoursRules";
+import { makeEmptyRow, rowId, setCellText } from "./timeEntries";
+
+const entry = (date: string, start: string, end: string, breakMinutes = "") =>
+  setCellText(setCellText(setCellText(setCellText(makeEmptyRow(), "date", date), "start", start), "end", end), "break", breakMinutes);
+
+describe("roundMinutes", () => {
+  it("rounds to the nearest increment", () => {
+    expect(roundMinutes(52, 15, "nearest")).toBe(45);
+    expect(roundMinutes(53, 15, "nearest")).toBe(60);
+  });
+
+  it("rounds up and down", () => {
+    expect(roundMinutes(46, 15, "up")).toBe(60);
+    expect(roundMinutes(59, 15, "down")).toBe(45);
+  });
+
+  it("leaves exact multiples and disabled rounding alone", () => {
+    expect(roundMinutes(45, 15, "up")).toBe(45);
+    expect(roundMinutes(52, 0, "up")).toBe(52);
+  });
+});
+
+describe("computeHours", () => {
+  it("records rounding per entry", () => {
+    const row = entry("2026-01-05", "09:00", "09:52");
+    const { entries, totals } = computeHours([row], { roundingMinutes: 15, roundingMode: "up" });
+    expect(entries.get(rowId(row))).toMatchObject({ worked: 52, rounding: 8, paid: 60, regular: 60 });
+    expect(totals.paid).toBe(60);
+  });
+
+  it("deducts the break only once the day passes the threshold", () => {
+    const exactly = computeHours([entry("2026-01-05", "09:00", "15:00")], { breakAfterHours: 6, breakMinutes: 30 });
+    expect(exactly.totals.breakDeducted).toBe(0);
+
+    const over = computeHours([entry("2026-01-05", "09:00", "16:00")], { breakAfterHours: 6, breakMinutes: 30 });
+    expect(over.totals).toMatchObject({ worked: 420, breakDeducted: 30, paid: 390 });
+  });
+
+  it("never deducts more than the time past the threshold, and counts logged breaks", () => {
+    const short = computeHours([entry("2026-01-05", "09:00", "15:10")], { breakAfterHours: 6, breakMinutes: 30 });
+    expect(short.totals.breakDeducted).toBe(10);
+
+    const logged = computeHours([entry("2026-01-05", "08:00", "16:20", "20")], { breakAfterHours: 6, breakMinutes: 30 });
+    expect(logged.totals.breakDeducted).toBe(10);
+  });
+
+  it("puts daily overtime on the entry that crosses the limit", () => {
+    const morning = entry("2026-01-05", "06:00", "12:00");
+    const afternoon = entry("2026-01-05", "13:00", "17:00");
+    const { entries, totals } = computeHours([afternoon, morning], { dailyOvertimeHours: 8 });
+    expect(entries.get(rowId(morning))).toMatchObject({ regular: 360, overtime: 0 });
+    expect(entries.get(rowId(afternoon))).toMatchObject({ regular: 120, overtime: 120 });
+    expect(totals).toMatchObject({ regular: 480, overtime: 120 });
+  });
+
+  it("applies weekly overtime without counting daily overtime twice", () => {
+    // Monday to Friday, 9h a day: 1h daily overtime each day, 40h regular leaves no weekly overtime
+    const week = ["05", "06", "07", "08", "09"].map(d => entry(`2026-01-${d}`, "08:00", "17:00"));
+    const { totals, weeks } = computeHours(week, { dailyOvertimeHours: 8, weeklyOvertimeHours: 40 });
+    expect(totals).toMatchObject({ regular: 2400, overtime: 300 });
+    expect(weeks).toHaveLength(1);
+
+    const saturday = entry("2026-01-10", "08:00", "12:00");
+    const withSaturday = computeHours([...week, saturday], { dailyOvertimeHours: 8, weeklyOvertimeHours: 40 });
+    expect(withSaturday.entries.get(rowId(saturday))).toMatchObject({ regular: 0, overtime: 240 });
+  });
+
+  it("starts a new week on Monday", () => {
+    const sunday = entry("2026-01-11", "08:00", "18:00");
+    const monday = entry("2026-01-12", "08:00", "18:00");
+    const { weeks } = computeHours([sunday, monday], { weeklyOvertimeHours: 8 });
+    expect(weeks.map(w => w.week)).toEqual(["2026-01-05", "2026-01-12"]);
+    expect(weeks.every(w => w.overtime === 120)).toBe(true);
+  });
+
+  it("counts an overnight shift towards the day it starts", () => {
+    const night = entry("2026-01-05", "20:00", "06:00");
+    const { days, totals } = computeHours([night], { dailyOvertimeHours: 8 });
+    expect(days).toEqual([expect.objectContaining({ date: "2026-01-05", worked: 600, overtime: 120 })]);
+    expect(totals.regular).toBe(480);
+  });
+
+  it("skips incomplete entries and treats undated ones as regular time", () => {
+    const undated = entry("", "09:00", "19:00");
+    const { totals } = computeHours([undated, entry("2026-01-05", "09:00", "")], { dailyOvertimeHours: 8 });
+    expect(totals).toMatchObject({ worked: 600, regular: 600, overtime: 0 });
+  });
+});
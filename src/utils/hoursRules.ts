@@ -0,0 +1,189 @@
+// src/utils/hoursRules.ts
+import { weekStart } from "./dates";
+import { cellText, entryMinutes, parseBreak, parseTime, rowId } from "./timeEntries";
+import type { Cell } from "./timeEntries";
+
+/* --------------------------
+   Rule settings (stored per template)
+-------------------------- */
+export type RoundingMode = "nearest" | "up" | "down";
+
+export type HoursRules = {
+  // Each entry's worked time is rounded to this many minutes; 0 disables rounding
+  roundingMinutes: number;
+  roundingMode: RoundingMode;
+  // Unpaid break deducted once a day's worked hours pass the threshold, minus breaks already logged
+  breakAfterHours: number | null;
+  breakMinutes: number;
+  dailyOvertimeHours: number | null;
+  weeklyOvertimeHours: number | null;
+};
+
+export const DEFAULT_HOURS_RULES: HoursRules = {
+  roundingMinutes: 0,
+  roundingMode: "nearest",
+  breakAfterHours: null,
+  breakMinutes: 30,
+  dailyOvertimeHours: null,
+  weeklyOvertimeHours: null,
+};
+
+export const ROUNDING_OPTIONS = [0, 5, 6, 10, 15, 30];
+
+export const normalizeHoursRules = (rules?: Partial<HoursRules> | null): HoursRules => ({
+  ...DEFAULT_HOURS_RULES,
+  ...rules,
+});
+
+export const hasActiveRules = (rules: HoursRules) =>
+  rules.roundingMinutes > 0 ||
+  rules.breakAfterHours !== null ||
+  rules.dailyOvertimeHours !== null ||
+  rules.weeklyOvertimeHours !== null;
+
+export const roundMinutes = (minutes: number, increment: number, mode: RoundingMode) => {
+  if (increment <= 0) return minutes;
+  const steps = minutes / increment;
+  const rounded = mode === "up" ? Math.ceil(steps) : mode === "down" ? Math.floor(steps) : Math.round(steps);
+  return rounded * increment;
+};
+
+/* --------------------------
+   Breakdown
+-------------------------- */
+export type HoursFigures = {
+  // Start/end minus logged breaks, before any rule is applied
+  worked: number;
+  // Change from rounding (negative when rounded down)
+  rounding: number;
+  breakDeducted: number;
+  // worked + rounding - breakDeducted = regular + overtime
+  paid: number;
+  regular: number;
+  overtime: number;
+};
+
+export type HoursBreakdown = {
+  entries: Map<string, HoursFigures>;
+  days: ({ date: string } & HoursFigures)[];
+  weeks: ({ week: string } & HoursFigures)[];
+  totals: HoursFigures;
+};
+
+const emptyFigures = (): HoursFigures => ({ worked: 0, rounding: 0, breakDeducted: 0, paid: 0, regular: 0, overtime: 0 });
+
+const addFigures = (a: HoursFigures, b: HoursFigures): HoursFigures => ({
+  worked: a.worked + b.worked,
+  rounding: a.rounding + b.rounding,
+  breakDeducted: a.breakDeducted + b.breakDeducted,
+  paid: a.paid + b.paid,
+  regular: a.regular + b.regular,
+  overtime: a.overtime + b.overtime,
+});
+
+/**
+ * Applies the rules to the grid, all figures in minutes. Entries are walked in date/start
+ * order so that the automatic break and overtime land on the entries that cross each
+ * threshold: first rounding per entry, then the daily break deduction, daily overtime,
+ * and finally weekly overtime (Monday-based weeks) on the hours still counted as regular.
+ * A shift past midnight counts towards the day it starts on, and undated entries are
+ * rounded but otherwise counted as regular time.
+ */
+export function computeHours(rows: Cell[][], rulesInput?: Partial<HoursRules> | null): HoursBreakdown {
+  const rules = normalizeHoursRules(rulesInput);
+  const entries = new Map<string, HoursFigures>();
+
+  const timed = rows
+    .map(row => ({
+      id: rowId(row),
+      date: cellText(row, "date"),
+      start: parseTime(cellText(row, "start")) ?? 0,
+      loggedBreak: parseBreak(cellText(row, "break")),
+      minutes: entryMinutes(row),
+    }))
+    .filter((e): e is typeof e & { minutes: number } => e.minutes !== null && e.minutes > 0)
+    .sort((a, b) => (a.date || "9999-12-31").localeCompare(b.date || "9999-12-31") || a.start - b.start);
+
+  timed.forEach(e => {
+    const paid = roundMinutes(e.minutes, rules.roundingMinutes, rules.roundingMode);
+    entries.set(e.id, { ...emptyFigures(), worked: e.minutes, rounding: paid - e.minutes, paid, regular: paid });
+  });
+
+  // Daily rules
+  const byDate = new Map<string, typeof timed>();
+  timed.filter(e => e.date).forEach(e => byDate.set(e.date, [...(byDate.get(e.date) ?? []), e]));
+
+  byDate.forEach(dayEntries => {
+    const figures = dayEntries.map(e => entries.get(e.id)!);
+    const dayPaid = figures.reduce((sum, f) => sum + f.paid, 0);
+    const dayLoggedBreak = dayEntries.reduce((sum, e) => sum + e.loggedBreak, 0);
+
+    if (rules.breakAfterHours !== null && dayPaid > rules.breakAfterHours * 60) {
+      let remaining = Math.min(Math.max(0, rules.breakMinutes - dayLoggedBreak), dayPaid - rules.breakAfterHours * 60);
+      let cumulative = 0;
+      figures.forEach(f => {
+        cumulative += f.paid;
+        if (remaining <= 0 || cumulative <= rules.breakAfterHours! * 60) return;
+        const take = Math.min(remaining, f.paid);
+        f.breakDeducted += take;
+        f.paid -= take;
+        f.regular -= take;
+        remaining -= take;
+      });
+    }
+
+    if (rules.dailyOvertimeHours !== null) {
+      const limit = rules.dailyOvertimeHours * 60;
+      let cumulative = 0;
+      figures.forEach(f => {
+        const over = Math.min(f.paid, Math.max(0, cumulative + f.paid - limit));
+        cumulative += f.paid;
+        f.overtime += over;
+        f.regular -= over;
+      });
+    }
+  });
+
+  // Weekly rule: regular time beyond the weekly limit becomes overtime, without counting daily overtime twice
+  if (rules.weeklyOvertimeHours !== null) {
+    const limit = rules.weeklyOvertimeHours * 60;
+    const cumulative = new Map<string, number>();
+    timed.filter(e => e.date).forEach(e => {
+      const f = entries.get(e.id)!;
+      const week = weekStart(e.date);
+      const before = cumulative.get(week) ?? 0;
+      const over = Math.min(f.regular, Math.max(0, before + f.regular - limit));
+      cumulative.set(week, before + f.regular);
+      f.overtime += over;
+      f.regular -= over;
+    });
+  }
+
+  const days = new Map<string, HoursFigures>();
+  const weeks = new Map<string, HoursFigures>();
+  let totals = emptyFigures();
+  timed.forEach(e => {
+    const f = entries.get(e.id)!;
+    totals = addFigures(totals, f);
+    if (!e.date) return;
+    days.set(e.date, addFigures(days.get(e.date) ?? emptyFigures(), f));
+    const week = weekStart(e.date);
+    weeks.set(week, addFigures(weeks.get(week) ?? emptyFigures(), f));
+  });
+
+  return {
+    entries,
+    days: [...days.entries()].map(([date, f]) => ({ date, ...f })),
+    weeks: [...weeks.entries()].map(([week, f]) => ({ week, ...f })),
+    totals,
+  };
+}
+
+// Label/value pairs for the totals blocks in exports
+export const breakdownSummary = (totals: HoursFigures, rules: HoursRules) => {
+  const lines: [string, number][] = [["Worked", totals.worked]];
+  if (rules.roundingMinutes > 0) lines.push([`Rounding (${rules.roundingMinutes} min, ${rules.roundingMode})`, totals.rounding]);
+  if (rules.breakAfterHours !== null) lines.push([`Unpaid break after ${rules.breakAfterHours}h`, -totals.breakDeducted]);
+  lines.push(["Regular", totals.regular], ["Overtime", totals.overtime], ["Paid total", totals.paid]);
+  return lines;
+};
@@ -0,0 +1,321 @@
+// src/utils/importEntries.ts
+import { addDays, isIsoDate, toIsoDate } from "./dates";
+import { cellText, makeEmptyRow, parseTime, setCellText, withComputedHours } from "./timeEntries";
+import type { Cell } from "./timeEntries";
+import type { Period } from "./periods";
+
+/* --------------------------
+   Imported entry shape
+-------------------------- */
+export type ImportedEntry = {
+  date: string;
+  start: string;
+  end: string;
+  breakMinutes: number;
+  project: string;
+  task: string;
+  notes: string;
+};
+
+export type ImportField = "date" | "start" | "end" | "duration" | "break" | "project" | "task" | "notes";
+
+export const IMPORT_FIELDS: { key: ImportField; label: string }[] = [
+  { key: "date", label: "Date" },
+  { key: "start", label: "Start" },
+  { key: "end", label: "End" },
+  { key: "duration", label: "Duration" },
+  { key: "break", label: "Break (min)" },
+  { key: "project", label: "Project" },
+  { key: "task", label: "Task" },
+  { key: "notes", label: "Notes" },
+];
+
+// Field -> CSV column index; unmapped fields are left out
+export type CsvColumnMapping = Partial<Record<ImportField, number>>;
+
+export type CsvSource = "toggl" | "clockify" | "generic";
+
+export const CSV_SOURCE_LABELS: Record<CsvSource, string> = {
+  toggl: "Toggl detailed export",
+  clockify: "Clockify detailed export",
+  generic: "CSV",
+};
+
+/* --------------------------
+   Value normalisation
+-------------------------- */
+
+// ISO, "MM/DD/YYYY" (Toggl/Clockify US default) and "DD.MM.YYYY" -> "YYYY-MM-DD"
+export const normalizeDate = (value: string): string | null => {
+  const text = value.trim();
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(text);
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(text);
+  const eu = /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/.exec(text);
+  const parts = iso ? [iso[1], iso[2], iso[3]] : us ? [us[3], us[1], us[2]] : eu ? [eu[3], eu[2], eu[1]] : null;
+  if (!parts) return null;
+  const [y, m, d] = parts;
+  const date = `${y}-${m.padStart(2, "0")}-${d.padStart(2, "0")}`;
+  return isIsoDate(date) && toIsoDate(new Date(`${date}T00:00:00Z`)) === date ? date : null;
+};
+
+// "9:05", "09:05:30" and "9:05 PM" -> "HH:MM"
+export const normalizeTime = (value: string): string | null => {
+  const match = /^(\d{1,2}):(\d{2})(?::\d{2})?\s*([AaPp][Mm])?$/.exec(value.trim());
+  if (!match) return null;
+  let h = Number(match[1]);
+  const m = Number(match[2]);
+  const meridiem = match[3]?.toUpperCase();
+  if (meridiem) {
+    if (h < 1 || h > 12) return null;
+    h = (h % 12) + (meridiem === "PM" ? 12 : 0);
+  }
+  const text = `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+  return parseTime(text) === null ? null : text;
+};
+
+// "1:30:00", "1:30", "1.5" (decimal hours) -> minutes
+export const parseDuration = (value: string): number | null => {
+  const text = value.trim();
+  const clock = /^(\d+):(\d{2})(?::(\d{2}))?$/.exec(text);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]) + Math.round(Number(clock[3] ?? 0) / 60);
+  const hours = Number(text.replace(",", "."));
+  return text && Number.isFinite(hours) && hours >= 0 ? Math.round(hours * 60) : null;
+};
+
+const minutesToTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+/* --------------------------
+   CSV
+-------------------------- */
+const findHeader = (headers: string[], ...names: string[]) => {
+  const lower = headers.map(h => h.trim().toLowerCase());
+  for (const name of names) {
+    const idx = lower.indexOf(name);
+    if (idx >= 0) return idx;
+  }
+  return undefined;
+};
+
+export const detectCsvSource = (headers: string[]): CsvSource => {
+  const lower = headers.map(h => h.trim().toLowerCase());
+  const has = (name: string) => lower.includes(name);
+  if (has("start date") && has("start time") && has("duration (decimal)")) return "clockify";
+  if (has("start date") && has("start time") && has("duration")) return "toggl";
+  return "generic";
+};
+
+// Toggl and Clockify use fixed column names; generic files are matched on common header names
+export const suggestCsvMapping = (headers: string[]): CsvColumnMapping => {
+  const mapping: CsvColumnMapping = {
+    date: findHeader(headers, "start date", "date", "day"),
+    start: findHeader(headers, "start time", "start", "from", "time in"),
+    end: findHeader(headers, "end time", "end", "to", "time out"),
+    duration: findHeader(headers, "duration (h)", "duration", "hours"),
+    break: findHeader(headers, "break", "break (min)", "break minutes"),
+    project: findHeader(headers, "project", "client"),
+    task: findHeader(headers, "task", "activity"),
+    notes: findHeader(headers, "description", "notes", "note", "comment"),
+  };
+  return Object.fromEntries(Object.entries(mapping).filter(([, v]) => v !== undefined));
+};
+
+/**
+ * Converts CSV data rows using the column mapping. A missing end time is derived
+ * from start + duration; rows without a readable date and start are returned as
+ * errors so the preview can show why they were dropped.
+ */
+export function csvToEntries(rows: string[][], mapping: CsvColumnMapping) {
+  const entries: ImportedEntry[] = [];
+  const errors: { line: number; message: string }[] = [];
+  const value = (row: string[], field: ImportField) => {
+    const idx = mapping[field];
+    return idx === undefined ? "" : (row[idx] ?? "").trim();
+  };
+
+  rows.forEach((row, i) => {
+    const line = i + 2; // 1-based, after the header line
+    const date = normalizeDate(value(row, "date"));
+    if (!date) return errors.push({ line, message: `Unreadable date "${value(row, "date")}"` });
+    const start = normalizeTime(value(row, "start"));
+    if (!start) return errors.push({ line, message: `Unreadable start time "${value(row, "start")}"` });
+
+    let end = normalizeTime(value(row, "end"));
+    if (!end) {
+      const duration = parseDuration(value(row, "duration"));
+      const startMinutes = parseTime(start) ?? 0;
+      if (duration === null) return errors.push({ line, message: "No end time or duration" });
+      if (duration >= 24 * 60) return errors.push({ line, message: "Entries of 24 hours or more are not supported" });
+      end = minutesToTime((startMinutes + duration) % (24 * 60));
+    }
+
+    const breakMinutes = Number(value(row, "break"));
+    entries.push({
+      date,
+      start,
+      end,
+      breakMinutes: Number.isFinite(breakMinutes) && breakMinutes > 0 ? breakMinutes : 0,
+      project: value(row, "project"),
+      task: value(row, "task"),
+      notes: value(row, "notes"),
+    });
+  });
+
+  return { entries, errors };
+}
+
+/* --------------------------
+   iCalendar (.ics)
+-------------------------- */
+
+// RFC 5545 folds long lines with a leading space or tab on the continuation
+const unfoldIcs = (text: string) => text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+const unescapeIcs = (value: string) =>
+  value.replace(/\\n/gi, " ").replace(/\\([,;\\])/g, "$1").trim();
+
+// "20260105T090000Z" is converted to local time; TZID/floating times are taken as written
+const parseIcsDateTime = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, y, mo, d, h, mi, , utc] = match;
+  if (h === undefined) return { date: `${y}-${mo}-${d}`, time: null };
+  if (utc) {
+    const local = new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi));
+    const date = toIsoDate(new Date(Date.UTC(local.getFullYear(), local.getMonth(), local.getDate())));
+    return { date, time: minutesToTime(local.getHours() * 60 + local.getMinutes()) };
+  }
+  return { date: `${y}-${mo}-${d}`, time: `${h}:${mi}` };
+};
+
+/**
+ * Reads timed VEVENTs as entries: SUMMARY becomes the task, LOCATION the project and
+ * DESCRIPTION the notes. All-day events and events of a day or longer are skipped;
+ * overnight events keep their real end time.
+ */
+export function icsToEntries(text: string) {
+  const entries: ImportedEntry[] = [];
+  let skipped = 0;
+  let event: Record<string, string> | null = null;
+
+  unfoldIcs(text).forEach(line => {
+    if (line === "BEGIN:VEVENT") {
+      event = {};
+      return;
+    }
+    if (line === "END:VEVENT" && event) {
+      const start = event.DTSTART ? parseIcsDateTime(event.DTSTART) : null;
+      const end = event.DTEND ? parseIcsDateTime(event.DTEND) : null;
+      const duration = event.DURATION ? /PT(?:(\d+)H)?(?:(\d+)M)?/.exec(event.DURATION) : null;
+      if (!start?.time || (event.STATUS ?? "").toUpperCase() === "CANCELLED") {
+        skipped++;
+      } else {
+        const startMinutes = parseTime(start.time) ?? 0;
+        const overnight = end?.time && end.date === addDays(start.date, 1) && end.time < start.time;
+        let endTime = end?.time && (end.date === start.date || overnight) ? end.time : null;
+        if (!endTime && duration) {
+          const length = Number(duration[1] ?? 0) * 60 + Number(duration[2] ?? 0);
+          if (length < 24 * 60) endTime = minutesToTime((startMinutes + length) % (24 * 60));
+        }
+        if (endTime) {
+          entries.push({
+            date: start.date,
+            start: start.time,
+            end: endTime,
+            breakMinutes: 0,
+            project: unescapeIcs(event.LOCATION ?? ""),
+            task: unescapeIcs(event.SUMMARY ?? ""),
+            notes: unescapeIcs(event.DESCRIPTION ?? ""),
+          });
+        } else {
+          skipped++;
+        }
+      }
+      event = null;
+      return;
+    }
+    if (!event) return;
+    const sep = line.indexOf(":");
+    if (sep < 0) return;
+    // Drop parameters such as DTSTART;TZID=Europe/Berlin
+    const key = line.slice(0, sep).split(";")[0].toUpperCase();
+    event[key] = line.slice(sep + 1);
+  });
+
+  return { entries, skipped };
+}
+
+/**
+ * Reads all-day VEVENTs (public holiday calendars) as one { date, name } per day. DTEND
+ * is exclusive for all-day events, so a single-day holiday may omit it or end the next day.
+ */
+export function icsToHolidays(text: string) {
+  const holidays = new Map<string, string>();
+  let event: Record<string, string> | null = null;
+
+  unfoldIcs(text).forEach(line => {
+    if (line === "BEGIN:VEVENT") {
+      event = {};
+      return;
+    }
+    if (line === "END:VEVENT" && event) {
+      const start = event.DTSTART ? parseIcsDateTime(event.DTSTART) : null;
+      const end = event.DTEND ? parseIcsDateTime(event.DTEND) : null;
+      if (start && !start.time && (event.STATUS ?? "").toUpperCase() !== "CANCELLED") {
+        const last = end && !end.time && end.date > start.date ? addDays(end.date, -1) : start.date;
+        for (let d = start.date; d <= last; d = addDays(d, 1)) {
+          if (!holidays.has(d)) holidays.set(d, unescapeIcs(event.SUMMARY ?? "") || "Holiday");
+        }
+      }
+      event = null;
+      return;
+    }
+    if (!event) return;
+    const sep = line.indexOf(":");
+    if (sep < 0) return;
+    event[line.slice(0, sep).split(";")[0].toUpperCase()] = line.slice(sep + 1);
+  });
+
+  return [...holidays.entries()].map(([date, name]) => ({ date, name })).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/* --------------------------
+   Merge into the grid
+-------------------------- */
+export type ImportStatus = "new" | "duplicate" | "outside";
+
+const entryKey = (date: string, start: string, end: string) => `${date}|${start}|${end}`;
+
+// Same date and interval as a row already in the grid (or earlier in the same file)
+export function classifyEntries(entries: ImportedEntry[], existingRows: Cell[][], period: Period | null) {
+  const seen = new Set(
+    existingRows.map(row => entryKey(cellText(row, "date"), cellText(row, "start"), cellText(row, "end")))
+  );
+  return entries.map(entry => {
+    const key = entryKey(entry.date, entry.start, entry.end);
+    let status: ImportStatus = "new";
+    if (period && (entry.date < period.start || entry.date > period.end)) status = "outside";
+    else if (seen.has(key)) status = "duplicate";
+    seen.add(key);
+    return { entry, status };
+  });
+}
+
+export const entryToRow = (entry: ImportedEntry): Cell[] => {
+  let row = makeEmptyRow();
+  row = setCellText(row, "date", entry.date);
+  row = setCellText(row, "project", entry.project);
+  row = setCellText(row, "task", entry.task);
+  row = setCellText(row, "start", entry.start);
+  row = setCellText(row, "end", entry.end);
+  row = setCellText(row, "break", entry.breakMinutes ? String(entry.breakMinutes) : "");
+  row = setCellText(row, "notes", entry.notes);
+  return withComputedHours(row);
+};
+
+// Appends imported rows (in date/start order) after the existing ones, dropping untouched placeholder rows
+export const mergeImportedRows = (rows: Cell[][], entries: ImportedEntry[]) => {
+  const kept = rows.filter(row => row.some(cell => cell.text.trim()));
+  const sorted = [...entries].sort((a, b) => `${a.date} ${a.start}`.localeCompare(`${b.date} ${b.start}`));
+  return [...kept, ...sorted.map(entryToRow)];
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ProjectRecord } from "../api/projects";
+import { buildInvoiceLines, collectBillableEntries, invoiceTotals, nextInvoiceNumber } from "./invoices";
+import { createDefaultTemplate } from "./templateData";
+import type { TemplateRecord } from "./templateData";
+import { makeEmptyRow, rowId, setCellText, setCellValue } from "./timeEntries";
+
+// Project lookup lives in the api module, which would otherwise create a Supabase client on import
+vi.mock("../api/supabaseClient", () => ({ supabase: {} }));
+
+const project = (id: string, clientId: string | null, rate: number | null = 100): ProjectRecord => ({
+  id,
+  user_id: "u",
+  name: `Project ${id}`,
+  code: id.toUpperCase(),
+  client_id: clientId,
+  default_rate: rate,
+  currency: "USD",
+  active: true,
+  created_at: "2026-01-01T00:00:00Z",
+});
+
+const projects = [project("a", "acme"), project("b", "acme", null), project("c", "other")];
+
+const entry = (date: string, projectId: string, start: string, end: string) => {
+  let row = setCellText(makeEmptyRow(), "date", date);
+  row = setCellValue(row, "project", `Project ${projectId}`, projectId);
+  row = setCellText(row, "start", start);
+  return setCellText(row, "end", end);
+};
+
+const record = (id: string, rows: ReturnType<typeof entry>[]): TemplateRecord => ({
+  id,
+  user_id: "u",
+  name: id,
+  template_data: { ...createDefaultTemplate(), rows },
+  created_at: "2026-01-01T00:00:00Z",
+});
+
+const range = { start: "2026-03-01", end: "2026-03-31" };
+
+describe("collectBillableEntries", () => {
+  const rows = [
+    entry("2026-03-03", "a", "09:00", "12:00"),
+    entry("2026-03-02", "b", "13:00", "14:30"),
+    entry("2026-03-04", "c", "09:00", "17:00"),
+    entry("2026-04-01", "a", "09:00", "17:00"),
+    entry("2026-03-05", "a", "09:00", "09:00"),
+  ];
+  const templates = [record("t1", rows)];
+
+  it("keeps the client's dated, timed entries in the range, oldest first", () => {
+    const entries = collectBillableEntries(templates, projects, "acme", range);
+    expect(entries.map(e => [e.date, e.project.id, e.minutes])).toEqual([
+      ["2026-03-02", "b", 90],
+      ["2026-03-03", "a", 180],
+    ]);
+  });
+
+  it("skips rows already on an invoice", () => {
+    const entries = collectBillableEntries(templates, projects, "acme", range, [{ templateId: "t1", rowId: rowId(rows[0]) }]);
+    expect(entries.map(e => e.date)).toEqual(["2026-03-02"]);
+  });
+});
+
+describe("buildInvoiceLines", () => {
+  it("bills one line per project at its rate, and unrated projects at 0", () => {
+    const entries = collectBillableEntries(
+      [record("t1", [entry("2026-03-02", "a", "09:00", "10:30"), entry("2026-03-03", "a", "09:00", "09:20"), entry("2026-03-04", "b", "09:00", "10:00")])],
+      projects,
+      "acme",
+      range
+    );
+    expect(buildInvoiceLines(entries, range)).toEqual([
+      { projectId: "a", description: "A - Project a (2026-03-01 - 2026-03-31)", hours: 1.83, rate: 100, amount: 183 },
+      { projectId: "b", description: "B - Project b (2026-03-01 - 2026-03-31)", hours: 1, rate: 0, amount: 0 },
+    ]);
+  });
+});
+
+describe("invoiceTotals", () => {
+  it("rounds the tax and total to cents", () => {
+    const lines = [
+      { projectId: "a", description: "", hours: 1, rate: 33.333, amount: 33.33 },
+      { projectId: "b", description: "", hours: 1, rate: 10.005, amount: 10.01 },
+    ];
+    expect(invoiceTotals(lines, 7.5)).toEqual({ subtotal: 43.34, tax: 3.25, total: 46.59 });
+    expect(invoiceTotals([], 20)).toEqual({ subtotal: 0, tax: 0, total: 0 });
+  });
+});
+
+describe("nextInvoiceNumber", () => {
+  it("continues from the highest number of the issue year", () => {
+    expect(nextInvoiceNumber(["INV-2026-0002", "INV-2026-0010", "INV-2025-0042"], "2026-03-01")).toBe("INV-2026-0011");
+  });
+
+  it("starts each year at 1", () => {
+    expect(nextInvoiceNumber(["INV-2025-0042", "custom"], "2026-01-02")).toBe("INV-2026-0001");
+  });
+});
@@ -0,0 +1,103 @@
+// src/utils/invoices.ts
+import { resolveRowProject } from "../api/projects";
+import type { ProjectRecord } from "../api/projects";
+import { computeHours } from "./hoursRules";
+import { cellText, rowId } from "./timeEntries";
+import { normalizeTemplate } from "./templateData";
+import type { TemplateRecord } from "./templateData";
+import type { Period } from "./periods";
+
+/* --------------------------
+   Invoice types
+-------------------------- */
+export type InvoiceStatus = "unpaid" | "paid";
+
+export type InvoiceLine = {
+  projectId: string;
+  description: string;
+  hours: number;
+  rate: number;
+  amount: number;
+};
+
+// Identifies a billed grid row so it is not invoiced twice
+export type InvoicedEntry = { templateId: string; rowId: string };
+
+export type BillableEntry = InvoicedEntry & {
+  date: string;
+  task: string;
+  minutes: number;
+  project: ProjectRecord;
+};
+
+export const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+const entryKey = (e: InvoicedEntry) => `${e.templateId}:${e.rowId}`;
+
+/**
+ * Time entries in the date range whose project belongs to the client. Minutes are the
+ * paid figure from each template's hours rules; rows already on an invoice are skipped.
+ */
+export function collectBillableEntries(
+  templates: TemplateRecord[],
+  projects: ProjectRecord[],
+  clientId: string,
+  range: Period,
+  alreadyInvoiced: InvoicedEntry[] = []
+) {
+  const invoiced = new Set(alreadyInvoiced.map(entryKey));
+  const entries: BillableEntry[] = [];
+
+  templates.forEach(record => {
+    const template = normalizeTemplate(record.template_data);
+    const breakdown = computeHours(template.rows, template.hoursRules);
+    template.rows.forEach(row => {
+      const date = cellText(row, "date");
+      const minutes = breakdown.entries.get(rowId(row))?.paid ?? 0;
+      if (!date || date < range.start || date > range.end || minutes <= 0) return;
+      const project = resolveRowProject(row, template.meta, projects);
+      if (!project || project.client_id !== clientId) return;
+      const entry = { templateId: record.id, rowId: rowId(row) };
+      if (invoiced.has(entryKey(entry))) return;
+      entries.push({ ...entry, date, task: cellText(row, "task"), minutes, project });
+    });
+  });
+
+  return entries.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// One line per project at its default rate; projects without a rate are billed at 0 so they stay visible
+export function buildInvoiceLines(entries: BillableEntry[], period: Period): InvoiceLine[] {
+  const byProject = new Map<string, BillableEntry[]>();
+  entries.forEach(e => byProject.set(e.project.id, [...(byProject.get(e.project.id) ?? []), e]));
+
+  return [...byProject.values()].map(group => {
+    const project = group[0].project;
+    const hours = roundMoney(group.reduce((sum, e) => sum + e.minutes, 0) / 60);
+    const rate = project.default_rate ?? 0;
+    return {
+      projectId: project.id,
+      description: `${project.code ? `${project.code} - ` : ""}${project.name} (${period.start} - ${period.end})`,
+      hours,
+      rate,
+      amount: roundMoney(hours * rate),
+    };
+  });
+}
+
+export function invoiceTotals(lines: InvoiceLine[], taxRate: number) {
+  const subtotal = roundMoney(lines.reduce((sum, l) => sum + l.amount, 0));
+  const tax = roundMoney((subtotal * taxRate) / 100);
+  return { subtotal, tax, total: roundMoney(subtotal + tax) };
+}
+
+// INV-2026-0001, numbered per calendar year
+export function nextInvoiceNumber(existing: string[], issueDate: string) {
+  const prefix = `INV-${issueDate.slice(0, 4)}-`;
+  const last = existing
+    .filter(n => n.startsWith(prefix))
+    .map(n => Number(n.slice(prefix.length)))
+    .filter(Number.isFinite)
+    .reduce((max, n) => Math.max(max, n), 0);
+  return `${prefix}${String(last + 1).padStart(4, "0")}`;
+}
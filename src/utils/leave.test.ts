@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { LEAVE_DAY_HOURS, accruedDays, defaultBalanceSettings, leaveBalance, leaveDayCount, leaveDaysInPeriod } from "./leave";
+import type { LeaveRequestLike } from "./leave";
+
+const monthly = { ...defaultBalanceSettings("vacation", "2026-01-15"), opening_days: 2, accrual_days: 1.5 };
+
+const request = (overrides: Partial<LeaveRequestLike>): LeaveRequestLike => ({
+  leave_type: "vacation",
+  start_date: "2026-03-02",
+  end_date: "2026-03-02",
+  half_day: false,
+  days: 1,
+  status: "approved",
+  ...overrides,
+});
+
+describe("accruedDays", () => {
+  it("credits nothing before effective_from", () => {
+    expect(accruedDays(monthly, "2026-01-14")).toBe(2);
+  });
+
+  it("credits on effective_from and each month on the same day", () => {
+    expect(accruedDays(monthly, "2026-01-15")).toBe(3.5);
+    expect(accruedDays(monthly, "2026-02-14")).toBe(3.5);
+    expect(accruedDays(monthly, "2026-02-15")).toBe(5);
+  });
+
+  it("credits on the last day of months shorter than effective_from's day", () => {
+    const endOfMonth = { ...monthly, effective_from: "2026-01-31" };
+    expect(accruedDays(endOfMonth, "2026-02-27")).toBe(3.5);
+    expect(accruedDays(endOfMonth, "2026-02-28")).toBe(5);
+    expect(accruedDays(endOfMonth, "2026-04-30")).toBe(8);
+  });
+
+  it("credits yearly allowances once a year", () => {
+    const yearly = { ...monthly, accrual_days: 20, accrual_period: "yearly" as const, effective_from: "2024-02-29" };
+    expect(accruedDays(yearly, "2025-02-27")).toBe(22);
+    expect(accruedDays(yearly, "2025-02-28")).toBe(42);
+  });
+});
+
+describe("leaveBalance", () => {
+  it("takes approved and holds back pending requests of the same type since effective_from", () => {
+    const requests = [
+      request({ days: 2 }),
+      request({ status: "pending", days: 1 }),
+      request({ status: "rejected", days: 5 }),
+      request({ leave_type: "sick", days: 3 }),
+      request({ start_date: "2025-12-01", end_date: "2025-12-01", days: 4 }),
+    ];
+    expect(leaveBalance(monthly, requests, "2026-03-15")).toEqual({ accrued: 6.5, taken: 2, pending: 1, available: 3.5 });
+  });
+});
+
+describe("leaveDayCount", () => {
+  it("skips weekends and holidays", () => {
+    expect(leaveDayCount("2026-03-02", "2026-03-08", [])).toBe(5);
+    expect(leaveDayCount("2026-03-02", "2026-03-08", ["2026-03-04"])).toBe(4);
+  });
+
+  it("counts half a day at most", () => {
+    expect(leaveDayCount("2026-03-02", "2026-03-02", [], true)).toBe(0.5);
+    expect(leaveDayCount("2026-03-07", "2026-03-07", [], true)).toBe(0);
+    expect(leaveDayCount("2026-03-04", "2026-03-04", ["2026-03-04"], true)).toBe(0);
+  });
+
+  it("is zero for an empty or reversed range", () => {
+    expect(leaveDayCount("2026-03-05", "2026-03-02", [])).toBe(0);
+    expect(leaveDayCount("", "2026-03-02", [])).toBe(0);
+  });
+});
+
+describe("leaveDaysInPeriod", () => {
+  const period = { start: "2026-03-02", end: "2026-03-08" };
+
+  it("adds approved leave on weekdays inside the period", () => {
+    const days = leaveDaysInPeriod(
+      period,
+      [
+        request({ start_date: "2026-02-27", end_date: "2026-03-03" }),
+        request({ start_date: "2026-03-05", end_date: "2026-03-05", status: "pending" }),
+        request({ leave_type: "sick", start_date: "2026-03-06", end_date: "2026-03-08", half_day: true }),
+      ],
+      []
+    );
+    expect(days).toEqual([
+      { date: "2026-03-02", task: "Vacation", hours: LEAVE_DAY_HOURS },
+      { date: "2026-03-03", task: "Vacation", hours: LEAVE_DAY_HOURS },
+      { date: "2026-03-06", task: "Sick leave", hours: LEAVE_DAY_HOURS / 2 },
+    ]);
+  });
+
+  it("lets a holiday win over leave on the same day", () => {
+    const days = leaveDaysInPeriod(
+      period,
+      [request({ start_date: "2026-03-03", end_date: "2026-03-04" })],
+      [
+        { date: "2026-03-04", name: "Founders Day" },
+        { date: "2026-03-07", name: "Weekend holiday" },
+      ]
+    );
+    expect(days).toEqual([
+      { date: "2026-03-03", task: "Vacation", hours: LEAVE_DAY_HOURS },
+      { date: "2026-03-04", task: "Public holiday: Founders Day", hours: LEAVE_DAY_HOURS },
+    ]);
+  });
+});
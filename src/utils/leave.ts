@@ -0,0 +1,130 @@
+// src/utils/leave.ts
+import { addDays, dateRange, endOfMonth, isWeekend } from "./dates";
+import type { Period } from "./periods";
+import { makeEmptyRow, setCellText, withComputedHours } from "./timeEntries";
+
+/* --------------------------
+   Leave types
+-------------------------- */
+// Requested against a balance; public holidays come from imported calendars instead
+export type LeaveType = "vacation" | "sick";
+
+export type LeaveStatus = "pending" | "approved" | "rejected" | "cancelled";
+
+export type AccrualPeriod = "monthly" | "yearly";
+
+export const LEAVE_TYPES: LeaveType[] = ["vacation", "sick"];
+
+export const LEAVE_TYPE_LABELS: Record<LeaveType | "holiday", string> = {
+  vacation: "Vacation",
+  sick: "Sick leave",
+  holiday: "Public holiday",
+};
+
+// Hours recorded on a timesheet for a full day of leave, starting at LEAVE_DAY_START
+export const LEAVE_DAY_HOURS = 8;
+const LEAVE_DAY_START = 9 * 60;
+
+// Per-user allowance for one leave type; the accrual is credited on effective_from and every period after it
+export type LeaveBalanceSettings = {
+  leave_type: LeaveType;
+  opening_days: number;
+  accrual_days: number;
+  accrual_period: AccrualPeriod;
+  effective_from: string;
+};
+
+export type LeaveRequestLike = {
+  leave_type: LeaveType;
+  start_date: string;
+  end_date: string;
+  half_day: boolean;
+  days: number;
+  status: LeaveStatus;
+};
+
+export type HolidayLike = { date: string; name: string };
+
+// A day that the roll-forward fills with a leave row instead of the usual carried-over rows
+export type LeaveDay = { date: string; task: string; hours: number };
+
+export const defaultBalanceSettings = (leaveType: LeaveType, effectiveFrom: string): LeaveBalanceSettings => ({
+  leave_type: leaveType,
+  opening_days: 0,
+  accrual_days: 0,
+  accrual_period: "monthly",
+  effective_from: effectiveFrom,
+});
+
+/* --------------------------
+   Balances
+-------------------------- */
+// Credits fall on effective_from's day of the month, or the month's last day when it is shorter
+const periodsElapsed = (from: string, asOf: string, period: AccrualPeriod) => {
+  if (asOf < from) return 0;
+  const [fy, fm, fd] = from.split("-").map(Number);
+  const [ay, am, ad] = asOf.split("-").map(Number);
+  const creditDay = Math.min(fd, Number(endOfMonth(asOf).slice(8, 10)));
+  const months = (ay - fy) * 12 + (am - fm) - (ad < creditDay ? 1 : 0);
+  return (period === "monthly" ? months : Math.floor(months / 12)) + 1;
+};
+
+export const accruedDays = (settings: LeaveBalanceSettings, asOf: string) =>
+  settings.opening_days + settings.accrual_days * periodsElapsed(settings.effective_from, asOf, settings.accrual_period);
+
+/**
+ * Approved requests count as taken and pending ones are held back from what is
+ * available; requests starting before effective_from belong to an earlier allowance.
+ */
+export function leaveBalance(settings: LeaveBalanceSettings, requests: LeaveRequestLike[], asOf: string) {
+  const relevant = requests.filter(r => r.leave_type === settings.leave_type && r.start_date >= settings.effective_from);
+  const sum = (status: LeaveStatus) => relevant.filter(r => r.status === status).reduce((total, r) => total + r.days, 0);
+  const accrued = accruedDays(settings, asOf);
+  const taken = sum("approved");
+  const pending = sum("pending");
+  return { accrued, taken, pending, available: accrued - taken - pending };
+}
+
+// Working days in the range, skipping weekends and public holidays; a half day counts 0.5
+export const leaveDayCount = (start: string, end: string, holidays: string[], halfDay = false) => {
+  if (!start || !end || end < start) return 0;
+  const skip = new Set(holidays);
+  const days = dateRange(start, end).filter(d => !isWeekend(d) && !skip.has(d)).length;
+  return halfDay ? Math.min(days, 1) / 2 : days;
+};
+
+/* --------------------------
+   Timesheet rows
+-------------------------- */
+/**
+ * Leave rows for a generated period: one per approved leave day and per public holiday
+ * on a weekday. A holiday wins over leave on the same date, which costs no balance anyway.
+ */
+export function leaveDaysInPeriod(period: Period, requests: LeaveRequestLike[], holidays: HolidayLike[]): LeaveDay[] {
+  const byDate = new Map<string, LeaveDay>();
+
+  requests
+    .filter(r => r.status === "approved" && r.end_date >= period.start && r.start_date <= period.end)
+    .forEach(r => {
+      for (let d = r.start_date; d <= r.end_date; d = addDays(d, 1)) {
+        if (d < period.start || d > period.end || isWeekend(d)) continue;
+        byDate.set(d, { date: d, task: LEAVE_TYPE_LABELS[r.leave_type], hours: LEAVE_DAY_HOURS * (r.half_day ? 0.5 : 1) });
+      }
+    });
+
+  holidays
+    .filter(h => h.date >= period.start && h.date <= period.end && !isWeekend(h.date))
+    .forEach(h => byDate.set(h.date, { date: h.date, task: `${LEAVE_TYPE_LABELS.holiday}: ${h.name}`, hours: LEAVE_DAY_HOURS }));
+
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+const hhmm = (minutes: number) => `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+export const leaveDayRow = (day: LeaveDay) => {
+  let row = setCellText(makeEmptyRow(), "date", day.date);
+  row = setCellText(row, "task", day.task);
+  row = setCellText(row, "start", hhmm(LEAVE_DAY_START));
+  row = setCellText(row, "end", hhmm(LEAVE_DAY_START + Math.round(day.hours * 60)));
+  return withComputedHours(row);
+};
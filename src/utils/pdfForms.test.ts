@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { resolveFieldSource } from "./pdfForms";
+import { createDefaultTemplate } from "./templateData";
+import type { TemplateData } from "./templateData";
+import { makeEmptyRow, setCellText } from "./timeEntries";
+
+const entry = (date: string, start: string, end: string) =>
+  setCellText(setCellText(setCellText(makeEmptyRow(), "date", date), "start", start), "end", end);
+
+const template = (period?: string): TemplateData => ({
+  ...createDefaultTemplate(),
+  meta: { period },
+  rows: [entry("2026-01-05", "09:00", "17:00"), entry("2026-01-09", "09:00", "17:00"), entry("2026-01-12", "09:00", "13:00")],
+});
+
+describe("resolveFieldSource", () => {
+  it("counts weeks and days from the period start", () => {
+    const data = template("2026-01-03 - 2026-01-16");
+    expect(resolveFieldSource("grid.week1Hours", data, "")).toBe("16.00");
+    expect(resolveFieldSource("grid.week2Hours", data, "")).toBe("4.00");
+    expect(resolveFieldSource("grid.day1Hours", data, "")).toBe("");
+    expect(resolveFieldSource("grid.day3Hours", data, "")).toBe("8.00");
+  });
+
+  it("counts from the first entry when there is no period", () => {
+    const data = template();
+    expect(resolveFieldSource("grid.week1Hours", data, "")).toBe("16.00");
+    expect(resolveFieldSource("grid.week2Hours", data, "")).toBe("4.00");
+    expect(resolveFieldSource("grid.day1Hours", data, "")).toBe("8.00");
+    expect(resolveFieldSource("grid.day3Hours", data, "")).toBe("");
+  });
+});
@@ -0,0 +1,133 @@
+import { PDFCheckBox, PDFDocument, PDFDropdown, PDFOptionList, PDFRadioGroup, PDFTextField } from 'pdf-lib';
+import { addDays, daysBetween } from './dates';
+import { templatePeriod } from './periods';
+import { formatHours, minutesByDate, sortedDates, totalMinutes } from './timeEntries';
+import type { TemplateData } from './templateData';
+
+/* --------------------------
+   Field detection
+-------------------------- */
+export type FormFieldType = 'text' | 'checkbox' | 'dropdown' | 'radio' | 'other';
+
+export type FormFieldInfo = { name: string; type: FormFieldType; options?: string[] };
+
+export async function listFormFields(pdfBytes: Uint8Array): Promise<FormFieldInfo[]> {
+  const doc = await PDFDocument.load(pdfBytes);
+  return doc.getForm().getFields().map(field => {
+    const name = field.getName();
+    if (field instanceof PDFTextField) return { name, type: 'text' };
+    if (field instanceof PDFCheckBox) return { name, type: 'checkbox' };
+    if (field instanceof PDFDropdown || field instanceof PDFOptionList) return { name, type: 'dropdown', options: field.getOptions() };
+    if (field instanceof PDFRadioGroup) return { name, type: 'radio', options: field.getOptions() };
+    return { name, type: 'other' };
+  });
+}
+
+/* --------------------------
+   Value sources a field can be mapped to
+-------------------------- */
+export type FormFieldMapping = Record<string, string>;
+
+const WEEK_SOURCES = 6;
+const DAY_SOURCES = 14;
+
+export const FORM_FIELD_SOURCES: { value: string; label: string }[] = [
+  { value: 'meta.project', label: 'Project' },
+  { value: 'meta.period', label: 'Period' },
+  { value: 'meta.employeeName', label: 'Employee name' },
+  { value: 'template.name', label: 'Template name' },
+  { value: 'grid.totalHours', label: 'Total hours' },
+  { value: 'grid.firstDate', label: 'First entry date' },
+  { value: 'grid.lastDate', label: 'Last entry date' },
+  ...Array.from({ length: WEEK_SOURCES }, (_, i) => ({ value: `grid.week${i + 1}Hours`, label: `Week ${i + 1} hours` })),
+  ...Array.from({ length: DAY_SOURCES }, (_, i) => ({ value: `grid.day${i + 1}Hours`, label: `Day ${i + 1} hours` })),
+];
+
+// Weeks and days count from the period start (the first dated entry when there is no period),
+// so a period that opens on a day off still lines up with the form and one mapping works every period
+export function resolveFieldSource(source: string, template: TemplateData, templateName: string): string {
+  const rows = template.rows;
+  const dates = sortedDates(rows);
+  const first = dates[0];
+  const start = templatePeriod(template)?.start;
+
+  if (source === 'meta.project') return template.meta?.project ?? '';
+  if (source === 'meta.period') return template.meta?.period ?? '';
+  if (source === 'meta.employeeName') return template.meta?.employeeName ?? '';
+  if (source === 'template.name') return templateName;
+  if (source === 'grid.totalHours') return formatHours(totalMinutes(rows));
+  if (source === 'grid.firstDate') return first ?? '';
+  if (source === 'grid.lastDate') return dates[dates.length - 1] ?? '';
+
+  const byDate = minutesByDate(rows);
+  const week = /^grid\.week(\d+)Hours$/.exec(source);
+  if (week && start) {
+    const offset = (Number(week[1]) - 1) * 7;
+    let minutes = 0;
+    byDate.forEach((m, date) => {
+      const diff = daysBetween(start, date);
+      if (diff >= offset && diff < offset + 7) minutes += m;
+    });
+    return formatHours(minutes);
+  }
+
+  const day = /^grid\.day(\d+)Hours$/.exec(source);
+  if (day && start) {
+    const minutes = byDate.get(addDays(start, Number(day[1]) - 1)) ?? 0;
+    return minutes ? formatHours(minutes) : '';
+  }
+
+  return '';
+}
+
+// Best-effort guesses from common field names, used only for fields that have no saved mapping
+export function suggestMapping(fields: FormFieldInfo[]): FormFieldMapping {
+  const rules: [RegExp, string][] = [
+    [/employee|staff|worker|(^|\W)name/i, 'meta.employeeName'],
+    [/project|client|job/i, 'meta.project'],
+    [/period|fortnight|week\s*(ending|of)|pay\s*date/i, 'meta.period'],
+    [/total/i, 'grid.totalHours'],
+  ];
+  const mapping: FormFieldMapping = {};
+  fields
+    .filter(f => f.type === 'text')
+    .forEach(f => {
+      const match = rules.find(([re]) => re.test(f.name));
+      if (match) mapping[f.name] = match[1];
+    });
+  return mapping;
+}
+
+/* --------------------------
+   Filling
+-------------------------- */
+export async function fillFormFields(
+  pdfBytes: Uint8Array,
+  values: Record<string, string>,
+  flatten = false
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.load(pdfBytes);
+  const form = doc.getForm();
+
+  Object.entries(values).forEach(([name, value]) => {
+    const field = form.getFieldMaybe(name);
+    if (!field || value === '') return;
+    if (field instanceof PDFTextField) field.setText(value);
+    else if (field instanceof PDFDropdown && field.getOptions().includes(value)) field.select(value);
+    else if (field instanceof PDFRadioGroup && field.getOptions().includes(value)) field.select(value);
+    else if (field instanceof PDFCheckBox) {
+      if (/^(true|yes|x|1)$/i.test(value) || Number(value) > 0) field.check();
+      else field.uncheck();
+    }
+  });
+
+  if (flatten) form.flatten();
+  return doc.save();
+}
+
+export const resolveMappedValues = (mapping: FormFieldMapping, template: TemplateData, templateName: string) =>
+  Object.fromEntries(
+    Object.entries(mapping)
+      .filter(([, source]) => !!source)
+      .map(([field, source]) => [field, resolveFieldSource(source, template, templateName)])
+  );
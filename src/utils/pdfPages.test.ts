@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { rotateAnnotation, rotatePoint } from "./pdfPages";
+
+const size = { width: 800, height: 600 };
+
+describe("rotatePoint", () => {
+  it("moves points with a page turned clockwise", () => {
+    expect(rotatePoint(0, 0, size, 90)).toEqual({ x: 600, y: 0 });
+    expect(rotatePoint(100, 50, size, 90)).toEqual({ x: 550, y: 100 });
+    expect(rotatePoint(100, 50, size, 180)).toEqual({ x: 700, y: 550 });
+    expect(rotatePoint(100, 50, size, -90)).toEqual({ x: 50, y: 700 });
+  });
+
+  it("leaves unturned pages alone", () => {
+    expect(rotatePoint(100, 50, size, 360)).toEqual({ x: 100, y: 50 });
+  });
+});
+
+describe("rotateAnnotation", () => {
+  const annotation = { id: "a", pageIndex: 0, x: 100, y: 50, text: "Hi", fontSize: 12, fontFamily: "Arial", fontColor: "#000000" };
+
+  it("anchors a sized box at its turned top-left corner", () => {
+    expect(rotateAnnotation({ ...annotation, width: 200 }, size, 90)).toMatchObject({ x: 550, y: 100 });
+    expect(rotateAnnotation({ ...annotation, width: 200 }, size, 180)).toMatchObject({ x: 500, y: 550 });
+  });
+
+  it("keeps the rest of the annotation", () => {
+    expect(rotateAnnotation(annotation, size, 270)).toEqual({ ...annotation, x: 50, y: 700 });
+  });
+});
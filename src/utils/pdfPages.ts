@@ -0,0 +1,70 @@
+import { PDFDocument, degrees } from 'pdf-lib';
+import type { PdfAnnotation } from './templateData';
+
+// One page in the organizer's working order: which source file and page it is, plus the rotation added on top
+export type PageRef = { source: number; pageIndex: number; rotation: number };
+
+export const normalizeRotation = (angle: number) => ((angle % 360) + 360) % 360;
+
+type Size = { width: number; height: number };
+
+// Where a point on a page of the given (displayed) size ends up once the page is turned clockwise
+export const rotatePoint = (x: number, y: number, size: Size, rotation: number) => {
+  switch (normalizeRotation(rotation)) {
+    case 90:
+      return { x: size.height - y, y: x };
+    case 180:
+      return { x: size.width - x, y: size.height - y };
+    case 270:
+      return { x: y, y: size.width - x };
+    default:
+      return { x, y };
+  }
+};
+
+/**
+ * Moves an annotation with its page when the page is turned. The annotation itself still reads left
+ * to right, so it is anchored at the top-left corner of its turned box (as far as its size is known).
+ */
+export const rotateAnnotation = (annotation: PdfAnnotation, size: Size, rotation: number): PdfAnnotation => {
+  const from = rotatePoint(annotation.x, annotation.y, size, rotation);
+  const to = rotatePoint(annotation.x + (annotation.width ?? 0), annotation.y + (annotation.signature?.height ?? 0), size, rotation);
+  return { ...annotation, x: Math.min(from.x, to.x), y: Math.min(from.y, to.y) };
+};
+
+/** Builds a new PDF from pages of one or more source files, in the given order and rotation. */
+export async function buildPdfFromPages(sources: Uint8Array[], pages: PageRef[]) {
+  const out = await PDFDocument.create();
+  const loaded = new Map<number, PDFDocument>();
+
+  for (const ref of pages) {
+    let source = loaded.get(ref.source);
+    if (!source) {
+      source = await PDFDocument.load(sources[ref.source]);
+      loaded.set(ref.source, source);
+    }
+    const [page] = await out.copyPages(source, [ref.pageIndex]);
+    page.setRotation(degrees(normalizeRotation(page.getRotation().angle + ref.rotation)));
+    out.addPage(page);
+  }
+
+  return out.save();
+}
+
+/**
+ * Parses "1-3, 5, 8" into 0-based positions in the order written. Throws with a readable
+ * message when a part is malformed or outside 1..pageCount.
+ */
+export function parsePageRanges(input: string, pageCount: number) {
+  const parts = input.split(',').map(p => p.trim()).filter(Boolean);
+  if (parts.length === 0) throw new Error('Enter pages like 1-3, 5');
+
+  return parts.flatMap(part => {
+    const match = /^(\d+)\s*(?:-\s*(\d+))?$/.exec(part);
+    if (!match) throw new Error(`"${part}" is not a page or range`);
+    const from = Number(match[1]);
+    const to = match[2] ? Number(match[2]) : from;
+    if (from < 1 || to > pageCount || from > to) throw new Error(`"${part}" is outside pages 1-${pageCount}`);
+    return Array.from({ length: to - from + 1 }, (_, i) => from - 1 + i);
+  });
+}
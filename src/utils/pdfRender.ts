@@ -0,0 +1,77 @@
+import { GlobalWorkerOptions, getDocument } from 'pdfjs-dist';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { PX_PER_POINT } from './flattenPdf';
+
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+export type { PDFDocumentProxy };
+
+export function loadPdfDocument(source: string | Uint8Array) {
+  // pdf.js transfers the buffer to its worker, so hand it a copy and keep the caller's bytes usable
+  const params = typeof source === 'string' ? { url: source } : { data: source.slice() };
+  return getDocument(params).promise;
+}
+
+/**
+ * Renders a page (0-based) into the canvas so that one CSS pixel matches the
+ * annotation coordinate space at the given zoom. Returns the page size in CSS pixels.
+ */
+export async function renderPdfPage(
+  doc: PDFDocumentProxy,
+  pageIndex: number,
+  canvas: HTMLCanvasElement,
+  zoom = 1,
+  onTask?: (task: RenderTask) => void
+) {
+  const page = await doc.getPage(pageIndex + 1);
+  const viewport = page.getViewport({ scale: PX_PER_POINT * zoom });
+  const ratio = window.devicePixelRatio || 1;
+
+  canvas.width = Math.floor(viewport.width * ratio);
+  canvas.height = Math.floor(viewport.height * ratio);
+  canvas.style.width = `${viewport.width}px`;
+  canvas.style.height = `${viewport.height}px`;
+
+  const task = page.render({
+    canvas,
+    viewport,
+    transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined,
+  });
+  onTask?.(task);
+  await task.promise;
+
+  return { width: viewport.width, height: viewport.height };
+}
+
+// Last render started on each canvas, settled or not
+const canvasRenders = new WeakMap<HTMLCanvasElement, Promise<unknown>>();
+
+/**
+ * renderPdfPage for effects: pdf.js rejects a second render on a canvas that is still busy, so this
+ * waits for the canvas's previous render to settle first. `cancel` also covers a render that has
+ * not reached pdf.js yet; `promise` then resolves to null or rejects with RenderingCancelledException.
+ */
+export function queuePdfPageRender(doc: PDFDocumentProxy, pageIndex: number, canvas: HTMLCanvasElement, zoom = 1) {
+  let cancelled = false;
+  let task: RenderTask | undefined;
+  const previous = canvasRenders.get(canvas) ?? Promise.resolve();
+  const promise = previous
+    .catch(() => undefined)
+    .then(() =>
+      cancelled
+        ? null
+        : renderPdfPage(doc, pageIndex, canvas, zoom, t => {
+            task = t;
+            if (cancelled) t.cancel();
+          })
+    );
+  canvasRenders.set(canvas, promise.catch(() => undefined));
+  return {
+    promise,
+    cancel: () => {
+      cancelled = true;
+      task?.cancel();
+    },
+  };
+}
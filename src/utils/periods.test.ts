@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ROLL_FORWARD, nextPeriod, rollForwardTemplate } from "./periods";
+import { createDefaultTemplate } from "./templateData";
+
+describe("nextPeriod", () => {
+  it("moves day-based periods by their length", () => {
+    expect(nextPeriod({ start: "2026-01-05", end: "2026-01-18" })).toEqual({ start: "2026-01-19", end: "2026-02-01" });
+  });
+
+  it("keeps calendar months aligned", () => {
+    expect(nextPeriod({ start: "2026-01-01", end: "2026-01-31" })).toEqual({ start: "2026-02-01", end: "2026-02-28" });
+    expect(nextPeriod({ start: "2026-02-01", end: "2026-02-28" })).toEqual({ start: "2026-03-01", end: "2026-03-31" });
+    expect(nextPeriod({ start: "2027-12-01", end: "2027-12-31" })).toEqual({ start: "2028-01-01", end: "2028-01-31" });
+  });
+
+  it("keeps multi-month periods aligned", () => {
+    expect(nextPeriod({ start: "2026-01-01", end: "2026-03-31" })).toEqual({ start: "2026-04-01", end: "2026-06-30" });
+  });
+
+  it("alternates half months", () => {
+    expect(nextPeriod({ start: "2026-02-01", end: "2026-02-15" })).toEqual({ start: "2026-02-16", end: "2026-02-28" });
+    expect(nextPeriod({ start: "2026-02-16", end: "2026-02-28" })).toEqual({ start: "2026-03-01", end: "2026-03-15" });
+    expect(nextPeriod({ start: "2028-02-16", end: "2028-02-29" })).toEqual({ start: "2028-03-01", end: "2028-03-15" });
+  });
+});
+
+describe("rollForwardTemplate", () => {
+  it("drops signature stamps but keeps other annotations", () => {
+    const text = { id: "t", pageIndex: 0, x: 10, y: 10, text: "Client: ACME", fontSize: 12, fontFamily: "Arial", fontColor: "#000000" };
+    const signature = {
+      ...text,
+      id: "s",
+      text: "Signed by Jo on 1/31/2026",
+      width: 160,
+      signature: { imageData: "data:image/png;base64,", height: 40, signedBy: "u", signerName: "Jo", signedAt: "2026-01-31T10:00:00Z" },
+    };
+    const template = {
+      ...createDefaultTemplate(),
+      meta: { period: "2026-01-01 - 2026-01-31" },
+      attachments: [
+        {
+          id: "a",
+          url: "u",
+          type: "pdf" as const,
+          storagePath: "p",
+          annotations: [text, signature],
+          previousVersions: [{ url: "v", storagePath: "vp", replacedAt: "2026-01-30T10:00:00Z", annotations: [text, signature] }],
+        },
+      ],
+    };
+    const { data } = rollForwardTemplate(template, DEFAULT_ROLL_FORWARD);
+    expect(data.attachments?.[0].annotations).toEqual([text]);
+    expect(data.attachments?.[0].previousVersions?.[0].annotations).toEqual([text]);
+    expect(template.attachments[0].annotations).toHaveLength(2);
+  });
+});
@@ -0,0 +1,120 @@
+// src/utils/periods.ts
+import { addDays, addMonths, dateRange, daysBetween, endOfMonth, isIsoDate, isWeekend } from "./dates";
+import { cellRef, cellText, makeEmptyRow, setCellText, setCellValue, sortedDates } from "./timeEntries";
+import type { Cell } from "./timeEntries";
+import { LEAVE_DAY_HOURS, leaveDayRow } from "./leave";
+import type { LeaveDay } from "./leave";
+import type { PdfAnnotation, RollForwardSettings, TemplateData } from "./templateData";
+
+export type Period = { start: string; end: string };
+
+export const DEFAULT_ROLL_FORWARD: RollForwardSettings = { skipWeekends: true, holidays: [] };
+
+// Accepts any text holding two ISO dates, e.g. "2026-01-05 - 2026-01-18" or "2026-01-05 to 2026-01-18"
+export const parsePeriod = (text?: string): Period | null => {
+  const dates = (text ?? "").match(/\d{4}-\d{2}-\d{2}/g)?.filter(isIsoDate) ?? [];
+  if (dates.length < 2) return null;
+  const [a, b] = dates;
+  return a <= b ? { start: a, end: b } : { start: b, end: a };
+};
+
+export const formatPeriod = (period: Period) => `${period.start} - ${period.end}`;
+
+// Falls back to the span of dated rows when meta.period is blank or free text
+export const templatePeriod = (template: TemplateData): Period | null => {
+  const parsed = parsePeriod(template.meta?.period);
+  if (parsed) return parsed;
+  const dates = sortedDates(template.rows);
+  return dates.length ? { start: dates[0], end: dates[dates.length - 1] } : null;
+};
+
+const dayOfMonth = (value: string) => Number(value.slice(8, 10));
+const monthNumber = (value: string) => Number(value.slice(0, 4)) * 12 + Number(value.slice(5, 7));
+
+/**
+ * The period right after this one. Whole calendar months (monthly, quarterly) advance by
+ * months and half months alternate 1st-15th / 16th-month end, so month lengths never make
+ * them drift; any other period moves forward by its length in days.
+ */
+export const nextPeriod = (period: Period): Period => {
+  const { start, end } = period;
+  const endsMonth = end === endOfMonth(end);
+
+  if (dayOfMonth(start) === 1 && endsMonth) {
+    const months = monthNumber(end) - monthNumber(start) + 1;
+    const nextStart = addMonths(start, months);
+    return { start: nextStart, end: endOfMonth(addMonths(nextStart, months - 1)) };
+  }
+  if (monthNumber(start) === monthNumber(end)) {
+    if (dayOfMonth(start) === 1 && dayOfMonth(end) === 15) return { start: addDays(end, 1), end: endOfMonth(start) };
+    if (dayOfMonth(start) === 16 && endsMonth) {
+      const nextStart = addDays(end, 1);
+      return { start: nextStart, end: addDays(nextStart, 14) };
+    }
+  }
+
+  const length = daysBetween(period.start, period.end) + 1;
+  return { start: addDays(period.start, length), end: addDays(period.end, length) };
+};
+
+export const workingDays = (period: Period, settings: RollForwardSettings) => {
+  const holidays = new Set(settings.holidays);
+  return dateRange(period.start, period.end).filter(d => !holidays.has(d) && !(settings.skipWeekends && isWeekend(d)));
+};
+
+const blankRowLike = (source: Cell[] | undefined, date: string) => {
+  let row = setCellText(makeEmptyRow(), "date", date);
+  if (source) {
+    row = setCellValue(row, "project", cellText(source, "project"), cellRef(source, "project"));
+    row = setCellText(row, "task", cellText(source, "task"));
+  }
+  return row;
+};
+
+const withoutSignatures = (annotations: PdfAnnotation[]) => annotations.filter(an => !an.signature);
+
+/**
+ * Builds the following period's template: dated rows for each working day with the
+ * project/task carried over from the matching day of the previous period (or the last
+ * entry), times and notes cleared, and attachments (with their annotations), header image
+ * and form mapping kept as they are. Signature stamps are dropped: the new period is unsigned.
+ * Leave days get a timed leave row in place of the usual rows.
+ */
+export function rollForwardTemplate(template: TemplateData, settings: RollForwardSettings, leave: LeaveDay[] = []) {
+  const current = templatePeriod(template);
+  if (!current) throw new Error("Set a period (YYYY-MM-DD - YYYY-MM-DD) or dated rows first");
+
+  const next = nextPeriod(current);
+  // Rows copy the same offset into the previous period, i.e. the same day of the month for monthly periods
+  const shift = daysBetween(current.start, next.start);
+  const dated = template.rows.filter(row => cellText(row, "date"));
+  const fallback = dated[dated.length - 1] ?? template.rows[template.rows.length - 1];
+
+  const working = new Set(workingDays(next, settings));
+  const leaveByDate = new Map(leave.map(day => [day.date, day]));
+
+  const rows = dateRange(next.start, next.end)
+    .filter(date => working.has(date) || leaveByDate.has(date))
+    .flatMap(date => {
+      const leaveDay = leaveByDate.get(date);
+      const leaveRows = leaveDay ? [leaveDayRow(leaveDay)] : [];
+      // Full days of leave replace the usual rows; half days keep them for the rest of the day
+      if (!working.has(date) || (leaveDay && leaveDay.hours >= LEAVE_DAY_HOURS)) return leaveRows;
+      const previousDate = addDays(date, -shift);
+      const sameDay = dated.filter(row => cellText(row, "date") === previousDate);
+      return [...leaveRows, ...(sameDay.length ? sameDay.map(row => blankRowLike(row, date)) : [blankRowLike(fallback, date)])];
+    });
+
+  const data: TemplateData = {
+    ...template,
+    rows: rows.length ? rows : [makeEmptyRow()],
+    attachments: template.attachments?.map(a => ({
+      ...a,
+      annotations: withoutSignatures(a.annotations),
+      previousVersions: a.previousVersions?.map(v => (v.annotations ? { ...v, annotations: withoutSignatures(v.annotations) } : v)),
+    })),
+    meta: { ...template.meta, period: formatPeriod(next) },
+    rollForward: settings,
+  };
+  return { period: next, previous: current, data };
+}
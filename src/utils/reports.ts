@@ -0,0 +1,182 @@
+// src/utils/reports.ts
+import { projectLabel, resolveRowProject } from "../api/projects";
+import type { ClientRecord, ProjectRecord } from "../api/projects";
+import { weekStart } from "./dates";
+import { computeHours } from "./hoursRules";
+import type { HoursFigures } from "./hoursRules";
+import { cellText, rowId } from "./timeEntries";
+import { normalizeTemplate } from "./templateData";
+import type { TemplateRecord } from "./templateData";
+import type { Period } from "./periods";
+
+/* --------------------------
+   Report types
+-------------------------- */
+export type ReportDimension = "day" | "week" | "month" | "project" | "client";
+
+export type ReportMeasure = "worked" | "paid";
+
+export const REPORT_DIMENSION_LABELS: Record<ReportDimension, string> = {
+  day: "Day",
+  week: "Week",
+  month: "Month",
+  project: "Project",
+  client: "Client",
+};
+
+export const NO_PROJECT = "";
+export const NO_CLIENT = "";
+
+// One dated time entry with its project and client resolved against the catalogue
+export type ReportEntry = {
+  templateId: string;
+  templateName: string;
+  rowId: string;
+  date: string;
+  task: string;
+  projectKey: string;
+  projectName: string;
+  clientKey: string;
+  clientName: string;
+  worked: number;
+  paid: number;
+};
+
+export type ReportFilters = Period & {
+  // Catalogue project id, or the free-text name for unlinked rows
+  projectKey?: string;
+  clientKey?: string;
+};
+
+export type ReportGroup = { key: string; label: string };
+
+export type Report = {
+  rows: ReportGroup[];
+  columns: ReportGroup[];
+  // cells.get(rowKey)?.get(columnKey), minutes of the chosen measure
+  cells: Map<string, Map<string, number>>;
+  rowTotals: Map<string, number>;
+  columnTotals: Map<string, number>;
+  total: number;
+};
+
+/**
+ * Every dated entry across the templates, with worked and paid minutes from each
+ * template's own hours rules. Rows not linked to the catalogue are grouped by their
+ * project text (falling back to the template's project) and have no client.
+ */
+export function collectReportEntries(templates: TemplateRecord[], projects: ProjectRecord[], clients: ClientRecord[]) {
+  const entries: ReportEntry[] = [];
+
+  templates.forEach(record => {
+    const template = normalizeTemplate(record.template_data);
+    const breakdown = computeHours(template.rows, template.hoursRules);
+    template.rows.forEach(row => {
+      const date = cellText(row, "date");
+      const figures: HoursFigures | undefined = breakdown.entries.get(rowId(row));
+      if (!date || !figures) return;
+      const project = resolveRowProject(row, template.meta, projects);
+      const projectText = (cellText(row, "project") || template.meta?.project || "").trim();
+      const client = project?.client_id ? clients.find(c => c.id === project.client_id) : undefined;
+      entries.push({
+        templateId: record.id,
+        templateName: record.name,
+        rowId: rowId(row),
+        date,
+        task: cellText(row, "task"),
+        projectKey: project?.id ?? projectText,
+        projectName: project ? projectLabel(project) : projectText,
+        clientKey: client?.id ?? NO_CLIENT,
+        clientName: client?.name ?? "",
+        worked: figures.worked,
+        paid: figures.paid,
+      });
+    });
+  });
+
+  return entries.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export const filterReportEntries = (entries: ReportEntry[], filters: ReportFilters) =>
+  entries.filter(
+    e =>
+      (!filters.start || e.date >= filters.start) &&
+      (!filters.end || e.date <= filters.end) &&
+      (filters.projectKey === undefined || e.projectKey === filters.projectKey) &&
+      (filters.clientKey === undefined || e.clientKey === filters.clientKey)
+  );
+
+export const dimensionGroup = (entry: ReportEntry, dimension: ReportDimension): ReportGroup => {
+  switch (dimension) {
+    case "day":
+      return { key: entry.date, label: entry.date };
+    case "week": {
+      const week = weekStart(entry.date);
+      return { key: week, label: `Week of ${week}` };
+    }
+    case "month":
+      return { key: entry.date.slice(0, 7), label: entry.date.slice(0, 7) };
+    case "project":
+      return { key: entry.projectKey, label: entry.projectName || "No project" };
+    case "client":
+      return { key: entry.clientKey, label: entry.clientName || "No client" };
+  }
+};
+
+// Dates sort chronologically; projects and clients by name with the "No ..." bucket last
+const sortGroups = (groups: ReportGroup[], dimension: ReportDimension) =>
+  ["day", "week", "month"].includes(dimension)
+    ? groups.sort((a, b) => a.key.localeCompare(b.key))
+    : groups.sort((a, b) => Number(!a.key) - Number(!b.key) || a.label.localeCompare(b.label));
+
+/** Pivots entries into rows by one dimension and optional columns by another. */
+export function buildReport(
+  entries: ReportEntry[],
+  rowsBy: ReportDimension,
+  columnsBy: ReportDimension | null,
+  measure: ReportMeasure
+): Report {
+  const rows = new Map<string, ReportGroup>();
+  const columns = new Map<string, ReportGroup>();
+  const cells = new Map<string, Map<string, number>>();
+  const rowTotals = new Map<string, number>();
+  const columnTotals = new Map<string, number>();
+  let total = 0;
+
+  entries.forEach(entry => {
+    const minutes = entry[measure];
+    const row = dimensionGroup(entry, rowsBy);
+    const column = columnsBy ? dimensionGroup(entry, columnsBy) : { key: "", label: "Total" };
+    rows.set(row.key, row);
+    columns.set(column.key, column);
+    const rowCells = cells.get(row.key) ?? new Map<string, number>();
+    rowCells.set(column.key, (rowCells.get(column.key) ?? 0) + minutes);
+    cells.set(row.key, rowCells);
+    rowTotals.set(row.key, (rowTotals.get(row.key) ?? 0) + minutes);
+    columnTotals.set(column.key, (columnTotals.get(column.key) ?? 0) + minutes);
+    total += minutes;
+  });
+
+  return {
+    rows: sortGroups([...rows.values()], rowsBy),
+    columns: columnsBy ? sortGroups([...columns.values()], columnsBy) : [],
+    cells,
+    rowTotals,
+    columnTotals,
+    total,
+  };
+}
+
+// Header plus one line per row group and a totals line, hours as numbers to two decimals
+export function reportTable(report: Report, rowsBy: ReportDimension): (string | number)[][] {
+  const hours = (minutes = 0) => Math.round((minutes / 60) * 100) / 100;
+  return [
+    [REPORT_DIMENSION_LABELS[rowsBy], ...report.columns.map(c => c.label), "Total"],
+    ...report.rows.map(r => [
+      r.label,
+      ...report.columns.map(c => hours(report.cells.get(r.key)?.get(c.key))),
+      hours(report.rowTotals.get(r.key)),
+    ]),
+    ["Total", ...report.columns.map(c => hours(report.columnTotals.get(c.key))), hours(report.total)],
+  ];
+}
@@ -0,0 +1,92 @@
+// src/utils/signature.ts
+// Canvas helpers for the signature pad: every kind of signature ends up as a trimmed, transparent PNG.
+
+export const SIGNATURE_INK = "#1a1a6e";
+
+// Handwriting-style fonts commonly installed; the browser falls back to its cursive font
+export const SCRIPT_FONTS = ['"Brush Script MT", cursive', '"Segoe Script", cursive', '"Lucida Handwriting", cursive', "cursive"];
+
+// Width a new stamp gets on the page, in the same pixels as annotations
+export const DEFAULT_STAMP_WIDTH = 160;
+
+const TRIM_PADDING = 4;
+const MAX_UPLOAD_WIDTH = 600;
+// Pixels lighter than this on every channel count as paper and are made transparent
+const PAPER_THRESHOLD = 225;
+
+export type SignatureImage = { dataUrl: string; width: number; height: number };
+
+// Crops to the inked area so the stamp's box hugs the signature
+export const trimCanvas = (canvas: HTMLCanvasElement): SignatureImage | null => {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  const { width, height } = canvas;
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  let top = height;
+  let left = width;
+  let right = -1;
+  let bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (pixels[(y * width + x) * 4 + 3] === 0) continue;
+      top = Math.min(top, y);
+      bottom = Math.max(bottom, y);
+      left = Math.min(left, x);
+      right = Math.max(right, x);
+    }
+  }
+  if (right < 0) return null;
+
+  const out = document.createElement("canvas");
+  out.width = right - left + 1 + TRIM_PADDING * 2;
+  out.height = bottom - top + 1 + TRIM_PADDING * 2;
+  out.getContext("2d")!.drawImage(canvas, left, top, right - left + 1, bottom - top + 1, TRIM_PADDING, TRIM_PADDING, right - left + 1, bottom - top + 1);
+  return { dataUrl: out.toDataURL("image/png"), width: out.width, height: out.height };
+};
+
+export const renderTypedSignature = (name: string, fontFamily: string): SignatureImage | null => {
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d")!;
+  const font = `48px ${fontFamily}`;
+  ctx.font = font;
+  canvas.width = Math.ceil(ctx.measureText(name).width) + 40;
+  canvas.height = 96;
+  // Resizing the canvas resets its context state
+  ctx.font = font;
+  ctx.fillStyle = SIGNATURE_INK;
+  ctx.textBaseline = "middle";
+  ctx.fillText(name, 20, canvas.height / 2);
+  return trimCanvas(canvas);
+};
+
+// Scanned or photographed signatures: scale down and drop the paper background
+export const loadSignatureFile = (file: File) =>
+  new Promise<SignatureImage | null>((resolve, reject) => {
+    const src = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(src);
+      const scale = Math.min(1, MAX_UPLOAD_WIDTH / img.naturalWidth);
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(img.naturalWidth * scale);
+      canvas.height = Math.round(img.naturalHeight * scale);
+      const ctx = canvas.getContext("2d")!;
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const px = image.data;
+      for (let i = 0; i < px.length; i += 4) {
+        if (px[i] > PAPER_THRESHOLD && px[i + 1] > PAPER_THRESHOLD && px[i + 2] > PAPER_THRESHOLD) px[i + 3] = 0;
+      }
+      ctx.putImageData(image, 0, 0);
+      resolve(trimCanvas(canvas));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(src);
+      reject(new Error("Could not read the image"));
+    };
+    img.src = src;
+  });
+
+// Date line printed under a placed signature
+export const signatureDateLine = (signerName: string, signedAt: Date) =>
+  `Signed by ${signerName} on ${signedAt.toLocaleDateString()} ${signedAt.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`;
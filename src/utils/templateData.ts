@@ -0,0 +1,127 @@
+// src/utils/templateData.ts
+import { makeEmptyRow, normalizeRows } from "./timeEntries";
+import type { Cell } from "./timeEntries";
+import type { HoursRules } from "./hoursRules";
+import type { TemplateStatus } from "../api/templateWorkflow";
+
+/* --------------------------
+   PDF Annotation types - using absolute pixel coordinates
+-------------------------- */
+export type PdfAnnotation = {
+  id: string;
+  pageIndex: number;
+  x: number;
+  y: number;
+  text: string;
+  fontSize: number;
+  fontFamily: string;
+  fontColor: string;
+  // Text box width in pixels; text wraps inside it when set
+  width?: number;
+  // Set on signature stamps; `text` is then the date line drawn under the image
+  signature?: SignatureStamp;
+};
+
+// A user's saved signature as placed on a page; width comes from the annotation
+export type SignatureStamp = {
+  imageData: string;
+  height: number;
+  signedBy: string;
+  signerName: string;
+  signedAt: string;
+};
+
+/* --------------------------
+   Template types
+-------------------------- */
+// projectId links meta.project to the projects catalogue; project keeps the name as typed/picked
+export type TemplateMeta = { project?: string; projectId?: string; period?: string; employeeName?: string };
+
+// Controls how "Generate next period" lays out dated rows
+export type RollForwardSettings = { skipWeekends: boolean; holidays: string[] };
+
+export type AttachmentType = "pdf" | "word" | "excel";
+
+// A file an attachment pointed at before it was edited in place, with the annotations placed on that file
+export type AttachmentVersion = { url: string; storagePath: string; replacedAt: string; annotations?: PdfAnnotation[] };
+
+// A document attached to the template; annotations only apply to PDFs
+export type TemplateAttachment = {
+  id: string;
+  url: string;
+  type: AttachmentType;
+  storagePath: string;
+  filename?: string;
+  annotations: PdfAnnotation[];
+  // Oldest first; each in-place edit is stored as a new File Bank file
+  previousVersions?: AttachmentVersion[];
+  // AcroForm field name -> value source (see FORM_FIELD_SOURCES); PDFs with form fields only
+  formFieldMapping?: Record<string, string>;
+};
+
+export type TemplateData = {
+  headerImage?: { url?: string; storagePath?: string };
+  rows: Cell[][];
+  // In display order; the primary one is opened first
+  attachments?: TemplateAttachment[];
+  primaryAttachmentId?: string;
+  // Single attachment and its annotations from older saves, moved into `attachments` on load
+  attachment?: { url: string; type: AttachmentType; storagePath: string };
+  annotations?: PdfAnnotation[];
+  meta?: TemplateMeta;
+  // Form mapping from before it moved onto each attachment; given to the primary one on load
+  formFieldMapping?: Record<string, string>;
+  rollForward?: RollForwardSettings;
+  // Rounding, unpaid break and overtime rules for the hours breakdown and exports
+  hoursRules?: HoursRules;
+};
+
+// Shape of a row in the `templates` table
+export type TemplateRecord = {
+  id: string;
+  user_id: string;
+  name: string;
+  template_data: TemplateData | null;
+  status?: TemplateStatus | null;
+  created_at: string;
+  updated_at?: string | null;
+};
+
+export const createDefaultTemplate = (): TemplateData => ({
+  rows: [makeEmptyRow()],
+  meta: {},
+  attachments: [],
+});
+
+// The storage path doubles as the id of a migrated attachment, so it stays the same on every load
+const migrateAttachments = (base: TemplateData): TemplateAttachment[] => {
+  if (base.attachments) return base.attachments.map(a => ({ ...a, annotations: a.annotations ?? [] }));
+  if (!base.attachment) return [];
+  return [{ ...base.attachment, id: base.attachment.storagePath, annotations: base.annotations ?? [] }];
+};
+
+// Fills in anything older saves may be missing
+export const normalizeTemplate = (data: TemplateData | null | undefined): TemplateData => {
+  const base = data ?? createDefaultTemplate();
+  const attachments = migrateAttachments(base);
+  const primary = attachments.find(a => a.id === base.primaryAttachmentId) ?? attachments[0];
+  return {
+    ...base,
+    rows: normalizeRows(base.rows),
+    meta: base.meta ?? {},
+    attachments: attachments.map(a =>
+      a === primary && base.formFieldMapping && !a.formFieldMapping ? { ...a, formFieldMapping: base.formFieldMapping } : a
+    ),
+    primaryAttachmentId: primary?.id,
+    attachment: undefined,
+    annotations: undefined,
+    formFieldMapping: undefined,
+  };
+};
+
+export const primaryAttachment = (template: TemplateData) =>
+  template.attachments?.find(a => a.id === template.primaryAttachmentId) ?? template.attachments?.[0];
+
+export const attachmentLabel = (attachment: TemplateAttachment) =>
+  // Older attachments have no filename; their storage key is <user>/<uuid>-<name>
+  attachment.filename ?? attachment.storagePath.split("/").pop()?.replace(/^[0-9a-f]{8}(-[0-9a-f]{4}){3}-[0-9a-f]{12}-/, "") ?? attachment.type.toUpperCase();
@@ -0,0 +1,163 @@
+// src/utils/templateDiff.ts
+import { TIME_ENTRY_COLUMNS, cellText, rowId } from "./timeEntries";
+import type { Cell } from "./timeEntries";
+import { attachmentLabel } from "./templateData";
+import type { PdfAnnotation, TemplateData, TemplateMeta } from "./templateData";
+
+/* --------------------------
+   Diff types
+-------------------------- */
+export type FieldChange = { field: string; before: string; after: string };
+
+export type ItemDiff = {
+  kind: "added" | "removed" | "changed";
+  id: string;
+  label: string;
+  // Only filled for "changed" items
+  changes: FieldChange[];
+};
+
+export type TemplateDiff = {
+  name: FieldChange | null;
+  meta: FieldChange[];
+  rows: ItemDiff[];
+  annotations: ItemDiff[];
+  // Parts compared as a whole: attachments, header image, rules and settings
+  other: string[];
+};
+
+export type TemplateVersionLike = { name: string; data: TemplateData };
+
+const META_LABELS: Record<keyof TemplateMeta, string> = {
+  project: "Project",
+  projectId: "Linked project",
+  period: "Period",
+  employeeName: "Employee name",
+};
+
+const OTHER_LABELS: [keyof TemplateData, string][] = [
+  ["primaryAttachmentId", "Primary attachment"],
+  ["headerImage", "Header image"],
+  ["hoursRules", "Hours rules"],
+  ["rollForward", "Next period settings"],
+];
+
+/* --------------------------
+   Rows & annotations
+-------------------------- */
+export const rowLabel = (row: Cell[]) =>
+  [cellText(row, "date"), cellText(row, "task") || cellText(row, "project")].filter(Boolean).join(" · ") || "Empty row";
+
+type LocatedAnnotation = PdfAnnotation & { document: string; key: string };
+
+// Annotations of every attachment in one list, keyed by attachment so equal ids cannot clash
+const allAnnotations = (template: TemplateData | undefined): LocatedAnnotation[] =>
+  (template?.attachments ?? []).flatMap(attachment =>
+    attachment.annotations.map(a => ({ ...a, document: attachmentLabel(attachment), key: `${attachment.id}:${a.id}` }))
+  );
+
+// Attachment list without annotations, which are compared one by one
+const attachmentList = (template: TemplateData | undefined) =>
+  JSON.stringify((template?.attachments ?? []).map(a => [a.id, a.url, a.type, a.filename ?? ""]));
+
+const formMappings = (template: TemplateData | undefined) =>
+  JSON.stringify((template?.attachments ?? []).filter(a => a.formFieldMapping).map(a => [a.id, a.formFieldMapping]));
+
+const annotationLabel = (a: LocatedAnnotation) =>
+  `${a.signature ? `Signature of ${a.signature.signerName}` : `"${a.text}"`} (${a.document}, page ${a.pageIndex + 1})`;
+
+const annotationFields = (a: PdfAnnotation): Record<string, string> => ({
+  Text: a.text,
+  Page: String(a.pageIndex + 1),
+  Position: `${Math.round(a.x)}, ${Math.round(a.y)}`,
+  Width: a.width ? String(Math.round(a.width)) : "auto",
+  Font: `${a.fontFamily} ${a.fontSize}pt`,
+  Color: a.fontColor,
+  Signature: a.signature ? `${a.signature.signerName}, ${a.signature.signedAt}` : "",
+});
+
+const rowFields = (row: Cell[]): Record<string, string> =>
+  Object.fromEntries(TIME_ENTRY_COLUMNS.map(c => [c.label, cellText(row, c.key)]));
+
+const fieldChanges = (before: Record<string, string>, after: Record<string, string>): FieldChange[] =>
+  Object.keys({ ...before, ...after })
+    .filter(field => (before[field] ?? "") !== (after[field] ?? ""))
+    .map(field => ({ field, before: before[field] ?? "", after: after[field] ?? "" }));
+
+// Items are matched by id, so reordering alone is not reported
+const diffItems = <T>(
+  before: T[],
+  after: T[],
+  idOf: (item: T) => string,
+  labelOf: (item: T) => string,
+  fieldsOf: (item: T) => Record<string, string>
+): ItemDiff[] => {
+  const previous = new Map(before.map(item => [idOf(item), item]));
+  const current = new Set(after.map(idOf));
+  const diffs: ItemDiff[] = [];
+
+  after.forEach(item => {
+    const id = idOf(item);
+    const old = previous.get(id);
+    if (!old) {
+      diffs.push({ kind: "added", id, label: labelOf(item), changes: [] });
+      return;
+    }
+    const changes = fieldChanges(fieldsOf(old), fieldsOf(item));
+    if (changes.length > 0) diffs.push({ kind: "changed", id, label: labelOf(item), changes });
+  });
+  before.forEach(item => {
+    if (!current.has(idOf(item))) diffs.push({ kind: "removed", id: idOf(item), label: labelOf(item), changes: [] });
+  });
+  return diffs;
+};
+
+/* --------------------------
+   Template diff
+-------------------------- */
+// With no `before`, everything in `after` counts as added
+export const diffTemplates = (before: TemplateVersionLike | null, after: TemplateVersionLike): TemplateDiff => {
+  const prev = before?.data;
+  const next = after.data;
+  const prevMeta = (prev?.meta ?? {}) as Record<string, string | undefined>;
+  const nextMeta = (next.meta ?? {}) as Record<string, string | undefined>;
+
+  return {
+    name: before && before.name !== after.name ? { field: "Name", before: before.name, after: after.name } : null,
+    meta: (Object.keys(META_LABELS) as (keyof TemplateMeta)[])
+      .filter(key => (prevMeta[key] ?? "") !== (nextMeta[key] ?? ""))
+      .map(key => ({ field: META_LABELS[key], before: prevMeta[key] ?? "", after: nextMeta[key] ?? "" })),
+    rows: diffItems(prev?.rows ?? [], next.rows, rowId, rowLabel, rowFields),
+    annotations: diffItems(allAnnotations(prev), allAnnotations(next), a => a.key, annotationLabel, annotationFields),
+    other: [
+      ...(attachmentList(prev) !== attachmentList(next) ? ["Attachments"] : []),
+      ...(formMappings(prev) !== formMappings(next) ? ["Form field mapping"] : []),
+      ...OTHER_LABELS.filter(([key]) => JSON.stringify(prev?.[key] ?? null) !== JSON.stringify(next[key] ?? null)).map(
+        ([, label]) => label
+      ),
+    ],
+  };
+};
+
+export const isEmptyDiff = (diff: TemplateDiff) =>
+  !diff.name && diff.meta.length === 0 && diff.rows.length === 0 && diff.annotations.length === 0 && diff.other.length === 0;
+
+const countPart = (items: ItemDiff[], noun: string) =>
+  (["added", "removed", "changed"] as const)
+    .map(kind => {
+      const count = items.filter(i => i.kind === kind).length;
+      return count > 0 ? `${count} ${noun}${count === 1 ? "" : "s"} ${kind}` : null;
+    })
+    .filter((part): part is string => part !== null);
+
+// One line for the version list, e.g. "2 rows added, Period changed"
+export const summarizeDiff = (diff: TemplateDiff) => {
+  const parts = [
+    ...(diff.name ? ["Renamed"] : []),
+    ...diff.meta.map(m => `${m.field} changed`),
+    ...countPart(diff.rows, "row"),
+    ...countPart(diff.annotations, "annotation"),
+    ...diff.other.map(label => `${label} changed`),
+  ];
+  return parts.length > 0 ? parts.join(", ") : "No changes";
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { entryMinutes, makeEmptyRow, rowId, setCellText, spanMinutes, validateRows, withComputedHours } from "./timeEntries";
+
+const entry = (start: string, end: string, breakMinutes = "") =>
+  setCellText(setCellText(setCellText(makeEmptyRow(), "start", start), "end", end), "break", breakMinutes);
+
+describe("spanMinutes", () => {
+  it("measures a same-day interval", () => {
+    expect(spanMinutes(9 * 60, 17 * 60)).toBe(480);
+  });
+
+  it("treats an end before the start as running past midnight", () => {
+    expect(spanMinutes(22 * 60, 6 * 60)).toBe(480);
+    expect(spanMinutes(23 * 60 + 30, 0)).toBe(30);
+  });
+
+  it("is zero for equal start and end", () => {
+    expect(spanMinutes(600, 600)).toBe(0);
+  });
+});
+
+describe("entryMinutes", () => {
+  it("deducts the logged break", () => {
+    expect(entryMinutes(entry("09:00", "17:30", "30"))).toBe(480);
+  });
+
+  it("counts an overnight shift", () => {
+    expect(entryMinutes(entry("22:00", "06:00", "45"))).toBe(435);
+  });
+
+  it("is negative when the break exceeds the interval", () => {
+    expect(entryMinutes(entry("09:00", "09:30", "45"))).toBe(-15);
+  });
+
+  it("is null for incomplete or malformed times", () => {
+    expect(entryMinutes(entry("09:00", ""))).toBeNull();
+    expect(entryMinutes(entry("25:00", "26:00"))).toBeNull();
+  });
+
+  it("keeps the stored hours cell in step", () => {
+    expect(withComputedHours(entry("23:00", "01:30"))[6].text).toBe("2.50");
+  });
+});
+
+describe("validateRows", () => {
+  const dated = (date: string, start: string, end: string) => setCellText(entry(start, end), "date", date);
+
+  it("accepts a normal overnight shift", () => {
+    expect(validateRows([dated("2026-01-05", "22:00", "06:00")])).toEqual({});
+  });
+
+  it("flags an end before the start that would make an overlong shift", () => {
+    const typo = dated("2026-01-05", "17:00", "09:00");
+    expect(validateRows([typo])[rowId(typo)]).toEqual([
+      "End time is before start time; as an overnight shift this is over 12 hours",
+    ]);
+  });
+
+  it("flags overlapping entries on the same date", () => {
+    const a = dated("2026-01-05", "09:00", "12:00");
+    const b = dated("2026-01-05", "11:00", "13:00");
+    const errors = validateRows([a, b]);
+    expect(errors[rowId(a)]).toEqual(["Overlaps another entry"]);
+    expect(errors[rowId(b)]).toEqual(["Overlaps another entry"]);
+  });
+
+  it("flags an overnight shift running into the next morning's entry", () => {
+    const night = dated("2026-01-05", "22:00", "06:00");
+    const morning = dated("2026-01-06", "05:30", "09:00");
+    const next = dated("2026-01-06", "06:00", "09:00");
+    expect(Object.keys(validateRows([night, morning]))).toEqual([rowId(night), rowId(morning)]);
+    expect(validateRows([night, next])).toEqual({});
+  });
+});
@@ -0,0 +1,182 @@
+// src/utils/timeEntries.ts
+import { v4 as uuidv4 } from "uuid";
+import { isIsoDate, parseIsoDate } from "./dates";
+
+/* --------------------------
+   Grid types
+-------------------------- */
+// `ref` links a cell to a catalogue record (the project column's project id); text stays the display value
+export type Cell = { id: string; text: string; ref?: string };
+
+export type TimeEntryColumnKey = "date" | "project" | "task" | "start" | "end" | "break" | "hours" | "notes";
+
+export type TimeEntryColumn = {
+  key: TimeEntryColumnKey;
+  label: string;
+  input: "date" | "text" | "time" | "number" | "computed";
+  width?: number;
+};
+
+// Column order is the cell order inside every TemplateData.rows entry
+export const TIME_ENTRY_COLUMNS: TimeEntryColumn[] = [
+  { key: "date", label: "Date", input: "date", width: 150 },
+  { key: "project", label: "Project", input: "text" },
+  { key: "task", label: "Task", input: "text" },
+  { key: "start", label: "Start", input: "time", width: 110 },
+  { key: "end", label: "End", input: "time", width: 110 },
+  { key: "break", label: "Break (min)", input: "number", width: 100 },
+  { key: "hours", label: "Hours", input: "computed", width: 80 },
+  { key: "notes", label: "Notes", input: "text" },
+];
+
+export const columnIndex = (key: TimeEntryColumnKey) => TIME_ENTRY_COLUMNS.findIndex(c => c.key === key);
+
+export const makeEmptyCell = (): Cell => ({ id: uuidv4(), text: "" });
+
+export const makeEmptyRow = (): Cell[] => TIME_ENTRY_COLUMNS.map(() => makeEmptyCell());
+
+export const cellText = (row: Cell[], key: TimeEntryColumnKey) => row[columnIndex(key)]?.text ?? "";
+
+export const setCellText = (row: Cell[], key: TimeEntryColumnKey, text: string): Cell[] => {
+  const idx = columnIndex(key);
+  return row.map((cell, i) => (i === idx ? { ...cell, text } : cell));
+};
+
+export const cellRef = (row: Cell[], key: TimeEntryColumnKey) => row[columnIndex(key)]?.ref;
+
+export const setCellValue = (row: Cell[], key: TimeEntryColumnKey, text: string, ref?: string): Cell[] => {
+  const idx = columnIndex(key);
+  return row.map((cell, i) => (i === idx ? { id: cell.id, text, ...(ref ? { ref } : {}) } : cell));
+};
+
+// Templates saved before the grid existed have 3 free-text cells per row
+export const normalizeRows = (rows: Cell[][] | undefined): Cell[][] => {
+  const source = rows && rows.length > 0 ? rows : [makeEmptyRow()];
+  return source.map(row => {
+    const padded = [...row];
+    while (padded.length < TIME_ENTRY_COLUMNS.length) padded.push(makeEmptyCell());
+    return padded.slice(0, TIME_ENTRY_COLUMNS.length);
+  });
+};
+
+export const rowId = (row: Cell[]) => row[0]?.id ?? "";
+
+/* --------------------------
+   Hour calculations
+-------------------------- */
+
+// "HH:MM" -> minutes since midnight, null when blank or malformed
+export const parseTime = (value: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const h = Number(match[1]);
+  const m = Number(match[2]);
+  if (h > 23 || m > 59) return null;
+  return h * 60 + m;
+};
+
+export const parseBreak = (value: string): number => {
+  const n = Number(value.trim());
+  return Number.isFinite(n) && n > 0 ? n : 0;
+};
+
+// Length of a start/end interval; an end before the start is a shift that runs past midnight
+export const spanMinutes = (start: number, end: number) => (end >= start ? end - start : end + 24 * 60 - start);
+
+// Worked minutes for a row, negative when the break exceeds the interval, null when incomplete
+export const entryMinutes = (row: Cell[]): number | null => {
+  const start = parseTime(cellText(row, "start"));
+  const end = parseTime(cellText(row, "end"));
+  if (start === null || end === null) return null;
+  return spanMinutes(start, end) - parseBreak(cellText(row, "break"));
+};
+
+export const formatHours = (minutes: number) => (minutes / 60).toFixed(2);
+
+// Keeps the stored "hours" cell in step with start/end/break so saved data is self-describing
+export const withComputedHours = (row: Cell[]): Cell[] => {
+  const minutes = entryMinutes(row);
+  return setCellText(row, "hours", minutes === null || minutes < 0 ? "" : formatHours(minutes));
+};
+
+export const totalMinutes = (rows: Cell[][]) =>
+  rows.reduce((sum, row) => {
+    const minutes = entryMinutes(row);
+    return minutes !== null && minutes > 0 ? sum + minutes : sum;
+  }, 0);
+
+// Worked minutes per ISO date (YYYY-MM-DD), skipping rows without a date or valid interval
+export const minutesByDate = (rows: Cell[][]) => {
+  const totals = new Map<string, number>();
+  rows.forEach(row => {
+    const date = cellText(row, "date");
+    const minutes = entryMinutes(row);
+    if (!date || minutes === null || minutes <= 0) return;
+    totals.set(date, (totals.get(date) ?? 0) + minutes);
+  });
+  return totals;
+};
+
+export const sortedDates = (rows: Cell[][]) =>
+  Array.from(new Set(rows.map(row => cellText(row, "date")).filter(Boolean))).sort();
+
+/* --------------------------
+   Validation
+-------------------------- */
+export type RowErrors = Record<string, string[]>;
+
+// Longer spans are flagged: usually an end typed before the start rather than a real overnight shift
+export const MAX_SHIFT_MINUTES = 12 * 60;
+
+export const validateRows = (rows: Cell[][]): RowErrors => {
+  const errors: RowErrors = {};
+  const push = (id: string, message: string) => {
+    errors[id] = [...(errors[id] ?? []), message];
+  };
+
+  rows.forEach(row => {
+    const id = rowId(row);
+    const startText = cellText(row, "start");
+    const endText = cellText(row, "end");
+    const start = parseTime(startText);
+    const end = parseTime(endText);
+
+    if (startText && start === null) push(id, "Start time is not a valid HH:MM time");
+    if (endText && end === null) push(id, "End time is not a valid HH:MM time");
+    if (cellText(row, "break") && Number(cellText(row, "break")) < 0) push(id, "Break cannot be negative");
+
+    if (start !== null && end !== null && spanMinutes(start, end) - parseBreak(cellText(row, "break")) < 0) {
+      push(id, "Break is longer than the worked interval");
+    }
+    if (start !== null && end !== null && spanMinutes(start, end) > MAX_SHIFT_MINUTES) {
+      push(id, end < start ? "End time is before start time; as an overnight shift this is over 12 hours" : "Entry is over 12 hours long");
+    }
+  });
+
+  // Overlaps compare absolute intervals, so a shift past midnight also collides with the next morning's entries
+  const intervals = rows
+    .map(row => {
+      const date = cellText(row, "date");
+      const start = parseTime(cellText(row, "start"));
+      const end = parseTime(cellText(row, "end"));
+      if (!isIsoDate(date) || start === null || end === null) return null;
+      const dayStart = parseIsoDate(date).getTime() / 60000;
+      return { id: rowId(row), start: dayStart + start, end: dayStart + start + spanMinutes(start, end) };
+    })
+    .filter((r): r is { id: string; start: number; end: number } => r !== null);
+
+  intervals.forEach((a, i) => {
+    intervals.slice(i + 1).forEach(b => {
+      if (a.start < b.end && b.start < a.end) {
+        push(a.id, "Overlaps another entry");
+        push(b.id, "Overlaps another entry");
+      }
+    });
+  });
+
+  Object.keys(errors).forEach(id => {
+    errors[id] = Array.from(new Set(errors[id]));
+  });
+
+  return errors;
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { startTimer, pauseTimer, resumeTimer, timerToEntry } from "./timer";
+
+const at = (day: number, hours: number, minutes = 0) => new Date(2026, 0, day, hours, minutes).getTime();
+const fields = { templateId: "t", templateName: "Timesheet", project: "Alpha", task: "Build" };
+
+describe("timerToEntry", () => {
+  it("uses wall-clock start and end", () => {
+    const entry = timerToEntry(startTimer(fields, at(5, 9)), at(5, 11, 30));
+    expect(entry).toMatchObject({ date: "2026-01-05", start: "09:00", end: "11:30", breakMinutes: 0, project: "Alpha" });
+  });
+
+  it("turns paused time into the break", () => {
+    let state = startTimer(fields, at(5, 9));
+    state = pauseTimer(state, at(5, 10));
+    state = resumeTimer(state, at(5, 10, 45));
+    expect(timerToEntry(state, at(5, 12))).toMatchObject({ start: "09:00", end: "12:00", breakMinutes: 45 });
+  });
+
+  it("keeps a shift past midnight on its start date", () => {
+    const entry = timerToEntry(startTimer(fields, at(5, 22)), at(6, 2, 15));
+    expect(entry).toMatchObject({ date: "2026-01-05", start: "22:00", end: "02:15", breakMinutes: 0 });
+  });
+
+  it("cuts a timer left running for over a day off just before 24h", () => {
+    const entry = timerToEntry(startTimer(fields, at(5, 9)), at(7, 9));
+    expect(entry).toMatchObject({ date: "2026-01-05", start: "09:00", end: "08:59" });
+    expect(entry.breakMinutes).toBe(0);
+  });
+});
@@ -0,0 +1,81 @@
+// src/utils/timer.ts
+import { localIsoDate } from "./dates";
+import { parseTime, spanMinutes } from "./timeEntries";
+import type { ImportedEntry } from "./importEntries";
+
+/* --------------------------
+   Running timer state
+-------------------------- */
+
+// Persisted as-is in localStorage, so only plain JSON values (epoch ms, strings)
+export type TimerState = {
+  templateId: string;
+  templateName: string;
+  project: string;
+  task: string;
+  startedAt: number;
+  // Worked time from segments that have already been paused
+  accumulatedMs: number;
+  // Start of the current running segment; null while paused
+  runningSince: number | null;
+};
+
+export const IDLE_THRESHOLD_MS = 5 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const timerStorageKey = (userId: string) => `timer:${userId}`;
+export const activityStorageKey = (userId: string) => `timer-activity:${userId}`;
+
+export const elapsedMs = (state: TimerState, now = Date.now()) =>
+  state.accumulatedMs + (state.runningSince === null ? 0 : Math.max(0, now - state.runningSince));
+
+export const formatElapsed = (ms: number) => {
+  const total = Math.floor(ms / 1000);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+};
+
+export const startTimer = (fields: Omit<TimerState, "startedAt" | "accumulatedMs" | "runningSince">, now = Date.now()): TimerState => ({
+  ...fields,
+  startedAt: now,
+  accumulatedMs: 0,
+  runningSince: now,
+});
+
+export const pauseTimer = (state: TimerState, now = Date.now()): TimerState =>
+  state.runningSince === null ? state : { ...state, accumulatedMs: elapsedMs(state, now), runningSince: null };
+
+export const resumeTimer = (state: TimerState, now = Date.now()): TimerState =>
+  state.runningSince === null ? { ...state, runningSince: now } : state;
+
+// Drops idle time from the running segment, e.g. when the user says the idle minutes were not work
+export const discardIdle = (state: TimerState, idleSince: number, now = Date.now()): TimerState => {
+  if (state.runningSince === null) return state;
+  const kept = Math.max(0, idleSince - state.runningSince);
+  return { ...state, accumulatedMs: state.accumulatedMs + kept, runningSince: now };
+};
+
+const toTime = (date: Date) => `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+
+/**
+ * Converts a stopped timer into a grid entry: start and end are the wall-clock times,
+ * and paused or discarded idle time becomes the break. A shift past midnight keeps its
+ * real end time; timers left running for a day or more are cut off just before 24h.
+ */
+export function timerToEntry(state: TimerState, now = Date.now()): ImportedEntry {
+  const started = new Date(state.startedAt);
+  const stopped = new Date(Math.min(now, state.startedAt + DAY_MS - 60000));
+  const span = spanMinutes(parseTime(toTime(started)) ?? 0, parseTime(toTime(stopped)) ?? 0);
+  const workedMinutes = Math.min(span, Math.round(elapsedMs(state, now) / 60000));
+
+  return {
+    date: localIsoDate(started),
+    start: toTime(started),
+    end: toTime(stopped),
+    breakMinutes: span - workedMinutes,
+    project: state.project,
+    task: state.task,
+    notes: "",
+  };
+}
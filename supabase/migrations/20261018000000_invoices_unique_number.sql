@@ -0,0 +1,5 @@
+-- Invoice numbers are allocated by the client (see createInvoice in src/api/invoices.ts), which
+-- retries with the next number when this constraint rejects a duplicate from a concurrent insert.
+-- Renumber any existing duplicates before applying.
+alter table public.invoices
+  add constraint invoices_user_id_number_key unique (user_id, number);